@@ -22,6 +22,13 @@ export default defineNuxtConfig({
     plugins: [
       '~/plugins/websocket.server.ts'
     ],
+    // Items, auctions, bids and transactions (see server/database)
+    storage: {
+      marketplace: {
+        driver: 'fs',
+        base: './.data/marketplace'
+      }
+    },
     // Performance optimization from CNS patterns
     routeRules: {
       // Static pages (80% of traffic)
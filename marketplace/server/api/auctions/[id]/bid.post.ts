@@ -1,11 +1,6 @@
-import { z } from 'zod'
 import jwt from 'jsonwebtoken'
-
-const bidSchema = z.object({
-  amount: z.number().min(0.01),
-  maxBid: z.number().min(0.01).optional(), // For auto-bidding
-  isAutoBid: z.boolean().default(false)
-})
+import { bidSchema } from '~/server/database'
+import { useDatabase } from '~/server/utils/db'
 
 // Mock authentication
 function verifyToken(token: string) {
@@ -20,28 +15,6 @@ function verifyToken(token: string) {
   }
 }
 
-// Mock auction database
-const mockAuctions = new Map([
-  ['auction-1', {
-    id: 'auction-1',
-    itemId: '1',
-    sellerId: 'user-1',
-    startPrice: 25.00,
-    currentPrice: 89.50,
-    bidIncrement: 5.00,
-    endTime: new Date(Date.now() + 2 * 60 * 60 * 1000),
-    status: 'active',
-    totalBids: 12,
-    currentBidder: 'user-5',
-    reservePrice: 50.00,
-    reserveMet: true,
-    autoExtend: true,
-    extendMinutes: 5
-  }]
-])
-
-const mockBids = new Map() // Store bids by auction ID
-
 export default defineEventHandler(async (event) => {
   try {
     // Check authentication
@@ -70,7 +43,8 @@ export default defineEventHandler(async (event) => {
     const bidData = bidSchema.parse(body)
 
     // Get auction
-    const auction = mockAuctions.get(auctionId)
+    const db = await useDatabase()
+    const auction = await db.auctions.get(auctionId)
     if (!auction) {
       throw createError({
         statusCode: 404,
@@ -109,13 +83,9 @@ export default defineEventHandler(async (event) => {
     }
 
     // Check for recent bid by same user (prevent spam)
-    if (!mockBids.has(auctionId)) {
-      mockBids.set(auctionId, [])
-    }
-    
-    const auctionBids = mockBids.get(auctionId)
-    const recentUserBids = auctionBids.filter((bid: any) => 
-      bid.bidderId === user.id && 
+    const recentUserBids = await db.bids.list(bid =>
+      bid.auctionId === auctionId &&
+      bid.bidderId === user.id &&
       Date.now() - bid.timestamp.getTime() < 10000 // 10 seconds
     )
 
@@ -137,7 +107,7 @@ export default defineEventHandler(async (event) => {
       isAutoBid: bidData.isAutoBid,
       timestamp: new Date(),
       isWinning: true,
-      ipAddress: getClientIP(event)
+      ipAddress: getRequestIP(event, { xForwardedFor: true }) || 'unknown'
     }
 
     // Update auction
@@ -147,14 +117,14 @@ export default defineEventHandler(async (event) => {
     auction.currentBidder = user.id
     auction.totalBids += 1
     
-    // Store bid
-    auctionBids.push(newBid)
+    // Store bid and auction
+    await db.bids.create(newBid)
+    await db.auctions.update(auction.id, auction)
     
     // Check for auto-bids (simplified logic)
     const triggeredAutoBids = processAutoBids(auctionId, bidData.amount, user.id)
     
     // In production, you would:
-    // - Save to database
     // - Send real-time updates via WebSocket
     // - Send notifications to watchers
     // - Update search indexes
@@ -245,8 +215,4 @@ function processAutoBids(auctionId: string, currentBid: number, excludeBidder: s
   }
   
   return autoBids
-}
-
-function getClientIP(event: any): string {
-  return getClientIP(event) || 'unknown'
 }
\ No newline at end of file
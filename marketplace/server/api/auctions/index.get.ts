@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { useDatabase } from '~/server/utils/db'
 
 const auctionQuerySchema = z.object({
   status: z.enum(['active', 'ended', 'upcoming', 'all']).default('active'),
@@ -12,92 +13,13 @@ const auctionQuerySchema = z.object({
   limit: z.coerce.number().min(1).max(50).default(20)
 })
 
-// Mock auction database
-const mockAuctions = [
-  {
-    id: 'auction-1',
-    itemId: '1',
-    itemName: 'Vue CLI Template Pro',
-    itemCategory: 'web',
-    sellerId: 'user-1',
-    sellerName: 'John Doe',
-    startPrice: 25.00,
-    currentPrice: 89.50,
-    buyNowPrice: 150.00,
-    bidIncrement: 5.00,
-    startTime: new Date('2024-03-01T10:00:00Z'),
-    endTime: new Date(Date.now() + 2 * 60 * 60 * 1000), // 2 hours from now
-    status: 'active' as const,
-    totalBids: 12,
-    uniqueBidders: 7,
-    currentBidder: 'user-5',
-    reserveMet: true,
-    isReserveAuction: true,
-    reservePrice: 50.00,
-    autoExtend: true,
-    extendMinutes: 5,
-    images: ['/images/vue-template-auction-1.jpg'],
-    watchers: 23,
-    createdAt: new Date('2024-02-25T09:00:00Z')
-  },
-  {
-    id: 'auction-2', 
-    itemId: '2',
-    itemName: 'Advanced Auth Plugin',
-    itemCategory: 'authentication',
-    sellerId: 'user-2',
-    sellerName: 'Jane Smith',
-    startPrice: 40.00,
-    currentPrice: 65.00,
-    buyNowPrice: 100.00,
-    bidIncrement: 5.00,
-    startTime: new Date('2024-02-28T14:00:00Z'),
-    endTime: new Date(Date.now() + 18 * 60 * 60 * 1000), // 18 hours from now
-    status: 'active' as const,
-    totalBids: 8,
-    uniqueBidders: 5,
-    currentBidder: 'user-7',
-    reserveMet: true,
-    isReserveAuction: false,
-    autoExtend: true,
-    extendMinutes: 10,
-    images: ['/images/auth-plugin-auction-1.jpg'],
-    watchers: 15,
-    createdAt: new Date('2024-02-20T11:00:00Z')
-  },
-  {
-    id: 'auction-3',
-    itemId: '3',
-    itemName: 'Database Migration Tool',
-    itemCategory: 'database',
-    sellerId: 'user-3',
-    sellerName: 'Database Corp',
-    startPrice: 75.00,
-    currentPrice: 120.00,
-    buyNowPrice: 200.00,
-    bidIncrement: 10.00,
-    startTime: new Date('2024-03-05T16:00:00Z'),
-    endTime: new Date(Date.now() - 2 * 60 * 60 * 1000), // Ended 2 hours ago
-    status: 'ended' as const,
-    totalBids: 18,
-    uniqueBidders: 11,
-    currentBidder: 'user-9',
-    winningBidder: 'user-9',
-    reserveMet: true,
-    isReserveAuction: true,
-    reservePrice: 100.00,
-    autoExtend: false,
-    images: ['/images/database-tool-auction-1.jpg'],
-    watchers: 31,
-    createdAt: new Date('2024-02-28T12:00:00Z')
-  }
-]
-
 export default defineEventHandler(async (event) => {
   try {
     const query = await getValidatedQuery(event, auctionQuerySchema.parse)
     
-    let auctions = [...mockAuctions]
+    const db = await useDatabase()
+    const allAuctions = await db.auctions.list()
+    let auctions = [...allAuctions]
     
     // Apply status filter
     if (query.status !== 'all') {
@@ -176,9 +98,9 @@ export default defineEventHandler(async (event) => {
     // Generate facets
     const categories = [...new Set(auctions.map(auction => auction.itemCategory))]
     const statusCounts = {
-      active: mockAuctions.filter(a => a.status === 'active').length,
-      ended: mockAuctions.filter(a => a.status === 'ended').length,
-      upcoming: mockAuctions.filter(a => a.status === 'upcoming').length
+      active: allAuctions.filter(a => a.status === 'active').length,
+      ended: allAuctions.filter(a => a.status === 'ended').length,
+      upcoming: allAuctions.filter(a => a.status === 'upcoming').length
     }
     
     return {
@@ -1,4 +1,5 @@
 import jwt from 'jsonwebtoken'
+import { useDatabase } from '~/server/utils/db'
 
 // Mock authentication
 function verifyToken(token: string) {
@@ -13,25 +14,6 @@ function verifyToken(token: string) {
   }
 }
 
-// Mock database
-const mockItems = new Map([
-  ['1', {
-    id: '1',
-    name: 'Vue CLI Template Pro',
-    sellerId: 'user-1',
-    isActive: true
-  }],
-  ['2', {
-    id: '2', 
-    name: 'Advanced Auth Plugin',
-    sellerId: 'user-2',
-    isActive: true
-  }]
-])
-
-const mockViews = new Map()
-const mockFavorites = new Map()
-
 export default defineEventHandler(async (event) => {
   try {
     // Check authentication
@@ -56,7 +38,8 @@ export default defineEventHandler(async (event) => {
     }
 
     // Check if item exists
-    const item = mockItems.get(itemId)
+    const db = await useDatabase()
+    const item = await db.items.get(itemId)
     if (!item) {
       throw createError({
         statusCode: 404,
@@ -72,14 +55,12 @@ export default defineEventHandler(async (event) => {
       })
     }
 
-    // Delete item and related data
-    mockItems.delete(itemId)
-    mockViews.delete(itemId)
-    mockFavorites.delete(itemId)
+    // Delete item (views and favorites are stored on the item)
+    await db.items.delete(itemId)
 
     // In production:
     // - Soft delete from database (set isDeleted: true)
-    // - Clean up related data (views, favorites, transactions)
+    // - Clean up related data (transactions)
     // - Remove from search indexes
     // - Cancel active auctions
     // - Notify watchers
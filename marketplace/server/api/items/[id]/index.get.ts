@@ -0,0 +1,49 @@
+import { useDatabase } from '~/server/utils/db'
+import { computeIntegrity } from '~/server/utils/integrity'
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Get item ID from route
+    const itemId = getRouterParam(event, 'id')
+    if (!itemId) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Item ID required'
+      })
+    }
+
+    const db = await useDatabase()
+    const item = await db.items.get(itemId)
+    if (!item || !item.isActive) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Item not found'
+      })
+    }
+
+    // Clients check the files against the digest, and the digest against
+    // the signature, before installing them
+    return {
+      success: true,
+      data: {
+        item: {
+          ...item,
+          digest: item.digest ?? computeIntegrity(item.files || []),
+          signature: item.signature ?? null
+        }
+      }
+    }
+
+  } catch (error: any) {
+    console.error('Get item error:', error)
+
+    if (error.statusCode) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Internal server error'
+    })
+  }
+})
@@ -1,29 +1,6 @@
-import { z } from 'zod'
 import jwt from 'jsonwebtoken'
-
-const updateItemSchema = z.object({
-  name: z.string().min(1).max(200).optional(),
-  description: z.string().min(10).max(2000).optional(),
-  version: z.string().regex(/^\d+\.\d+\.\d+$/).optional(),
-  price: z.number().min(0).max(10000).optional(),
-  tags: z.array(z.string()).min(1).max(10).optional(),
-  condition: z.enum(['new', 'like-new', 'good', 'fair', 'poor']).optional(),
-  location: z.object({
-    country: z.string().min(1),
-    state: z.string().optional(),
-    city: z.string().optional(),
-    zipCode: z.string().optional()
-  }).optional(),
-  shipping: z.object({
-    available: z.boolean(),
-    cost: z.number().min(0).optional(),
-    methods: z.array(z.string())
-  }).optional(),
-  specifications: z.record(z.any()).optional(),
-  isActive: z.boolean().optional()
-}).refine(data => Object.keys(data).length > 0, {
-  message: 'At least one field must be updated'
-})
+import { updateItemSchema } from '~/server/database'
+import { useDatabase } from '~/server/utils/db'
 
 // Mock authentication
 function verifyToken(token: string) {
@@ -38,28 +15,6 @@ function verifyToken(token: string) {
   }
 }
 
-// Mock database
-const mockItems = new Map([
-  ['1', {
-    id: '1',
-    name: 'Vue CLI Template Pro',
-    sellerId: 'user-1',
-    price: 49.99,
-    isActive: true,
-    createdAt: new Date('2024-01-15'),
-    updatedAt: new Date('2024-03-10')
-  }],
-  ['2', {
-    id: '2', 
-    name: 'Advanced Auth Plugin',
-    sellerId: 'user-2',
-    price: 79.99,
-    isActive: true,
-    createdAt: new Date('2023-11-20'),
-    updatedAt: new Date('2024-02-28')
-  }]
-])
-
 export default defineEventHandler(async (event) => {
   try {
     // Check authentication
@@ -84,7 +39,8 @@ export default defineEventHandler(async (event) => {
     }
 
     // Check if item exists
-    const item = mockItems.get(itemId)
+    const db = await useDatabase()
+    const item = await db.items.get(itemId)
     if (!item) {
       throw createError({
         statusCode: 404,
@@ -105,19 +61,13 @@ export default defineEventHandler(async (event) => {
     const updates = updateItemSchema.parse(body)
 
     // Update item
-    const updatedItem = {
-      ...item,
+    const updatedItem = await db.items.update(itemId, {
       ...updates,
-      id: itemId, // Prevent ID changes
       sellerId: item.sellerId, // Prevent seller changes
       updatedAt: new Date()
-    }
-
-    // Save updated item (mock)
-    mockItems.set(itemId, updatedItem)
+    })
 
     // In production:
-    // - Update database record
     // - Invalidate caches
     // - Update search indexes
     // - Send notifications to watchers
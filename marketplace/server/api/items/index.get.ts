@@ -1,5 +1,5 @@
-import type { MarketplaceItemUnion } from '~/types/marketplace'
 import { z } from 'zod'
+import { useDatabase } from '~/server/utils/db'
 
 const querySchema = z.object({
   q: z.string().optional(),
@@ -15,154 +15,13 @@ const querySchema = z.object({
   limit: z.coerce.number().min(1).max(100).default(20)
 })
 
-// Mock database - replace with actual database queries
-const mockItems: Record<string, MarketplaceItemUnion & {
-  price: number
-  category: string
-  tags: string[]
-  images: string[]
-  condition: 'new' | 'like-new' | 'good' | 'fair' | 'poor'
-  location: {
-    country: string
-    state?: string
-    city?: string
-    zipCode?: string
-  }
-  shipping: {
-    available: boolean
-    cost?: number
-    methods: string[]
-  }
-  specifications: Record<string, any>
-  isActive: boolean
-  sellerId: string
-  views: number
-  favorites: number
-}> = {
-  '1': {
-    id: '1',
-    name: 'Vue CLI Template Pro',
-    description: 'Enterprise-grade Vue.js CLI template with TypeScript, Tailwind CSS, Vite, comprehensive testing suite, and advanced CI/CD pipeline.',
-    version: '2.1.0',
-    author: { 
-      name: 'John Doe', 
-      email: 'john@example.com',
-      url: 'https://github.com/johndoe'
-    },
-    repository: 'https://github.com/johndoe/vue-cli-template-pro',
-    keywords: ['vue', 'typescript', 'tailwind', 'vite', 'cli', 'template', 'enterprise'],
-    license: 'MIT',
-    createdAt: new Date('2024-01-15'),
-    updatedAt: new Date('2024-03-10'),
-    downloads: 25420,
-    rating: 4.9,
-    verified: true,
-    type: 'template',
-    category: 'web',
-    price: 49.99,
-    tags: ['vue', 'typescript', 'enterprise', 'template'],
-    images: ['/images/vue-template-1.jpg', '/images/vue-template-2.jpg'],
-    condition: 'new',
-    location: { country: 'USA', state: 'CA', city: 'San Francisco' },
-    shipping: { available: true, cost: 0, methods: ['digital'] },
-    specifications: { framework: 'Vue 3', typescript: true, testing: 'Vitest + Cypress' },
-    isActive: true,
-    sellerId: 'user-1',
-    views: 1542,
-    favorites: 89,
-    files: [
-      { 
-        path: 'package.json', 
-        content: JSON.stringify({
-          name: 'vue-cli-template-pro',
-          version: '2.1.0',
-          type: 'module',
-          scripts: {
-            dev: 'vite',
-            build: 'vue-tsc && vite build',
-            preview: 'vite preview',
-            test: 'vitest',
-            'test:e2e': 'cypress run',
-            lint: 'eslint . --ext .vue,.js,.jsx,.cjs,.mjs,.ts,.tsx,.cts,.mts --fix --ignore-path .gitignore'
-          }
-        }, null, 2), 
-        type: 'file' 
-      }
-    ],
-    dependencies: { 'vue': '^3.4.0', 'vue-router': '^4.2.0' },
-    devDependencies: { '@vitejs/plugin-vue': '^5.0.0', 'typescript': '^5.2.0' },
-    scripts: { 'dev': 'vite', 'build': 'vue-tsc && vite build' }
-  },
-  '2': {
-    id: '2',
-    name: 'Advanced Auth Plugin',
-    description: 'Enterprise authentication plugin with JWT, OAuth, MFA support, and advanced security features for CLI applications.',
-    version: '3.2.1',
-    author: { name: 'Jane Smith', url: 'https://github.com/janesmith' },
-    repository: 'https://github.com/janesmith/citty-auth-pro',
-    keywords: ['auth', 'jwt', 'oauth', 'mfa', 'security', 'enterprise'],
-    license: 'Apache-2.0',
-    createdAt: new Date('2023-11-20'),
-    updatedAt: new Date('2024-02-28'),
-    downloads: 18930,
-    rating: 4.7,
-    verified: true,
-    type: 'plugin',
-    category: 'authentication',
-    price: 79.99,
-    tags: ['auth', 'security', 'enterprise', 'oauth'],
-    images: ['/images/auth-plugin-1.jpg'],
-    condition: 'new',
-    location: { country: 'Canada', state: 'ON', city: 'Toronto' },
-    shipping: { available: true, cost: 0, methods: ['digital'] },
-    specifications: { oauth: 'OAuth 2.0/OIDC', mfa: 'TOTP/SMS', encryption: 'AES-256' },
-    isActive: true,
-    sellerId: 'user-2',
-    views: 892,
-    favorites: 45,
-    hooks: ['before:command', 'after:command', 'on:error'],
-    commands: ['auth:login', 'auth:logout', 'auth:status', 'auth:mfa'],
-    peerDependencies: { 'jsonwebtoken': '^9.0.0', 'bcrypt': '^5.1.0' }
-  },
-  '3': {
-    id: '3',
-    name: 'React Dashboard Template',
-    description: 'Modern React dashboard template with advanced analytics, real-time data visualization, and responsive design.',
-    version: '1.5.0',
-    author: { name: 'Alex Johnson', url: 'https://github.com/alexj' },
-    repository: 'https://github.com/alexj/react-dashboard-pro',
-    keywords: ['react', 'dashboard', 'analytics', 'charts', 'responsive'],
-    license: 'MIT',
-    createdAt: new Date('2024-02-10'),
-    updatedAt: new Date('2024-03-15'),
-    downloads: 12500,
-    rating: 4.6,
-    verified: true,
-    type: 'template',
-    category: 'web',
-    price: 39.99,
-    tags: ['react', 'dashboard', 'analytics', 'charts'],
-    images: ['/images/dashboard-1.jpg', '/images/dashboard-2.jpg', '/images/dashboard-3.jpg'],
-    condition: 'new',
-    location: { country: 'UK', city: 'London' },
-    shipping: { available: true, cost: 0, methods: ['digital'] },
-    specifications: { react: '18.x', charts: 'Chart.js/D3', responsive: true },
-    isActive: true,
-    sellerId: 'user-3',
-    views: 756,
-    favorites: 34,
-    files: [],
-    dependencies: { 'react': '^18.0.0', 'chart.js': '^4.0.0' },
-    devDependencies: { 'vite': '^5.0.0', '@types/react': '^18.0.0' },
-    scripts: { 'dev': 'vite', 'build': 'vite build' }
-  }
-}
-
 export default defineEventHandler(async (event) => {
   try {
     const query = await getValidatedQuery(event, querySchema.parse)
     
-    let items = Object.values(mockItems).filter(item => item.isActive)
+    const db = await useDatabase()
+    const allItems = await db.items.list(item => item.isActive)
+    let items = [...allItems]
     
     // Apply search filter
     if (query.q) {
@@ -238,7 +97,6 @@ export default defineEventHandler(async (event) => {
     const paginatedItems = items.slice(startIndex, endIndex)
     
     // Generate facets
-    const allItems = Object.values(mockItems).filter(item => item.isActive)
     const categories = [...new Set(allItems.map(item => item.category))]
     const allTags = [...new Set(allItems.flatMap(item => item.tags))]
     const conditions = [...new Set(allItems.map(item => item.condition))]
@@ -1,47 +1,8 @@
-import { z } from 'zod'
 import jwt from 'jsonwebtoken'
-
-const createItemSchema = z.object({
-  name: z.string().min(1).max(200),
-  description: z.string().min(10).max(2000),
-  version: z.string().regex(/^\d+\.\d+\.\d+$/),
-  author: z.object({
-    name: z.string().min(1),
-    email: z.string().email().optional(),
-    url: z.string().url().optional()
-  }),
-  repository: z.string().url().optional(),
-  keywords: z.array(z.string()).min(1).max(20),
-  license: z.string().min(1),
-  type: z.enum(['template', 'plugin', 'workflow', 'tool']),
-  category: z.string().min(1),
-  price: z.number().min(0).max(10000),
-  tags: z.array(z.string()).min(1).max(10),
-  condition: z.enum(['new', 'like-new', 'good', 'fair', 'poor']).default('new'),
-  location: z.object({
-    country: z.string().min(1),
-    state: z.string().optional(),
-    city: z.string().optional(),
-    zipCode: z.string().optional()
-  }),
-  shipping: z.object({
-    available: z.boolean().default(true),
-    cost: z.number().min(0).optional(),
-    methods: z.array(z.string()).default(['digital'])
-  }),
-  specifications: z.record(z.any()).default({}),
-  files: z.array(z.object({
-    path: z.string(),
-    content: z.string(),
-    type: z.enum(['file', 'directory'])
-  })).optional(),
-  dependencies: z.record(z.string()).optional(),
-  devDependencies: z.record(z.string()).optional(),
-  scripts: z.record(z.string()).optional(),
-  hooks: z.array(z.string()).optional(),
-  commands: z.array(z.string()).optional(),
-  peerDependencies: z.record(z.string()).optional()
-})
+import { createItemSchema } from '~/server/database'
+import { useDatabase } from '~/server/utils/db'
+import { computeIntegrity, verifySignature } from '~/server/utils/integrity'
+import { listPackageVersions } from '~/server/utils/packages'
 
 // Mock user authentication
 function verifyToken(token: string) {
@@ -56,9 +17,6 @@ function verifyToken(token: string) {
   }
 }
 
-// Mock database - replace with actual database
-const mockItems = new Map()
-
 export default defineEventHandler(async (event) => {
   try {
     // Check authentication
@@ -75,12 +33,60 @@ export default defineEventHandler(async (event) => {
 
     // Validate request body
     const body = await readBody(event)
-    const itemData = createItemSchema.parse(body)
+    const { signature, ...itemData } = createItemSchema.parse(body)
+
+    // A name belongs to its first seller, and a version is published once
+    const db = await useDatabase()
+    const versions = await listPackageVersions(db, itemData.name)
+    if (versions.length > 0 && versions[0].sellerId !== user.id) {
+      throw createError({
+        statusCode: 403,
+        statusMessage: `${itemData.name} is published by another seller`
+      })
+    }
+    if (versions.some((item) => item.version === itemData.version)) {
+      throw createError({
+        statusCode: 409,
+        statusMessage: `${itemData.name}@${itemData.version} is already published`
+      })
+    }
+
+    // Digest of the canonical tarball, signed with one of the author's keys
+    let digest
+    try {
+      digest = computeIntegrity(itemData.files || [])
+    } catch (error: any) {
+      // Paths that do not fit in a tarball header
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      })
+    }
+    let signed
+    if (signature) {
+      const key = await db.keys.get(signature.keyId)
+      if (!key || key.userId !== user.id) {
+        throw createError({
+          statusCode: 400,
+          statusMessage: 'Signing key is not registered to this account'
+        })
+      }
+      if (!verifySignature(digest, signature.value, key.publicKey)) {
+        throw createError({
+          statusCode: 400,
+          statusMessage: 'Signature does not match the item files',
+          data: { digest }
+        })
+      }
+      signed = { ...signature, publicKey: key.publicKey }
+    }
 
     // Create new item
-    const newItem = {
+    const newItem = await db.items.create({
       id: `item-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       ...itemData,
+      digest,
+      signature: signed,
       sellerId: user.id,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -90,13 +96,9 @@ export default defineEventHandler(async (event) => {
       views: 0,
       favorites: 0,
       isActive: true
-    }
-
-    // Store item (mock)
-    mockItems.set(newItem.id, newItem)
+    })
 
-    // In production: 
-    // - Save to database
+    // In production:
     // - Validate files and content
     // - Process images/assets
     // - Send notifications
@@ -0,0 +1,97 @@
+import { createPublicKey } from 'node:crypto'
+import jwt from 'jsonwebtoken'
+import { registerKeySchema } from '~/server/database'
+import { useDatabase } from '~/server/utils/db'
+import { keyFingerprint } from '~/server/utils/integrity'
+
+// Mock user authentication
+function verifyToken(token: string) {
+  try {
+    const config = useRuntimeConfig()
+    return jwt.verify(token, config.jwtSecret) as { id: string, email: string, role: string }
+  } catch {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Invalid or expired token'
+    })
+  }
+}
+
+// Registers an Ed25519 public key (PEM) that signs the author's items
+export default defineEventHandler(async (event) => {
+  try {
+    // Check authentication
+    const authHeader = getHeader(event, 'authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Authorization header required'
+      })
+    }
+
+    const token = authHeader.substring(7)
+    const user = verifyToken(token)
+
+    // Validate request body
+    const body = await readBody(event)
+    const { publicKey } = registerKeySchema.parse(body)
+
+    let keyType
+    try {
+      keyType = createPublicKey(publicKey).asymmetricKeyType
+    } catch {
+      keyType = undefined
+    }
+    if (keyType !== 'ed25519') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Public key must be an Ed25519 key in PEM format'
+      })
+    }
+
+    const db = await useDatabase()
+    const id = keyFingerprint(publicKey)
+    const existing = await db.keys.get(id)
+    if (existing && existing.userId !== user.id) {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'Key is registered to another account'
+      })
+    }
+
+    const key = existing ?? await db.keys.create({
+      id,
+      userId: user.id,
+      publicKey,
+      createdAt: new Date()
+    })
+
+    setResponseStatus(event, existing ? 200 : 201)
+    return {
+      success: true,
+      data: { key },
+      message: existing ? 'Key already registered' : 'Key registered successfully'
+    }
+
+  } catch (error: any) {
+    console.error('Register key error:', error)
+
+    if (error.statusCode) {
+      throw error
+    }
+
+    // Zod validation errors
+    if (error.name === 'ZodError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Validation error',
+        data: error.errors
+      })
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Internal server error'
+    })
+  }
+})
@@ -0,0 +1,64 @@
+import { useDatabase } from '~/server/utils/db'
+import { computeIntegrity } from '~/server/utils/integrity'
+import { listPackageVersions } from '~/server/utils/packages'
+
+// Every published version of an item, for `unjucks add <name>@<range>`.
+// Only the items of the seller owning the name are versions of it.
+export default defineEventHandler(async (event) => {
+  try {
+    const name = getRouterParam(event, 'name', { decode: true })
+    if (!name) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Package name required'
+      })
+    }
+
+    const db = await useDatabase()
+    const items = (await listPackageVersions(db, name)).filter(
+      (item) => item.isActive
+    )
+    if (items.length === 0) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Package not found'
+      })
+    }
+
+    const versions = Object.fromEntries(
+      items.map((item) => {
+        const files = item.files || []
+        return [
+          item.version,
+          {
+            name: item.name,
+            version: item.version,
+            type: item.type,
+            files,
+            dependencies: item.dependencies,
+            hooks: item.hooks,
+            commands: item.commands,
+            integrity: item.digest ?? computeIntegrity(files),
+            signature: item.signature
+          }
+        ]
+      })
+    )
+
+    return {
+      success: true,
+      data: { name, versions }
+    }
+  } catch (error: any) {
+    console.error('Registry error:', error)
+
+    if (error.statusCode) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Registry service error'
+    })
+  }
+})
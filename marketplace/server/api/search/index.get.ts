@@ -1,5 +1,6 @@
 import { z } from 'zod'
-import type { MarketplaceItemUnion } from '~/types/marketplace'
+import type { ItemRecord } from '~/server/database'
+import { useSearchIndex } from '~/server/utils/search'
 
 const searchQuerySchema = z.object({
   q: z.string().min(1, 'Search query is required'),
@@ -14,4 +15,159 @@ const searchQuerySchema = z.object({
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(50).default(20),
   facets: z.coerce.boolean().default(true)
-})\n\n// Enhanced mock items database with search-optimized data\nconst searchableItems = [\n  {\n    id: '1',\n    name: 'Vue CLI Template Pro',\n    description: 'Enterprise-grade Vue.js CLI application template with TypeScript, Tailwind CSS, Vite, comprehensive testing suite, ESLint, Prettier, and advanced CI/CD pipeline integration.',\n    version: '2.1.0',\n    author: { name: 'John Doe', email: 'john@example.com' },\n    keywords: ['vue', 'typescript', 'tailwind', 'vite', 'cli', 'template', 'enterprise', 'testing'],\n    type: 'template' as const,\n    category: 'web',\n    price: 49.99,\n    rating: 4.9,\n    downloads: 25420,\n    verified: true,\n    createdAt: new Date('2024-01-15'),\n    updatedAt: new Date('2024-03-10'),\n    tags: ['vue', 'typescript', 'enterprise', 'frontend'],\n    searchScore: 0\n  },\n  {\n    id: '2',\n    name: 'Advanced Auth Plugin',\n    description: 'Comprehensive authentication plugin with JWT tokens, OAuth 2.0, multi-factor authentication, session management, and enterprise security features for CLI applications.',\n    version: '3.2.1',\n    author: { name: 'Jane Smith' },\n    keywords: ['auth', 'jwt', 'oauth', 'mfa', 'security', 'authentication', 'enterprise', 'session'],\n    type: 'plugin' as const,\n    category: 'authentication',\n    price: 79.99,\n    rating: 4.7,\n    downloads: 18930,\n    verified: true,\n    createdAt: new Date('2023-11-20'),\n    updatedAt: new Date('2024-02-28'),\n    tags: ['auth', 'security', 'oauth', 'mfa'],\n    searchScore: 0\n  },\n  {\n    id: '3',\n    name: 'React Dashboard Template',\n    description: 'Modern responsive React dashboard template with advanced analytics, real-time data visualization, chart integration, and comprehensive admin panel features.',\n    version: '1.5.0',\n    author: { name: 'Alex Johnson' },\n    keywords: ['react', 'dashboard', 'analytics', 'charts', 'admin', 'visualization', 'responsive'],\n    type: 'template' as const,\n    category: 'web',\n    price: 39.99,\n    rating: 4.6,\n    downloads: 12500,\n    verified: true,\n    createdAt: new Date('2024-02-10'),\n    updatedAt: new Date('2024-03-15'),\n    tags: ['react', 'dashboard', 'analytics', 'admin'],\n    searchScore: 0\n  },\n  {\n    id: '4',\n    name: 'Database Migration Tool',\n    description: 'Powerful database migration and schema management tool supporting PostgreSQL, MySQL, SQLite with rollback capabilities and version control integration.',\n    version: '2.0.3',\n    author: { name: 'Database Corp' },\n    keywords: ['database', 'migration', 'schema', 'postgresql', 'mysql', 'sqlite', 'versioning'],\n    type: 'tool' as const,\n    category: 'database',\n    price: 129.99,\n    rating: 4.8,\n    downloads: 8750,\n    verified: true,\n    createdAt: new Date('2024-01-05'),\n    updatedAt: new Date('2024-03-20'),\n    tags: ['database', 'migration', 'sql', 'tool'],\n    searchScore: 0\n  },\n  {\n    id: '5',\n    name: 'CI/CD Workflow Template',\n    description: 'Complete CI/CD workflow template for GitHub Actions with automated testing, deployment, security scanning, and multi-environment support.',\n    version: '1.3.2',\n    author: { name: 'DevOps Team' },\n    keywords: ['cicd', 'github-actions', 'deployment', 'testing', 'automation', 'workflow', 'devops'],\n    type: 'workflow' as const,\n    category: 'devops',\n    price: 24.99,\n    rating: 4.4,\n    downloads: 15600,\n    verified: false,\n    createdAt: new Date('2024-02-01'),\n    updatedAt: new Date('2024-03-12'),\n    tags: ['cicd', 'automation', 'deployment', 'testing'],\n    searchScore: 0\n  }\n]\n\n// Advanced search algorithm with relevance scoring\nfunction calculateRelevanceScore(item: any, searchQuery: string): number {\n  const query = searchQuery.toLowerCase()\n  let score = 0\n\n  // Exact name match gets highest score\n  if (item.name.toLowerCase() === query) {\n    score += 100\n  } else if (item.name.toLowerCase().includes(query)) {\n    score += 50\n  }\n\n  // Description relevance\n  const descWords = query.split(' ').filter(word => word.length > 2)\n  descWords.forEach(word => {\n    if (item.description.toLowerCase().includes(word)) {\n      score += 10\n    }\n  })\n\n  // Keyword matches\n  item.keywords.forEach((keyword: string) => {\n    if (keyword.toLowerCase().includes(query)) {\n      score += 20\n    }\n    descWords.forEach(word => {\n      if (keyword.toLowerCase().includes(word)) {\n        score += 15\n      }\n    })\n  })\n\n  // Tag matches  \n  item.tags.forEach((tag: string) => {\n    if (tag.toLowerCase().includes(query)) {\n      score += 25\n    }\n  })\n\n  // Boost verified items\n  if (item.verified) {\n    score += 10\n  }\n\n  // Boost by rating and downloads\n  score += item.rating * 2\n  score += Math.log10(item.downloads + 1) * 5\n\n  return score\n}\n\nexport default defineEventHandler(async (event) => {\n  try {\n    const query = await getValidatedQuery(event, searchQuerySchema.parse)\n    \n    // Calculate relevance scores for all items\n    const itemsWithScores = searchableItems.map(item => ({\n      ...item,\n      searchScore: calculateRelevanceScore(item, query.q)\n    }))\n    \n    // Filter items based on search criteria\n    let filteredItems = itemsWithScores.filter(item => {\n      // Must have some relevance to search query\n      if (item.searchScore <= 0) return false\n      \n      // Category filter\n      if (query.category && item.category !== query.category) return false\n      \n      // Type filter\n      if (query.type && item.type !== query.type) return false\n      \n      // Price filters\n      if (query.minPrice !== undefined && item.price < query.minPrice) return false\n      if (query.maxPrice !== undefined && item.price > query.maxPrice) return false\n      \n      // Verified filter\n      if (query.verified !== undefined && item.verified !== query.verified) return false\n      \n      // Rating filter\n      if (query.minRating !== undefined && item.rating < query.minRating) return false\n      \n      return true\n    })\n    \n    // Apply sorting\n    filteredItems.sort((a, b) => {\n      let comparison = 0\n      \n      switch (query.sortBy) {\n        case 'relevance':\n          comparison = a.searchScore - b.searchScore\n          break\n        case 'date':\n          comparison = a.createdAt.getTime() - b.createdAt.getTime()\n          break\n        case 'price':\n          comparison = a.price - b.price\n          break\n        case 'rating':\n          comparison = a.rating - b.rating\n          break\n        case 'downloads':\n          comparison = a.downloads - b.downloads\n          break\n        default:\n          comparison = a.searchScore - b.searchScore\n      }\n      \n      return query.sortOrder === 'desc' ? -comparison : comparison\n    })\n    \n    // Apply pagination\n    const startIndex = (query.page - 1) * query.limit\n    const endIndex = startIndex + query.limit\n    const paginatedItems = filteredItems.slice(startIndex, endIndex)\n    \n    // Generate search facets if requested\n    let facets = {}\n    if (query.facets) {\n      const categories = [...new Set(filteredItems.map(item => item.category))]\n      const types = [...new Set(filteredItems.map(item => item.type))]\n      const authors = [...new Set(filteredItems.map(item => item.author.name))]\n      \n      facets = {\n        categories: categories.map(cat => ({\n          value: cat,\n          count: filteredItems.filter(item => item.category === cat).length\n        })),\n        types: types.map(type => ({\n          value: type,\n          count: filteredItems.filter(item => item.type === type).length\n        })),\n        authors: authors.slice(0, 10).map(author => ({\n          value: author,\n          count: filteredItems.filter(item => item.author.name === author).length\n        })),\n        priceRanges: [\n          { range: '0-25', count: filteredItems.filter(item => item.price <= 25).length },\n          { range: '25-50', count: filteredItems.filter(item => item.price > 25 && item.price <= 50).length },\n          { range: '50-100', count: filteredItems.filter(item => item.price > 50 && item.price <= 100).length },\n          { range: '100+', count: filteredItems.filter(item => item.price > 100).length }\n        ],\n        verified: {\n          verified: filteredItems.filter(item => item.verified).length,\n          unverified: filteredItems.filter(item => !item.verified).length\n        }\n      }\n    }\n    \n    // Track search analytics (in production)\n    // await trackSearchQuery(query.q, filteredItems.length, user?.id)\n    \n    return {\n      success: true,\n      data: {\n        query: query.q,\n        results: paginatedItems.map(({ searchScore, ...item }) => item), // Remove internal score\n        pagination: {\n          page: query.page,\n          limit: query.limit,\n          total: filteredItems.length,\n          totalPages: Math.ceil(filteredItems.length / query.limit),\n          hasNext: endIndex < filteredItems.length,\n          hasPrev: query.page > 1\n        },\n        facets,\n        searchTime: Date.now() % 1000 + 'ms', // Mock search time\n        suggestions: filteredItems.length === 0 ? generateSearchSuggestions(query.q) : []\n      }\n    }\n    \n  } catch (error: any) {\n    console.error('Search API error:', error)\n    \n    if (error.statusCode) {\n      throw error\n    }\n    \n    // Zod validation errors\n    if (error.name === 'ZodError') {\n      throw createError({\n        statusCode: 400,\n        statusMessage: 'Invalid search parameters',\n        data: error.errors\n      })\n    }\n    \n    throw createError({\n      statusCode: 500,\n      statusMessage: 'Search service error'\n    })\n  }\n})\n\n// Generate search suggestions for empty results\nfunction generateSearchSuggestions(query: string): string[] {\n  const commonTerms = ['vue', 'react', 'auth', 'template', 'plugin', 'tool', 'dashboard', 'api']\n  const suggestions = []\n  \n  // Suggest similar terms\n  if (query.includes('vue')) suggestions.push('react template', 'vue plugin')\n  if (query.includes('auth')) suggestions.push('authentication plugin', 'login template')\n  if (query.includes('dashboard')) suggestions.push('admin template', 'analytics dashboard')\n  \n  // Add popular terms if no specific matches\n  if (suggestions.length === 0) {\n    suggestions.push('vue template', 'auth plugin', 'react dashboard')\n  }\n  \n  return suggestions.slice(0, 3)\n}
\ No newline at end of file
+})
+
+export default defineEventHandler(async (event) => {
+  try {
+    const query = await getValidatedQuery(event, searchQuerySchema.parse)
+    const startedAt = performance.now()
+    
+    // Rank the indexed items, words may be prefixes or contain typos
+    const index = await useSearchIndex()
+    const hits = index.search(query.q, { prefix: true, fuzzy: true })
+    const indexTime = performance.now() - startedAt
+    
+    // Filter items based on search criteria
+    const filteredItems = hits.map(hit => ({
+      ...hit.document,
+      searchScore: hit.score
+    })).filter(item => {
+      if (!item.isActive) return false
+      
+      // Category filter
+      if (query.category && item.category !== query.category) return false
+      
+      // Type filter
+      if (query.type && item.type !== query.type) return false
+      
+      // Price filters
+      if (query.minPrice !== undefined && item.price < query.minPrice) return false
+      if (query.maxPrice !== undefined && item.price > query.maxPrice) return false
+      
+      // Verified filter
+      if (query.verified !== undefined && item.verified !== query.verified) return false
+      
+      // Rating filter
+      if (query.minRating !== undefined && item.rating < query.minRating) return false
+      
+      return true
+    })
+    
+    // Apply sorting
+    filteredItems.sort((a, b) => {
+      let comparison = 0
+      
+      switch (query.sortBy) {
+        case 'relevance':
+          comparison = a.searchScore - b.searchScore
+          break
+        case 'date':
+          comparison = a.createdAt.getTime() - b.createdAt.getTime()
+          break
+        case 'price':
+          comparison = a.price - b.price
+          break
+        case 'rating':
+          comparison = a.rating - b.rating
+          break
+        case 'downloads':
+          comparison = a.downloads - b.downloads
+          break
+        default:
+          comparison = a.searchScore - b.searchScore
+      }
+      
+      return query.sortOrder === 'desc' ? -comparison : comparison
+    })
+    
+    // Apply pagination
+    const startIndex = (query.page - 1) * query.limit
+    const endIndex = startIndex + query.limit
+    const paginatedItems = filteredItems.slice(startIndex, endIndex)
+    
+    // Generate search facets if requested
+    const facets = query.facets ? countFacets(filteredItems) : {}
+    const totalTime = performance.now() - startedAt
+    
+    // Track search analytics (in production)
+    // await trackSearchQuery(query.q, filteredItems.length, user?.id)
+    
+    return {
+      success: true,
+      data: {
+        query: query.q,
+        results: paginatedItems.map(({ searchScore, ...item }) => item), // Remove internal score
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total: filteredItems.length,
+          totalPages: Math.ceil(filteredItems.length / query.limit),
+          hasNext: endIndex < filteredItems.length,
+          hasPrev: query.page > 1
+        },
+        facets,
+        searchTime: `${totalTime.toFixed(2)}ms`,
+        timings: {
+          index: Number(indexTime.toFixed(2)),
+          total: Number(totalTime.toFixed(2))
+        },
+        // Spellings of the query with unknown words corrected
+        suggestions: index.suggest(query.q)
+      }
+    }
+    
+  } catch (error: any) {
+    console.error('Search API error:', error)
+    
+    if (error.statusCode) {
+      throw error
+    }
+    
+    // Zod validation errors
+    if (error.name === 'ZodError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Invalid search parameters',
+        data: error.errors
+      })
+    }
+    
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Search service error'
+    })
+  }
+})
+
+// Count every facet in a single pass over the results
+function countFacets(items: ItemRecord[]) {
+  const categories = new Map<string, number>()
+  const types = new Map<string, number>()
+  const authors = new Map<string, number>()
+  const priceRanges = { '0-25': 0, '25-50': 0, '50-100': 0, '100+': 0 }
+  const verified = { verified: 0, unverified: 0 }
+  
+  for (const item of items) {
+    categories.set(item.category, (categories.get(item.category) || 0) + 1)
+    types.set(item.type, (types.get(item.type) || 0) + 1)
+    authors.set(item.author.name, (authors.get(item.author.name) || 0) + 1)
+    
+    if (item.price <= 25) priceRanges['0-25']++
+    else if (item.price <= 50) priceRanges['25-50']++
+    else if (item.price <= 100) priceRanges['50-100']++
+    else priceRanges['100+']++
+    
+    verified[item.verified ? 'verified' : 'unverified']++
+  }
+  
+  const toCounts = (counts: Map<string, number>) =>
+    [...counts].map(([value, count]) => ({ value, count }))
+  
+  return {
+    categories: toCounts(categories),
+    types: toCounts(types),
+    authors: toCounts(authors).slice(0, 10),
+    priceRanges: Object.entries(priceRanges).map(([range, count]) => ({ range, count })),
+    verified
+  }
+}
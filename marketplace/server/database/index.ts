@@ -0,0 +1,34 @@
+import type { Storage } from 'unstorage'
+import { createRepository, type Repository } from './repository'
+import {
+  auctionSchema,
+  bidRecordSchema,
+  itemSchema,
+  signingKeySchema,
+  transactionSchema
+} from './schemas'
+
+export * from './repository'
+export * from './schemas'
+export { migrate, migrations, type Migration } from './migrations'
+
+export interface Database {
+  items: Repository<typeof itemSchema>
+  auctions: Repository<typeof auctionSchema>
+  bids: Repository<typeof bidRecordSchema>
+  transactions: Repository<typeof transactionSchema>
+  keys: Repository<typeof signingKeySchema>
+}
+
+/**
+ * Repositories of the marketplace records, all kept in `storage`
+ */
+export function createDatabase(storage: Storage): Database {
+  return {
+    items: createRepository(storage, 'items', itemSchema),
+    auctions: createRepository(storage, 'auctions', auctionSchema),
+    bids: createRepository(storage, 'bids', bidRecordSchema),
+    transactions: createRepository(storage, 'transactions', transactionSchema),
+    keys: createRepository(storage, 'keys', signingKeySchema)
+  }
+}
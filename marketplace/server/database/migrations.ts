@@ -0,0 +1,65 @@
+import type { Storage } from 'unstorage'
+import { computeIntegrity } from '../utils/integrity'
+import type { Database } from './index'
+import { seedAuctions, seedItems, seedTransactions } from './seed'
+
+export interface Migration {
+  version: number
+  name: string
+  up(db: Database, storage: Storage): Promise<void>
+}
+
+const VERSION_KEY = 'meta:version'
+
+/**
+ * Applied in order, each one once per store. Add new migrations at the end,
+ * never change one that was released.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'seed-sample-data',
+    async up(db) {
+      for (const item of seedItems) {
+        await db.items.create(item)
+      }
+      for (const auction of seedAuctions()) {
+        await db.auctions.create(auction)
+      }
+      for (const transaction of seedTransactions) {
+        await db.transactions.create(transaction)
+      }
+    }
+  },
+  {
+    version: 2,
+    name: 'item-digests',
+    async up(db) {
+      for (const item of await db.items.list(item => !item.digest)) {
+        await db.items.update(item.id, { digest: computeIntegrity(item.files || []) })
+      }
+    }
+  }
+]
+
+/**
+ * Applies the migrations newer than the version recorded in `storage`.
+ * The version is saved after each migration, so a failed one is retried
+ * on the next start without running the earlier ones again.
+ */
+export async function migrate(
+  db: Database,
+  storage: Storage,
+  pending: Migration[] = migrations
+): Promise<number> {
+  let version = Number(await storage.getItem(VERSION_KEY)) || 0
+  for (const migration of [...pending].sort((a, b) => a.version - b.version)) {
+    if (migration.version <= version) {
+      continue
+    }
+    await migration.up(db, storage)
+    version = migration.version
+    await storage.setItem(VERSION_KEY, version)
+  }
+  return version
+}
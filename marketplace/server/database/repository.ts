@@ -0,0 +1,97 @@
+import type { Storage } from 'unstorage'
+import type { z } from 'zod'
+
+type RecordSchema = z.ZodType<{ id: string }, z.ZodTypeDef, any>
+
+/**
+ * A record written to the repository, or removed from it (`record` is null)
+ */
+export interface RepositoryChange<T> {
+  id: string
+  record: T | null
+}
+
+/**
+ * A collection of records stored under one key prefix
+ */
+export interface Repository<S extends RecordSchema> {
+  list(filter?: (record: z.output<S>) => boolean): Promise<z.output<S>[]>
+  get(id: string): Promise<z.output<S> | null>
+  /** Validates the record against the schema and stores it */
+  create(record: z.input<S>): Promise<z.output<S>>
+  /** Merges `changes` into the stored record, or returns null when there is none */
+  update(id: string, changes: Partial<z.input<S>>): Promise<z.output<S> | null>
+  delete(id: string): Promise<boolean>
+  /** Calls `listener` after every write of this process, returns a function removing it */
+  watch(listener: (change: RepositoryChange<z.output<S>>) => void): () => void
+}
+
+/**
+ * Stores the records of `schema` as `<prefix>:<id>` keys of `storage`.
+ * Records are stored as JSON, so reading one parses it again with `schema`
+ * to get the dates and defaults back.
+ */
+export function createRepository<S extends RecordSchema>(
+  storage: Storage,
+  prefix: string,
+  schema: S
+): Repository<S> {
+  const keyOf = (id: string) => `${prefix}:${id}`
+  const listeners = new Set<(change: RepositoryChange<z.output<S>>) => void>()
+  const notify = (change: RepositoryChange<z.output<S>>) => {
+    for (const listener of listeners) {
+      listener(change)
+    }
+  }
+
+  const read = async (key: string) => {
+    const value = await storage.getItem(key)
+    return value === null ? null : schema.parse(value)
+  }
+
+  const write = async (record: z.input<S>) => {
+    const parsed = schema.parse(record)
+    await storage.setItem(keyOf(parsed.id), parsed)
+    notify({ id: parsed.id, record: parsed })
+    return parsed
+  }
+
+  return {
+    async list(filter) {
+      const keys = await storage.getKeys(prefix)
+      const records = await Promise.all(keys.map(read))
+      return records.filter((record): record is z.output<S> =>
+        record !== null && (!filter || filter(record))
+      )
+    },
+
+    get: (id) => read(keyOf(id)),
+
+    create: write,
+
+    async update(id, changes) {
+      const record = await read(keyOf(id))
+      if (!record) {
+        return null
+      }
+      // The id is the key, it cannot change
+      return write({ ...record, ...changes, id })
+    },
+
+    async delete(id) {
+      if (!(await storage.hasItem(keyOf(id)))) {
+        return false
+      }
+      await storage.removeItem(keyOf(id))
+      notify({ id, record: null })
+      return true
+    },
+
+    watch(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import { z } from 'zod'
+
+/**
+ * Zod schemas shared by the API routes and the storage layer: requests are
+ * validated with the input schemas, records are checked against the record
+ * schemas on every write and parsed back (dates included) on every read.
+ */
+
+const itemConditionSchema = z.enum(['new', 'like-new', 'good', 'fair', 'poor'])
+
+const locationSchema = z.object({
+  country: z.string().min(1),
+  state: z.string().optional(),
+  city: z.string().optional(),
+  zipCode: z.string().optional()
+})
+
+// Ed25519 signature of the item's digest, by a key registered with
+// `POST /api/keys`
+const signatureInputSchema = z.object({
+  keyId: z.string().min(1),
+  value: z.string().min(1)
+})
+
+export const createItemSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().min(10).max(2000),
+  version: z.string().regex(/^\d+\.\d+\.\d+$/),
+  author: z.object({
+    name: z.string().min(1),
+    email: z.string().email().optional(),
+    url: z.string().url().optional()
+  }),
+  repository: z.string().url().optional(),
+  keywords: z.array(z.string()).min(1).max(20),
+  license: z.string().min(1),
+  type: z.enum(['template', 'plugin', 'workflow', 'tool']),
+  category: z.string().min(1),
+  price: z.number().min(0).max(10000),
+  tags: z.array(z.string()).min(1).max(10),
+  condition: itemConditionSchema.default('new'),
+  location: locationSchema,
+  shipping: z.object({
+    available: z.boolean().default(true),
+    cost: z.number().min(0).optional(),
+    methods: z.array(z.string()).default(['digital'])
+  }),
+  specifications: z.record(z.any()).default({}),
+  files: z.array(z.object({
+    path: z.string(),
+    content: z.string(),
+    type: z.enum(['file', 'directory'])
+  })).optional(),
+  dependencies: z.record(z.string()).optional(),
+  devDependencies: z.record(z.string()).optional(),
+  scripts: z.record(z.string()).optional(),
+  hooks: z.array(z.string()).optional(),
+  commands: z.array(z.string()).optional(),
+  peerDependencies: z.record(z.string()).optional(),
+  signature: signatureInputSchema.optional()
+})
+
+export const updateItemSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  description: z.string().min(10).max(2000).optional(),
+  version: z.string().regex(/^\d+\.\d+\.\d+$/).optional(),
+  price: z.number().min(0).max(10000).optional(),
+  tags: z.array(z.string()).min(1).max(10).optional(),
+  condition: itemConditionSchema.optional(),
+  location: locationSchema.optional(),
+  shipping: z.object({
+    available: z.boolean(),
+    cost: z.number().min(0).optional(),
+    methods: z.array(z.string())
+  }).optional(),
+  specifications: z.record(z.any()).optional(),
+  isActive: z.boolean().optional()
+}).refine(data => Object.keys(data).length > 0, {
+  message: 'At least one field must be updated'
+})
+
+export const registerKeySchema = z.object({
+  publicKey: z.string().min(1)
+})
+
+export const bidSchema = z.object({
+  amount: z.number().min(0.01),
+  maxBid: z.number().min(0.01).optional(), // For auto-bidding
+  isAutoBid: z.boolean().default(false)
+})
+
+export const itemSchema = createItemSchema.extend({
+  id: z.string().min(1),
+  sellerId: z.string().min(1),
+  images: z.array(z.string()).default([]),
+  downloads: z.number().int().min(0).default(0),
+  rating: z.number().min(0).max(5).default(0),
+  verified: z.boolean().default(false),
+  views: z.number().int().min(0).default(0),
+  favorites: z.number().int().min(0).default(0),
+  isActive: z.boolean().default(true),
+  // `sha256-<base64>` digest of the canonical tarball of `files`
+  digest: z.string().optional(),
+  // Kept with the public key, so it can be checked without the key store
+  signature: signatureInputSchema.extend({ publicKey: z.string().min(1) }).optional(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date()
+})
+
+export const signingKeySchema = z.object({
+  // `SHA256:<base64url>` fingerprint of the public key
+  id: z.string().min(1),
+  userId: z.string().min(1),
+  publicKey: z.string().min(1),
+  createdAt: z.coerce.date()
+})
+
+export const auctionSchema = z.object({
+  id: z.string().min(1),
+  itemId: z.string().min(1),
+  itemName: z.string().min(1),
+  itemCategory: z.string().min(1),
+  sellerId: z.string().min(1),
+  sellerName: z.string().min(1),
+  startPrice: z.number().min(0),
+  currentPrice: z.number().min(0),
+  buyNowPrice: z.number().min(0).optional(),
+  bidIncrement: z.number().min(0.01),
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+  status: z.enum(['active', 'ended', 'upcoming']),
+  totalBids: z.number().int().min(0).default(0),
+  uniqueBidders: z.number().int().min(0).default(0),
+  currentBidder: z.string().optional(),
+  winningBidder: z.string().optional(),
+  reserveMet: z.boolean().default(false),
+  isReserveAuction: z.boolean().default(false),
+  reservePrice: z.number().min(0).optional(),
+  autoExtend: z.boolean().default(false),
+  extendMinutes: z.number().int().min(1).optional(),
+  images: z.array(z.string()).default([]),
+  watchers: z.number().int().min(0).default(0),
+  createdAt: z.coerce.date()
+})
+
+export const bidRecordSchema = bidSchema.extend({
+  id: z.string().min(1),
+  auctionId: z.string().min(1),
+  bidderId: z.string().min(1),
+  bidderName: z.string(),
+  timestamp: z.coerce.date(),
+  isWinning: z.boolean(),
+  ipAddress: z.string().optional()
+})
+
+export const transactionSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['purchase', 'sale', 'auction', 'refund']),
+  status: z.enum(['pending', 'completed', 'failed', 'cancelled', 'refunded']),
+  buyerId: z.string().min(1),
+  buyerName: z.string(),
+  sellerId: z.string().min(1),
+  sellerName: z.string(),
+  itemId: z.string().min(1),
+  itemName: z.string(),
+  itemType: z.string().optional(),
+  auctionId: z.string().optional(),
+  winningBid: z.number().optional(),
+  originalTransactionId: z.string().optional(),
+  amount: z.number(),
+  currency: z.string().length(3),
+  platformFee: z.number().min(0).optional(),
+  sellerAmount: z.number().optional(),
+  paymentMethod: z.string().optional(),
+  paymentProcessor: z.string().optional(),
+  paymentIntentId: z.string().optional(),
+  refundReason: z.string().optional(),
+  refundMethod: z.string().optional(),
+  refundId: z.string().optional(),
+  createdAt: z.coerce.date(),
+  completedAt: z.coerce.date().optional(),
+  expectedCompletionDate: z.coerce.date().optional(),
+  escrowReleaseDate: z.coerce.date().optional(),
+  metadata: z.record(z.any()).default({})
+})
+
+export type CreateItemInput = z.infer<typeof createItemSchema>
+export type UpdateItemInput = z.infer<typeof updateItemSchema>
+export type RegisterKeyInput = z.infer<typeof registerKeySchema>
+export type BidInput = z.infer<typeof bidSchema>
+export type ItemRecord = z.infer<typeof itemSchema>
+export type AuctionRecord = z.infer<typeof auctionSchema>
+export type BidRecord = z.infer<typeof bidRecordSchema>
+export type TransactionRecord = z.infer<typeof transactionSchema>
+export type SigningKeyRecord = z.infer<typeof signingKeySchema>
@@ -0,0 +1,401 @@
+import type { AuctionRecord, ItemRecord, TransactionRecord } from './schemas'
+
+/**
+ * Sample data written by the first migration, so a new store starts with
+ * something to browse
+ */
+
+export const seedItems: ItemRecord[] = [
+  {
+    id: '1',
+    name: 'Vue CLI Template Pro',
+    description: 'Enterprise-grade Vue.js CLI template with TypeScript, Tailwind CSS, Vite, comprehensive testing suite, and advanced CI/CD pipeline.',
+    version: '2.1.0',
+    author: { 
+      name: 'John Doe', 
+      email: 'john@example.com',
+      url: 'https://github.com/johndoe'
+    },
+    repository: 'https://github.com/johndoe/vue-cli-template-pro',
+    keywords: ['vue', 'typescript', 'tailwind', 'vite', 'cli', 'template', 'enterprise'],
+    license: 'MIT',
+    createdAt: new Date('2024-01-15'),
+    updatedAt: new Date('2024-03-10'),
+    downloads: 25420,
+    rating: 4.9,
+    verified: true,
+    type: 'template',
+    category: 'web',
+    price: 49.99,
+    tags: ['vue', 'typescript', 'enterprise', 'template'],
+    images: ['/images/vue-template-1.jpg', '/images/vue-template-2.jpg'],
+    condition: 'new',
+    location: { country: 'USA', state: 'CA', city: 'San Francisco' },
+    shipping: { available: true, cost: 0, methods: ['digital'] },
+    specifications: { framework: 'Vue 3', typescript: true, testing: 'Vitest + Cypress' },
+    isActive: true,
+    sellerId: 'user-1',
+    views: 1542,
+    favorites: 89,
+    files: [
+      { 
+        path: 'package.json', 
+        content: JSON.stringify({
+          name: 'vue-cli-template-pro',
+          version: '2.1.0',
+          type: 'module',
+          scripts: {
+            dev: 'vite',
+            build: 'vue-tsc && vite build',
+            preview: 'vite preview',
+            test: 'vitest',
+            'test:e2e': 'cypress run',
+            lint: 'eslint . --ext .vue,.js,.jsx,.cjs,.mjs,.ts,.tsx,.cts,.mts --fix --ignore-path .gitignore'
+          }
+        }, null, 2), 
+        type: 'file' 
+      }
+    ],
+    dependencies: { 'vue': '^3.4.0', 'vue-router': '^4.2.0' },
+    devDependencies: { '@vitejs/plugin-vue': '^5.0.0', 'typescript': '^5.2.0' },
+    scripts: { 'dev': 'vite', 'build': 'vue-tsc && vite build' }
+  },
+  {
+    id: '2',
+    name: 'Advanced Auth Plugin',
+    description: 'Enterprise authentication plugin with JWT, OAuth, MFA support, and advanced security features for CLI applications.',
+    version: '3.2.1',
+    author: { name: 'Jane Smith', url: 'https://github.com/janesmith' },
+    repository: 'https://github.com/janesmith/citty-auth-pro',
+    keywords: ['auth', 'jwt', 'oauth', 'mfa', 'security', 'enterprise'],
+    license: 'Apache-2.0',
+    createdAt: new Date('2023-11-20'),
+    updatedAt: new Date('2024-02-28'),
+    downloads: 18930,
+    rating: 4.7,
+    verified: true,
+    type: 'plugin',
+    category: 'authentication',
+    price: 79.99,
+    tags: ['auth', 'security', 'enterprise', 'oauth'],
+    images: ['/images/auth-plugin-1.jpg'],
+    condition: 'new',
+    location: { country: 'Canada', state: 'ON', city: 'Toronto' },
+    shipping: { available: true, cost: 0, methods: ['digital'] },
+    specifications: { oauth: 'OAuth 2.0/OIDC', mfa: 'TOTP/SMS', encryption: 'AES-256' },
+    isActive: true,
+    sellerId: 'user-2',
+    views: 892,
+    favorites: 45,
+    hooks: ['before:command', 'after:command', 'on:error'],
+    commands: ['auth:login', 'auth:logout', 'auth:status', 'auth:mfa'],
+    peerDependencies: { 'jsonwebtoken': '^9.0.0', 'bcrypt': '^5.1.0' }
+  },
+  {
+    id: '3',
+    name: 'React Dashboard Template',
+    description: 'Modern React dashboard template with advanced analytics, real-time data visualization, and responsive design.',
+    version: '1.5.0',
+    author: { name: 'Alex Johnson', url: 'https://github.com/alexj' },
+    repository: 'https://github.com/alexj/react-dashboard-pro',
+    keywords: ['react', 'dashboard', 'analytics', 'charts', 'responsive'],
+    license: 'MIT',
+    createdAt: new Date('2024-02-10'),
+    updatedAt: new Date('2024-03-15'),
+    downloads: 12500,
+    rating: 4.6,
+    verified: true,
+    type: 'template',
+    category: 'web',
+    price: 39.99,
+    tags: ['react', 'dashboard', 'analytics', 'charts'],
+    images: ['/images/dashboard-1.jpg', '/images/dashboard-2.jpg', '/images/dashboard-3.jpg'],
+    condition: 'new',
+    location: { country: 'UK', city: 'London' },
+    shipping: { available: true, cost: 0, methods: ['digital'] },
+    specifications: { react: '18.x', charts: 'Chart.js/D3', responsive: true },
+    isActive: true,
+    sellerId: 'user-3',
+    views: 756,
+    favorites: 34,
+    files: [],
+    dependencies: { 'react': '^18.0.0', 'chart.js': '^4.0.0' },
+    devDependencies: { 'vite': '^5.0.0', '@types/react': '^18.0.0' },
+    scripts: { 'dev': 'vite', 'build': 'vite build' }
+  },
+  {
+    id: '4',
+    name: 'Database Migration Tool',
+    description: 'Powerful database migration and schema management tool supporting PostgreSQL, MySQL, SQLite with rollback capabilities and version control integration.',
+    version: '2.0.3',
+    author: { name: 'Database Corp' },
+    keywords: ['database', 'migration', 'schema', 'postgresql', 'mysql', 'sqlite', 'versioning'],
+    license: 'MIT',
+    createdAt: new Date('2024-01-05'),
+    updatedAt: new Date('2024-03-20'),
+    downloads: 8750,
+    rating: 4.8,
+    verified: true,
+    type: 'tool',
+    category: 'database',
+    price: 129.99,
+    tags: ['database', 'migration', 'sql', 'tool'],
+    images: [],
+    condition: 'new',
+    location: { country: 'Germany', city: 'Berlin' },
+    shipping: { available: true, cost: 0, methods: ['digital'] },
+    specifications: { databases: 'PostgreSQL/MySQL/SQLite', rollback: true },
+    isActive: true,
+    sellerId: 'user-3',
+    views: 634,
+    favorites: 41
+  },
+  {
+    id: '5',
+    name: 'CI/CD Workflow Template',
+    description: 'Complete CI/CD workflow template for GitHub Actions with automated testing, deployment, security scanning, and multi-environment support.',
+    version: '1.3.2',
+    author: { name: 'DevOps Team' },
+    keywords: ['cicd', 'github-actions', 'deployment', 'testing', 'automation', 'workflow', 'devops'],
+    license: 'MIT',
+    createdAt: new Date('2024-02-01'),
+    updatedAt: new Date('2024-03-12'),
+    downloads: 15600,
+    rating: 4.4,
+    verified: false,
+    type: 'workflow',
+    category: 'devops',
+    price: 24.99,
+    tags: ['cicd', 'automation', 'deployment', 'testing'],
+    images: [],
+    condition: 'new',
+    location: { country: 'USA', state: 'WA', city: 'Seattle' },
+    shipping: { available: true, cost: 0, methods: ['digital'] },
+    specifications: { platform: 'GitHub Actions', environments: ['staging', 'production'] },
+    isActive: true,
+    sellerId: 'user-4',
+    views: 1120,
+    favorites: 57
+  }
+]
+
+// Auction end times are relative to the time the store is seeded
+export const seedAuctions = (): AuctionRecord[] => [
+  {
+    id: 'auction-1',
+    itemId: '1',
+    itemName: 'Vue CLI Template Pro',
+    itemCategory: 'web',
+    sellerId: 'user-1',
+    sellerName: 'John Doe',
+    startPrice: 25.00,
+    currentPrice: 89.50,
+    buyNowPrice: 150.00,
+    bidIncrement: 5.00,
+    startTime: new Date('2024-03-01T10:00:00Z'),
+    endTime: new Date(Date.now() + 2 * 60 * 60 * 1000), // 2 hours from now
+    status: 'active',
+    totalBids: 12,
+    uniqueBidders: 7,
+    currentBidder: 'user-5',
+    reserveMet: true,
+    isReserveAuction: true,
+    reservePrice: 50.00,
+    autoExtend: true,
+    extendMinutes: 5,
+    images: ['/images/vue-template-auction-1.jpg'],
+    watchers: 23,
+    createdAt: new Date('2024-02-25T09:00:00Z')
+  },
+  {
+    id: 'auction-2', 
+    itemId: '2',
+    itemName: 'Advanced Auth Plugin',
+    itemCategory: 'authentication',
+    sellerId: 'user-2',
+    sellerName: 'Jane Smith',
+    startPrice: 40.00,
+    currentPrice: 65.00,
+    buyNowPrice: 100.00,
+    bidIncrement: 5.00,
+    startTime: new Date('2024-02-28T14:00:00Z'),
+    endTime: new Date(Date.now() + 18 * 60 * 60 * 1000), // 18 hours from now
+    status: 'active',
+    totalBids: 8,
+    uniqueBidders: 5,
+    currentBidder: 'user-7',
+    reserveMet: true,
+    isReserveAuction: false,
+    autoExtend: true,
+    extendMinutes: 10,
+    images: ['/images/auth-plugin-auction-1.jpg'],
+    watchers: 15,
+    createdAt: new Date('2024-02-20T11:00:00Z')
+  },
+  {
+    id: 'auction-3',
+    itemId: '4',
+    itemName: 'Database Migration Tool',
+    itemCategory: 'database',
+    sellerId: 'user-3',
+    sellerName: 'Database Corp',
+    startPrice: 75.00,
+    currentPrice: 120.00,
+    buyNowPrice: 200.00,
+    bidIncrement: 10.00,
+    startTime: new Date('2024-03-05T16:00:00Z'),
+    endTime: new Date(Date.now() - 2 * 60 * 60 * 1000), // Ended 2 hours ago
+    status: 'ended',
+    totalBids: 18,
+    uniqueBidders: 11,
+    currentBidder: 'user-9',
+    winningBidder: 'user-9',
+    reserveMet: true,
+    isReserveAuction: true,
+    reservePrice: 100.00,
+    autoExtend: false,
+    images: ['/images/database-tool-auction-1.jpg'],
+    watchers: 31,
+    createdAt: new Date('2024-02-28T12:00:00Z')
+  }
+]
+
+export const seedTransactions: TransactionRecord[] = [
+  {
+    id: 'txn-001',
+    type: 'purchase',
+    status: 'completed',
+    buyerId: 'user-1',
+    buyerName: 'John Doe',
+    sellerId: 'user-2',
+    sellerName: 'Jane Smith',
+    itemId: '2',
+    itemName: 'Advanced Auth Plugin',
+    itemType: 'plugin',
+    amount: 79.99,
+    currency: 'USD',
+    platformFee: 7.99,
+    sellerAmount: 72.00,
+    paymentMethod: 'credit_card',
+    paymentProcessor: 'stripe',
+    paymentIntentId: 'pi_3OxGmXEv1LmQrGsV1qFqJKZv',
+    createdAt: new Date('2024-03-10T14:30:00Z'),
+    completedAt: new Date('2024-03-10T14:30:15Z'),
+    escrowReleaseDate: new Date('2024-03-17T14:30:00Z'),
+    metadata: {
+      userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)',
+      ipAddress: '192.168.1.100',
+      downloadCount: 3,
+      licenseKey: 'lic_auth_plugin_xyz123'
+    }
+  },
+  {
+    id: 'txn-002',
+    type: 'auction',
+    status: 'completed',
+    buyerId: 'user-3',
+    buyerName: 'Alice Cooper',
+    sellerId: 'user-1',
+    sellerName: 'John Doe',
+    itemId: '1',
+    itemName: 'Vue CLI Template Pro',
+    itemType: 'template',
+    auctionId: 'auction-1',
+    winningBid: 125.50,
+    amount: 125.50,
+    currency: 'USD',
+    platformFee: 12.55,
+    sellerAmount: 112.95,
+    paymentMethod: 'paypal',
+    paymentProcessor: 'paypal',
+    paymentIntentId: 'PAYID-MW2XQ6I08D05832KU4567890',
+    createdAt: new Date('2024-03-08T20:15:00Z'),
+    completedAt: new Date('2024-03-08T20:17:30Z'),
+    escrowReleaseDate: new Date('2024-03-15T20:15:00Z'),
+    metadata: {
+      auctionEndTime: new Date('2024-03-08T20:00:00Z'),
+      totalBids: 18,
+      startingPrice: 25.00,
+      reservePrice: 75.00,
+      downloadCount: 1,
+      licenseKey: 'lic_vue_template_abc456'
+    }
+  },
+  {
+    id: 'txn-003',
+    type: 'purchase',
+    status: 'pending',
+    buyerId: 'user-4',
+    buyerName: 'Bob Wilson',
+    sellerId: 'user-3',
+    sellerName: 'Database Corp',
+    itemId: '4',
+    itemName: 'Database Migration Tool',
+    itemType: 'tool',
+    amount: 129.99,
+    currency: 'USD',
+    platformFee: 13.00,
+    sellerAmount: 116.99,
+    paymentMethod: 'bank_transfer',
+    paymentProcessor: 'wise',
+    paymentIntentId: 'wise_txn_def789',
+    createdAt: new Date('2024-03-12T09:20:00Z'),
+    expectedCompletionDate: new Date('2024-03-14T09:20:00Z'),
+    metadata: {
+      bankTransferRef: 'REF123456789',
+      requiresManualReview: true
+    }
+  },
+  {
+    id: 'txn-004',
+    type: 'refund',
+    status: 'completed',
+    originalTransactionId: 'txn-001',
+    buyerId: 'user-1',
+    buyerName: 'John Doe',
+    sellerId: 'user-2',
+    sellerName: 'Jane Smith',
+    itemId: '2',
+    itemName: 'Advanced Auth Plugin',
+    amount: -79.99,
+    currency: 'USD',
+    refundReason: 'Product not as described',
+    refundMethod: 'original_payment_method',
+    paymentProcessor: 'stripe',
+    refundId: 're_3OxGmXEv1LmQrGsV1qFqJKZv',
+    createdAt: new Date('2024-03-11T16:45:00Z'),
+    completedAt: new Date('2024-03-11T16:45:30Z'),
+    metadata: {
+      disputeId: 'dp_3OxGmXEv1LmQrGsV1qFqJKZv',
+      supportTicketId: 'ticket-789'
+    }
+  },
+  {
+    id: 'txn-005',
+    type: 'sale',
+    status: 'completed',
+    buyerId: 'user-5',
+    buyerName: 'Charlie Brown',
+    sellerId: 'user-1', // Current user's sale
+    sellerName: 'John Doe',
+    itemId: '1',
+    itemName: 'Vue CLI Template Pro',
+    itemType: 'template',
+    amount: 49.99,
+    currency: 'USD',
+    platformFee: 5.00,
+    sellerAmount: 44.99,
+    paymentMethod: 'cryptocurrency',
+    paymentProcessor: 'coinbase',
+    paymentIntentId: 'coinbase_txn_ghi012',
+    createdAt: new Date('2024-03-09T11:30:00Z'),
+    completedAt: new Date('2024-03-09T11:45:00Z'),
+    escrowReleaseDate: new Date('2024-03-16T11:30:00Z'),
+    metadata: {
+      cryptoCurrency: 'USDC',
+      walletAddress: '0x742d35Cc6634C0532925a3b8D6e4FA87C4A6C3A7',
+      downloadCount: 5,
+      licenseKey: 'lic_vue_template_jkl345'
+    }
+  }
+]
@@ -0,0 +1,21 @@
+import type { ItemRecord } from '../database/schemas'
+import { InvertedIndex } from './inverted-index'
+
+export * from './inverted-index'
+export * from './text'
+
+/**
+ * Full-text index of marketplace items, a match in the name counts most
+ */
+export function createItemIndex(items: ItemRecord[] = []): InvertedIndex<ItemRecord> {
+  const index = new InvertedIndex<ItemRecord>({
+    name: { boost: 3, value: item => item.name },
+    tags: { boost: 2, value: item => item.tags },
+    keywords: { boost: 1.5, value: item => item.keywords },
+    description: { boost: 1, value: item => item.description }
+  })
+  for (const item of items) {
+    index.add(item)
+  }
+  return index
+}
@@ -0,0 +1,261 @@
+import { allowedTypos, editDistance, stem, tokenize } from './text'
+
+export interface SearchField<T> {
+  /** Weight of a match in this field relative to the other fields */
+  boost: number
+  value(document: T): string | string[] | undefined
+}
+
+export interface SearchOptions {
+  /** Let query words match the start of longer terms (`dash` finds `dashboard`) */
+  prefix?: boolean
+  /** Let query words with typos match (`dashbord` finds `dashboard`) */
+  fuzzy?: boolean
+}
+
+export interface SearchHit<T> {
+  document: T
+  score: number
+  /** The query words the document matched */
+  matched: string[]
+}
+
+// Prefix and fuzzy matches count less than the exact term
+const PREFIX_WEIGHT = 0.7
+const FUZZY_WEIGHT = 0.5
+
+/**
+ * An in-memory inverted index ranked with BM25F: the term frequencies of
+ * every field are weighted by the field boost and normalized by the field
+ * length before saturation. Documents are added, replaced and removed one
+ * at a time, so the index follows the store without rebuilding.
+ */
+export class InvertedIndex<T extends { id: string }> {
+  private documents = new Map<string, T>()
+  /** term -> document id -> field -> term frequency */
+  private postings = new Map<string, Map<string, Map<string, number>>>()
+  private fieldLengths = new Map<string, Record<string, number>>()
+  private totalFieldLengths: Record<string, number> = {}
+  /** term -> words that were stemmed to it, to suggest real words */
+  private words = new Map<string, Map<string, number>>()
+
+  constructor(
+    private fields: Record<string, SearchField<T>>,
+    private k1 = 1.2,
+    private b = 0.75
+  ) {
+    for (const field of Object.keys(fields)) {
+      this.totalFieldLengths[field] = 0
+    }
+  }
+
+  get size(): number {
+    return this.documents.size
+  }
+
+  get(id: string): T | undefined {
+    return this.documents.get(id)
+  }
+
+  /**
+   * Indexes `document`, replacing the previous version with the same id
+   */
+  add(document: T): void {
+    this.remove(document.id)
+    this.documents.set(document.id, document)
+
+    const lengths: Record<string, number> = {}
+    for (const [field, words] of this.analyze(document)) {
+      lengths[field] = words.length
+      this.totalFieldLengths[field] += words.length
+      for (const word of words) {
+        const term = stem(word)
+        const postings = this.postings.get(term) ?? new Map()
+        const frequencies = postings.get(document.id) ?? new Map()
+        frequencies.set(field, (frequencies.get(field) ?? 0) + 1)
+        postings.set(document.id, frequencies)
+        this.postings.set(term, postings)
+        this.countWord(term, word, 1)
+      }
+    }
+    this.fieldLengths.set(document.id, lengths)
+  }
+
+  remove(id: string): boolean {
+    const document = this.documents.get(id)
+    if (!document) {
+      return false
+    }
+    // The stored document tells which terms to take out
+    for (const [field, words] of this.analyze(document)) {
+      this.totalFieldLengths[field] -= words.length
+      for (const word of words) {
+        const term = stem(word)
+        const postings = this.postings.get(term)
+        postings?.delete(id)
+        if (postings?.size === 0) {
+          this.postings.delete(term)
+        }
+        this.countWord(term, word, -1)
+      }
+    }
+    this.documents.delete(id)
+    this.fieldLengths.delete(id)
+    return true
+  }
+
+  /**
+   * Documents matching any word of `query`, best first
+   */
+  search(query: string, options: SearchOptions = {}): SearchHit<T>[] {
+    const scores = new Map<string, { score: number, matched: string[] }>()
+
+    for (const word of new Set(tokenize(query))) {
+      // A document scores once per query word, with its best matching term
+      const best = new Map<string, number>()
+      for (const [term, weight] of this.expand(word, options)) {
+        for (const [id, score] of this.scoreTerm(term)) {
+          best.set(id, Math.max(best.get(id) ?? 0, score * weight))
+        }
+      }
+      for (const [id, score] of best) {
+        const entry = scores.get(id) ?? { score: 0, matched: [] }
+        entry.score += score
+        entry.matched.push(word)
+        scores.set(id, entry)
+      }
+    }
+
+    return [...scores]
+      .map(([id, { score, matched }]) => ({
+        document: this.documents.get(id)!,
+        score,
+        matched
+      }))
+      .sort((a, b) => b.score - a.score)
+  }
+
+  /**
+   * Spellings of `query` with unknown words replaced by the closest indexed
+   * words, or nothing when every word is known
+   */
+  suggest(query: string, limit = 3): string[] {
+    const words = tokenize(query)
+    const candidates = words.map(word =>
+      this.postings.has(stem(word)) ? [word] : this.closestWords(word)
+    )
+    if (candidates.every((options, i) => options[0] === words[i])) {
+      return []
+    }
+
+    const suggestions = new Set<string>()
+    for (let i = 0; i < limit; i++) {
+      const words = candidates.map(options => options[Math.min(i, options.length - 1)])
+      if (words.every(Boolean)) {
+        suggestions.add(words.join(' '))
+      }
+    }
+    return [...suggestions]
+  }
+
+  private analyze(document: T): Array<[field: string, words: string[]]> {
+    return Object.entries(this.fields).map(([field, { value }]) => {
+      const text = value(document)
+      return [field, tokenize(Array.isArray(text) ? text.join(' ') : text ?? '')]
+    })
+  }
+
+  private countWord(term: string, word: string, delta: number) {
+    const words = this.words.get(term) ?? new Map<string, number>()
+    const count = (words.get(word) ?? 0) + delta
+    if (count > 0) {
+      words.set(word, count)
+    } else {
+      words.delete(word)
+    }
+    if (words.size > 0) {
+      this.words.set(term, words)
+    } else {
+      this.words.delete(term)
+    }
+  }
+
+  /**
+   * The indexed terms a query word stands for, with the weight of each
+   */
+  private expand(word: string, options: SearchOptions): Map<string, number> {
+    const term = stem(word)
+    const terms = new Map<string, number>()
+    if (this.postings.has(term)) {
+      terms.set(term, 1)
+    }
+
+    if (options.prefix && word.length >= 2) {
+      for (const candidate of this.postings.keys()) {
+        if (!terms.has(candidate) && (candidate.startsWith(word) || candidate.startsWith(term))) {
+          terms.set(candidate, PREFIX_WEIGHT)
+        }
+      }
+    }
+
+    const typos = allowedTypos(word)
+    if (options.fuzzy && terms.size === 0 && typos > 0) {
+      for (const candidate of this.postings.keys()) {
+        const distance = editDistance(term, candidate, typos)
+        if (distance <= typos) {
+          terms.set(candidate, FUZZY_WEIGHT / distance)
+        }
+      }
+    }
+
+    return terms
+  }
+
+  private scoreTerm(term: string): Map<string, number> {
+    const postings = this.postings.get(term)
+    const scores = new Map<string, number>()
+    if (!postings) {
+      return scores
+    }
+
+    const count = this.documents.size
+    const idf = Math.log(1 + (count - postings.size + 0.5) / (postings.size + 0.5))
+    for (const [id, frequencies] of postings) {
+      const lengths = this.fieldLengths.get(id)!
+      let frequency = 0
+      for (const [field, tf] of frequencies) {
+        const average = this.totalFieldLengths[field] / count || 1
+        const norm = 1 - this.b + this.b * (lengths[field] / average)
+        frequency += (this.fields[field].boost * tf) / norm
+      }
+      scores.set(id, (idf * frequency * (this.k1 + 1)) / (frequency + this.k1))
+    }
+    return scores
+  }
+
+  /**
+   * Indexed words within the typos allowed for `word`, closest and most
+   * frequent first
+   */
+  private closestWords(word: string): string[] {
+    const typos = Math.max(allowedTypos(word), 1)
+    const term = stem(word)
+    const matches: Array<{ word: string, distance: number, count: number }> = []
+
+    for (const [candidate, spellings] of this.words) {
+      const distance = Math.min(
+        editDistance(term, candidate, typos),
+        editDistance(word, candidate, typos)
+      )
+      if (distance > typos) {
+        continue
+      }
+      const [spelling, count] = [...spellings].sort((a, b) => b[1] - a[1])[0]
+      matches.push({ word: spelling, distance, count: this.postings.get(candidate)?.size ?? count })
+    }
+
+    return matches
+      .sort((a, b) => a.distance - b.distance || b.count - a.count)
+      .map(match => match.word)
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Text processing shared by indexing and querying, so both sides agree on
+ * what a term is
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in',
+  'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with'
+])
+
+// Longest suffix first, the first one that leaves a long enough stem wins
+const SUFFIXES: Array<[suffix: string, replacement: string]> = [
+  ['ational', 'ate'],
+  ['ization', 'ize'],
+  ['fulness', 'ful'],
+  ['iveness', 'ive'],
+  ['ations', 'ate'],
+  ['ation', 'ate'],
+  ['ments', ''],
+  ['ment', ''],
+  ['ness', ''],
+  ['ings', ''],
+  ['ing', ''],
+  ['ies', 'y'],
+  ['ied', 'y'],
+  ['ers', ''],
+  ['er', ''],
+  ['ed', ''],
+  ['ly', ''],
+  ['es', ''],
+  ['s', '']
+]
+
+const MIN_STEM_LENGTH = 3
+
+/**
+ * Lower-cased words of `text`, split on anything that is not a letter or a
+ * digit (`github-actions` gives `github` and `actions`)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 0 && !STOP_WORDS.has(token))
+}
+
+/**
+ * A light suffix-stripping stemmer: `templates`, `templating` and
+ * `template` share a stem, `authentication` and `authenticate` too.
+ */
+export function stem(word: string): string {
+  if (word.length <= MIN_STEM_LENGTH || /\d/.test(word)) {
+    return word
+  }
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (!word.endsWith(suffix)) {
+      continue
+    }
+    const base = word.slice(0, -suffix.length) + replacement
+    if (base.length < MIN_STEM_LENGTH || (suffix === 's' && /[su]s$/.test(word))) {
+      continue
+    }
+    // Drop the `e` so `template` and `templating` meet on `templat`
+    return base.replace(/(?<=[^aeiou])e$/, '')
+  }
+  return word.replace(/(?<=[^aeiou])e$/, '')
+}
+
+/**
+ * The Levenshtein distance between `a` and `b`, or `max + 1` once it is
+ * known to be larger than `max`
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > max) {
+      return max + 1
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * How many typos a query word may contain: none for short words, where a
+ * single edit gives another word
+ */
+export function allowedTypos(word: string): number {
+  if (word.length < 4) return 0
+  if (word.length < 8) return 1
+  return 2
+}
@@ -0,0 +1,20 @@
+import { createDatabase, migrate, type Database } from '../database'
+
+let ready: Promise<Database> | undefined
+
+/**
+ * Marketplace repositories backed by the `marketplace` storage mount
+ * (configured in `nitro.storage`). The store is migrated on first use.
+ */
+export const useDatabase = (): Promise<Database> => {
+  if (!ready) {
+    const storage = useStorage('marketplace')
+    const db = createDatabase(storage)
+    ready = migrate(db, storage).then(() => db)
+    // Let the next request try again
+    ready.catch(() => {
+      ready = undefined
+    })
+  }
+  return ready
+}
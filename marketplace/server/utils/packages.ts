@@ -0,0 +1,25 @@
+import type { Database, ItemRecord } from '../database'
+
+/**
+ * Seller who published `items` first. A package name belongs to that
+ * seller, later items of others with the same name are not versions of it.
+ */
+export function packageOwner(items: ItemRecord[]): string | undefined {
+  const [first] = [...items].sort(
+    (a, b) =>
+      a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id)
+  )
+  return first?.sellerId
+}
+
+/**
+ * Items published under `name` by its owner, inactive ones included
+ */
+export async function listPackageVersions(
+  db: Database,
+  name: string
+): Promise<ItemRecord[]> {
+  const items = await db.items.list((item) => item.name === name)
+  const owner = packageOwner(items)
+  return items.filter((item) => item.sellerId === owner)
+}
@@ -0,0 +1,35 @@
+import { createItemIndex, type InvertedIndex } from '../search'
+import type { ItemRecord } from '../database'
+import { useDatabase } from './db'
+
+let ready: Promise<InvertedIndex<ItemRecord>> | undefined
+
+/**
+ * The search index of the stored items. It is built on first use, then
+ * kept up to date with every item written through `useDatabase`.
+ */
+export const useSearchIndex = (): Promise<InvertedIndex<ItemRecord>> => {
+  if (!ready) {
+    ready = useDatabase().then(async db => {
+      const index = createItemIndex()
+      // Watch first, so no write is missed while the items load
+      db.items.watch(({ id, record }) => {
+        if (record) {
+          index.add(record)
+        } else {
+          index.remove(id)
+        }
+      })
+      for (const item of await db.items.list()) {
+        if (!index.get(item.id)) {
+          index.add(item)
+        }
+      }
+      return index
+    })
+    ready.catch(() => {
+      ready = undefined
+    })
+  }
+  return ready
+}
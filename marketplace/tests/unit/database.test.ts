@@ -0,0 +1,96 @@
+// Unit Tests for the marketplace storage layer
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createStorage, type Storage } from 'unstorage';
+import {
+  createDatabase,
+  migrate,
+  migrations,
+  type Database
+} from '../../server/database';
+import { seedItems } from '../../server/database/seed';
+import { computeIntegrity } from '../../server/utils/integrity';
+
+const newItem = {
+  ...seedItems[0],
+  id: 'item-new',
+  name: 'Svelte Starter',
+  tags: ['svelte'],
+  createdAt: new Date('2024-04-01'),
+  updatedAt: new Date('2024-04-01')
+};
+
+describe('Marketplace database', () => {
+  let storage: Storage;
+  let db: Database;
+
+  beforeEach(async () => {
+    storage = createStorage();
+    db = createDatabase(storage);
+    await migrate(db, storage);
+  });
+
+  it('should seed a new store once', async () => {
+    expect(await db.items.list()).toHaveLength(seedItems.length);
+    expect(await storage.getItem('meta:version')).toBe(migrations.at(-1)!.version);
+
+    await db.items.delete('1');
+    await migrate(db, storage);
+    expect(await db.items.get('1')).toBeNull();
+  });
+
+  it('should read records back with their dates', async () => {
+    await db.items.create(newItem);
+
+    const item = await db.items.get('item-new');
+    expect(item?.createdAt).toBeInstanceOf(Date);
+    expect(item?.createdAt.getTime()).toBe(newItem.createdAt.getTime());
+    expect(await db.items.list(i => i.tags.includes('svelte'))).toHaveLength(1);
+  });
+
+  it('should validate records against the schema', async () => {
+    await expect(db.items.create({ ...newItem, price: -1 })).rejects.toThrow();
+    await expect(db.items.update('1', { version: 'latest' })).rejects.toThrow();
+    expect((await db.items.get('1'))?.version).toBe(seedItems[0].version);
+  });
+
+  it('should update and delete records', async () => {
+    const updated = await db.items.update('1', { price: 10, id: 'other' } as any);
+    expect(updated).toMatchObject({ id: '1', price: 10 });
+    expect(await db.items.update('missing', { price: 10 })).toBeNull();
+
+    expect(await db.items.delete('1')).toBe(true);
+    expect(await db.items.delete('1')).toBe(false);
+    expect(await db.items.list()).toHaveLength(seedItems.length - 1);
+  });
+
+  it('should tell watchers about writes', async () => {
+    const changes: Array<[string, boolean]> = [];
+    const unwatch = db.items.watch(({ id, record }) => changes.push([id, record !== null]));
+
+    await db.items.create(newItem);
+    await db.items.delete('1');
+    unwatch();
+    await db.items.delete('2');
+
+    expect(changes).toEqual([['item-new', true], ['1', false]]);
+  });
+
+  it('should only run migrations newer than the store', async () => {
+    const current = migrations.at(-1)!.version;
+    const applied: number[] = [];
+    const version = await migrate(db, storage, [
+      { version: current, name: 'old', up: async () => { applied.push(current); } },
+      { version: current + 2, name: 'later', up: async () => { applied.push(current + 2); } },
+      { version: current + 1, name: 'new', up: async () => { applied.push(current + 1); } }
+    ]);
+
+    expect(applied).toEqual([current + 1, current + 2]);
+    expect(version).toBe(current + 2);
+  });
+
+  it('should store the digest of every item', async () => {
+    const items = await db.items.list();
+    expect(items.every(item => item.digest?.startsWith('sha256-'))).toBe(true);
+    expect((await db.items.get('1'))?.digest).toBe(computeIntegrity(seedItems[0].files!));
+  });
+});
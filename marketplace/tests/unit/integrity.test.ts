@@ -0,0 +1,42 @@
+// Unit Tests for item digests and signatures
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync, sign } from 'node:crypto';
+import {
+  computeIntegrity,
+  createTarball,
+  keyFingerprint,
+  verifySignature
+} from '../../server/utils/integrity';
+
+const files = [
+  { path: 'src/index.ts', content: 'export {}', type: 'file' as const },
+  { path: 'src/', content: '', type: 'directory' as const },
+  { path: 'README.md', content: '# Starter', type: 'file' as const }
+];
+
+describe('Item integrity', () => {
+  it('should build the same tarball whatever the order of the files', () => {
+    const tarball = createTarball(files);
+
+    expect(tarball.equals(createTarball([...files].reverse()))).toBe(true);
+    expect(tarball.length % 512).toBe(0);
+    expect(tarball.subarray(0, 17).toString()).toBe('package/README.md');
+    expect(computeIntegrity(files)).toMatch(/^sha256-[A-Za-z0-9+/]{43}=$/);
+    expect(computeIntegrity(files)).not.toBe(
+      computeIntegrity([...files.slice(1), { ...files[0], content: 'export { x }' }])
+    );
+  });
+
+  it('should verify Ed25519 signatures of the digest', () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const pem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    const digest = computeIntegrity(files);
+    const signature = sign(null, Buffer.from(digest), privateKey).toString('base64');
+
+    expect(verifySignature(digest, signature, pem)).toBe(true);
+    expect(verifySignature(computeIntegrity([]), signature, pem)).toBe(false);
+    expect(verifySignature(digest, 'not a signature', pem)).toBe(false);
+    expect(verifySignature(digest, signature, 'not a key')).toBe(false);
+    expect(keyFingerprint(pem)).toMatch(/^SHA256:[\w-]{43}$/);
+  });
+});
@@ -0,0 +1,46 @@
+// Unit Tests for package names and their versions
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createStorage } from 'unstorage';
+import { createDatabase, type Database } from '../../server/database';
+import { seedItems } from '../../server/database/seed';
+import { listPackageVersions, packageOwner } from '../../server/utils/packages';
+
+const publish = (
+  id: string,
+  sellerId: string,
+  version: string,
+  createdAt: string
+) => ({
+  ...seedItems[0],
+  id,
+  name: 'svelte-starter',
+  sellerId,
+  version,
+  createdAt: new Date(createdAt),
+  updatedAt: new Date(createdAt)
+});
+
+describe('Package names', () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = createDatabase(createStorage());
+    await db.items.create(publish('item-2', 'user-1', '1.1.0', '2024-05-01'));
+    await db.items.create(publish('item-1', 'user-1', '1.0.0', '2024-04-01'));
+    await db.items.create(publish('item-3', 'user-2', '2.0.0', '2024-06-01'));
+  });
+
+  it('should belong to the seller who published them first', async () => {
+    const items = await db.items.list();
+
+    expect(packageOwner(items)).toBe('user-1');
+    expect(packageOwner([])).toBeUndefined();
+  });
+
+  it('should only list the versions of the owner', async () => {
+    const versions = await listPackageVersions(db, 'svelte-starter');
+
+    expect(versions.map(item => item.version).sort()).toEqual(['1.0.0', '1.1.0']);
+    expect(await listPackageVersions(db, 'missing')).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+// Unit Tests for the marketplace full-text search index
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createItemIndex, stem, tokenize, type InvertedIndex } from '../../server/search';
+import { seedItems } from '../../server/database/seed';
+import type { ItemRecord } from '../../server/database';
+
+const ids = (index: InvertedIndex<ItemRecord>, query: string, prefix = false, fuzzy = false) =>
+  index.search(query, { prefix, fuzzy }).map(hit => hit.document.id);
+
+describe('Search index', () => {
+  let index: InvertedIndex<ItemRecord>;
+
+  beforeEach(() => {
+    index = createItemIndex(seedItems);
+  });
+
+  it('should tokenize and stem words', () => {
+    expect(tokenize('The GitHub-Actions workflow')).toEqual(['github', 'actions', 'workflow']);
+    expect(stem('templates')).toBe(stem('template'));
+    expect(stem('templating')).toBe(stem('template'));
+    expect(stem('authentication')).toBe(stem('authenticate'));
+  });
+
+  it('should rank matches in tags above matches in the description', () => {
+    // Item 5 is tagged "testing", item 1 mentions it in its description
+    expect(ids(index, 'testing')).toEqual(['5', '1']);
+  });
+
+  it('should match stems, prefixes and typos', () => {
+    expect(ids(index, 'migrations')).toEqual(['4']);
+    expect(ids(index, 'migr')).toEqual([]);
+    expect(ids(index, 'migr', true)).toEqual(['4']);
+    expect(ids(index, 'dashbord')).toEqual([]);
+    expect(ids(index, 'dashbord', false, true)[0]).toBe('3');
+  });
+
+  it('should suggest spellings for unknown words', () => {
+    expect(index.suggest('react dashbord')).toEqual(['react dashboard']);
+    expect(index.suggest('react dashboard')).toEqual([]);
+  });
+
+  it('should follow added, updated and removed items', () => {
+    const item = { ...seedItems[0], id: 'item-new', name: 'Svelte Starter' };
+
+    index.add(item);
+    expect(ids(index, 'svelte')).toEqual(['item-new']);
+
+    index.add({ ...item, name: 'Solid Starter' });
+    expect(ids(index, 'svelte')).toEqual([]);
+    expect(ids(index, 'solid')).toEqual(['item-new']);
+
+    expect(index.remove('item-new')).toBe(true);
+    expect(ids(index, 'starter')).toEqual([]);
+    expect(index.size).toBe(seedItems.length);
+  });
+});
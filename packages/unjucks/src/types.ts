@@ -17,6 +17,15 @@ export interface TemplateMetadata {
   description?: string
   to?: string
   inject?: boolean
+  /** Injection anchors: insert before/after the first line matching the pattern */
+  before?: string
+  after?: string
+  append?: boolean
+  prepend?: boolean
+  /** Zero based line index to inject at */
+  atLine?: number
+  /** Skip the injection when the target already matches the pattern */
+  skipIf?: string
   skip?: boolean
   unless?: string
   frontmatter?: Record<string, any>
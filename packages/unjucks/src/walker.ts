@@ -383,9 +383,21 @@ function parseFrontmatter(frontmatter: string): TemplateMetadata {
           metadata[key] = value
           break
         case 'inject':
+        case 'append':
+        case 'prepend':
         case 'skip':
           metadata[key] = value === 'true'
           break
+        case 'before':
+        case 'after':
+          metadata[key] = String(parseValue(value))
+          break
+        case 'at_line':
+          metadata.atLine = Number(value)
+          break
+        case 'skip_if':
+          metadata.skipIf = String(parseValue(value))
+          break
         case 'unless':
           metadata.unless = value
           break
@@ -890,6 +890,9 @@ export class AlgebraCompiler {
 
   private compileGraphPattern(pattern: GraphPattern): AlgebraOperator {
     switch (pattern.type) {
+      case 'bgp':
+        return new BasicGraphPatternOperator(pattern.triples || [])
+
       case 'group':
         return this.compileGraphPatterns(pattern.patterns || [])
       
@@ -941,6 +944,7 @@ export class AlgebraCompiler {
         if (v.variable) return v.variable.name
         return null
       })
-      .filter(Boolean)
+      // SELECT * keeps every binding
+      .filter(name => name && name !== '*')
   }
 }
\ No newline at end of file
@@ -61,7 +61,8 @@ export interface Expression extends SPARQLNode {
 }
 
 export interface GraphPattern extends SPARQLNode {
-  type: 'group' | 'union' | 'optional' | 'minus' | 'service' | 'bind' | 'values'
+  type: 'bgp' | 'group' | 'union' | 'optional' | 'minus' | 'service' | 'bind' | 'values'
+  triples?: TriplePattern[]
   patterns?: GraphPattern[]
   left?: GraphPattern
   right?: GraphPattern
@@ -983,7 +984,12 @@ export class SPARQLParser {
 
   private parseVarOrPath(): Variable | IRI | PropertyPath | null {
     // For now, we'll handle simple cases and extend for property paths
-    return this.parseVarOrTerm() as Variable | IRI | PropertyPath
+    const term = this.parseVarOrTerm() as Variable | IRI | PropertyPath
+    // `a` in predicate position is rdf:type
+    if (term?.type === 'iri' && (term as IRI).value === 'a') {
+      return { ...term, value: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type' } as IRI
+    }
+    return term
   }
 
   private parseVar(): Variable {
@@ -10,6 +10,7 @@ export interface Options {
   string?: Arrayable<string>;
   alias?: Dict<Arrayable<string>>;
   default?: Dict<any>;
+  multiple?: Arrayable<string>;
   unknown?(flag: string): void;
 }
 
@@ -103,6 +104,15 @@ export function parseRawArgs<T = Default>(
 
   const keys = strict ? Object.keys(opts.alias) : [];
 
+  // Values of repeatable flags are collected under one name, in the order
+  // they are given, whichever alias they are given through
+  const multiple: Dict<string> = {};
+  for (k of toArr(opts.multiple)) {
+    for (name of [k].concat(opts.alias[k] || [])) {
+      multiple[name] = k;
+    }
+  }
+
   for (i = 0; i < len; i++) {
     arg = args[i];
 
@@ -145,7 +155,7 @@ export function parseRawArgs<T = Default>(
         if (strict && !~keys.indexOf(name)) {
           return opts.unknown("-".repeat(j) + name);
         }
-        toVal(out, name, idx + 1 < arr.length || val, opts);
+        toVal(out, multiple[name] ?? name, idx + 1 < arr.length || val, opts);
       }
     }
   }
@@ -1,4 +1,5 @@
 import type { Resolvable } from "./types";
+import { CommandSuggester } from "./utils/command-suggester";
 
 export function toArray(val: any) {
   if (Array.isArray(val)) {
@@ -26,14 +27,53 @@ export function formatLineColumns(lines: string[][], linePrefix = "") {
     .join("\n");
 }
 
+export function didYouMean(
+  input: string,
+  candidates: string[],
+  format: (candidate: string) => string = (candidate) => candidate,
+): string {
+  const [suggestion] = new CommandSuggester().suggestCommands(
+    input,
+    candidates,
+  );
+  return suggestion ? ` Did you mean \`${format(suggestion)}\`?` : "";
+}
+
 export function resolveValue<T>(input: Resolvable<T>): T | Promise<T> {
   return typeof input === "function" ? (input as any)() : input;
 }
 
+/**
+ * Settles like `promise`, or rejects with the abort reason as soon as
+ * `signal` aborts. The work behind `promise` goes on unless it listens to
+ * the signal too.
+ */
+export function abortable<T>(
+  promise: T | Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (!signal) {
+    return Promise.resolve(promise);
+  }
+  if (signal.aborted) {
+    // Nobody waits for `promise` anymore, its rejection is not unhandled
+    Promise.resolve(promise).catch(() => {});
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    Promise.resolve(promise)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
 export class CLIError extends Error {
   constructor(
     message: string,
     public code?: string,
+    public details?: Record<string, any>,
   ) {
     super(message);
     this.name = "CLIError";
@@ -1,11 +1,25 @@
 import { kebabCase, camelCase } from "scule";
 import { parseRawArgs } from "./_parser";
-import type { Arg, ArgsDef, ParsedArgs } from "./types";
-import { CLIError, toArray } from "./_utils";
+import type { Arg, ArgGroup, ArgsDef, ParsedArgs } from "./types";
+import { CLIError, didYouMean, toArray } from "./_utils";
+
+export interface ParseArgsOptions {
+  /** Reject flags that are not declared in `argsDef` */
+  strict?: boolean;
+  /** Source of `env` fallbacks (defaults to `process.env`) */
+  env?: Record<string, string | undefined>;
+  /** Values loaded from a config file, keyed by argument name */
+  config?: Record<string, any>;
+  /** Argument groups to check after parsing */
+  groups?: ArgGroup[];
+  /** Values collected by prompts, used when the argument is not given */
+  values?: Record<string, any>;
+}
 
 export function parseArgs<T extends ArgsDef = ArgsDef>(
   rawArgs: string[],
   argsDef: ArgsDef,
+  opts: ParseArgsOptions = {},
 ): ParsedArgs<T> {
   const parseOptions = {
     boolean: [] as string[],
@@ -13,11 +27,21 @@ export function parseArgs<T extends ArgsDef = ArgsDef>(
     number: [] as string[],
     enum: [] as (number | string)[],
     mixed: [] as string[],
+    multiple: [] as string[],
     alias: {} as Record<string, string | string[]>,
-    default: {} as Record<string, boolean | number | string>,
+    unknown: undefined as ((flag: string) => void) | undefined,
   };
 
-  const args = resolveArgs(argsDef);
+  // Arguments given by the user or by a fallback. Fallbacks are applied as
+  // defaults so values given on the CLI win
+  const given = new Set<string>();
+  const args = resolveArgs(argsDef).map((arg) => {
+    const fallback = resolveArgFallback(arg, opts);
+    if (fallback !== undefined) {
+      given.add(arg.name);
+    }
+    return { ...arg, default: fallback ?? arg.default };
+  });
 
   for (const arg of args) {
     if (arg.type === "positional") {
@@ -30,18 +54,70 @@ export function parseArgs<T extends ArgsDef = ArgsDef>(
       parseOptions.boolean.push(arg.name);
     } else if (arg.type === "enum") {
       parseOptions.enum.push(...(arg.options || []));
+      if (arg.multiple) {
+        // Keep raw strings so comma-separated lists can be split
+        parseOptions.string.push(arg.name);
+      }
     }
 
-    if (arg.default !== undefined) {
-      parseOptions.default[arg.name] = arg.default;
+    if (arg.multiple) {
+      parseOptions.multiple.push(arg.name);
+    }
+    if (typeof arg.default === "string" || typeof arg.default === "boolean") {
+      // Typed by their default, as the parser does with its own defaults
+      parseOptions[typeof arg.default].push(arg.name);
     }
     if (arg.alias) {
       parseOptions.alias[arg.name] = arg.alias;
     }
   }
 
+  if (opts.strict) {
+    // The parser only accepts flags that are keys of the alias map
+    for (const arg of args) {
+      if (arg.type === "positional") {
+        continue;
+      }
+      const variants = [camelCase(arg.name), kebabCase(arg.name)].filter(
+        (variant) => variant !== arg.name && !arg.alias.includes(variant),
+      );
+      parseOptions.alias[arg.name] = [...arg.alias, ...new Set(variants)];
+    }
+    parseOptions.unknown = (flag) => {
+      const name = flag.replace(/^-+/, "");
+      const flagArgs = args.filter((arg) => arg.type !== "positional");
+      const names = new Set(flagArgs.map((arg) => arg.name));
+      const flags = flagArgs.flatMap((arg) => [arg.name, ...arg.alias]);
+      // Names are suggested kebab-cased, aliases as declared
+      const format = (suggestion: string) =>
+        toFlag(names.has(suggestion) ? kebabCase(suggestion) : suggestion);
+      throw new CLIError(
+        `Unknown argument: \`${flag}\`.` + didYouMean(name, flags, format),
+        "E_UNKNOWN_ARG",
+      );
+    };
+  }
+
   const parsed = parseRawArgs(rawArgs, parseOptions);
   const [...positionalArguments] = parsed._;
+  // Defaults are applied after parsing, so that a value equal to its
+  // default is still known to be given
+  for (const arg of args) {
+    if (arg.type === "positional") {
+      continue;
+    }
+    const value =
+      parsed[arg.name] ??
+      parsed[camelCase(arg.name)] ??
+      parsed[kebabCase(arg.name)];
+    if (value !== undefined) {
+      given.add(arg.name);
+    } else if (arg.default !== undefined) {
+      for (const name of [arg.name, ...arg.alias]) {
+        parsed[name] = arg.default;
+      }
+    }
+  }
 
   const parsedArgsProxy = new Proxy(parsed, {
     get(target: ParsedArgs<any>, prop: string) {
@@ -50,15 +126,28 @@ export function parseArgs<T extends ArgsDef = ArgsDef>(
   });
 
   for (const [, arg] of args.entries()) {
+    if (arg.multiple) {
+      const input =
+        arg.type === "positional"
+          ? positionalArguments.splice(0)
+          : parsedArgsProxy[arg.name];
+      if (arg.type === "positional" && input.length > 0) {
+        given.add(arg.name);
+      }
+      parsedArgsProxy[arg.name] = resolveMultipleArg(arg, input);
+      continue;
+    }
     // eslint-disable-next-line unicorn/prefer-switch
     if (arg.type === "positional") {
       const nextPositionalArgument = positionalArguments.shift();
       if (nextPositionalArgument !== undefined) {
+        given.add(arg.name);
         parsedArgsProxy[arg.name] = nextPositionalArgument;
       } else if (arg.default === undefined && arg.required !== false) {
         throw new CLIError(
           `Missing required positional argument: ${arg.name.toUpperCase()}`,
           "EARG",
+          { arg: arg.name, missing: true },
         );
       } else {
         parsedArgsProxy[arg.name] = arg.default;
@@ -66,6 +155,12 @@ export function parseArgs<T extends ArgsDef = ArgsDef>(
     } else if (arg.type === "enum") {
       const argument = parsedArgsProxy[arg.name];
       const options = arg.options || [];
+      if (argument === undefined && arg.required) {
+        throw new CLIError(`Missing required argument: --${arg.name}`, "EARG", {
+          arg: arg.name,
+          missing: true,
+        });
+      }
       if (
         argument !== undefined &&
         options.length > 0 &&
@@ -74,6 +169,7 @@ export function parseArgs<T extends ArgsDef = ArgsDef>(
         throw new CLIError(
           `Invalid value for argument: \`--${arg.name}\` (\`${argument}\`). Expected one of: ${options.map((o) => `\`${o}\``).join(", ")}.`,
           "EARG",
+          { arg: arg.name },
         );
       }
     } else if (arg.type === "number") {
@@ -82,6 +178,7 @@ export function parseArgs<T extends ArgsDef = ArgsDef>(
           throw new CLIError(
             `Missing required argument: --${arg.name}`,
             "EARG",
+            { arg: arg.name, missing: true },
           );
         }
         continue;
@@ -95,16 +192,271 @@ export function parseArgs<T extends ArgsDef = ArgsDef>(
         throw new CLIError(
           `Invalid value for argument: \`--${arg.name}\` (\`${_originalValue}\`). Expected a number.`,
           "EARG",
+          { arg: arg.name },
         );
       }
     } else if (arg.required && parsedArgsProxy[arg.name] === undefined) {
-      throw new CLIError(`Missing required argument: --${arg.name}`, "EARG");
+      throw new CLIError(`Missing required argument: --${arg.name}`, "EARG", {
+        arg: arg.name,
+        missing: true,
+      });
+    }
+  }
+
+  checkArgRelations(argsDef, parsedArgsProxy, given, opts.groups);
+
+  for (const arg of args) {
+    if ((arg.parse || arg.schema) && parsedArgsProxy[arg.name] !== undefined) {
+      parsedArgsProxy[arg.name] = validateArg(arg, parsedArgsProxy[arg.name]);
     }
   }
 
   return parsedArgsProxy as ParsedArgs<T>;
 }
 
+function checkArgRelations(
+  argsDef: ArgsDef,
+  parsed: ParsedArgs<any>,
+  givenNames: Set<string>,
+  groups: ArgGroup[] = [],
+) {
+  const toFlagStr = (name: string) =>
+    argsDef[name]?.type === "positional"
+      ? `\`${name.toUpperCase()}\``
+      : `\`--${name}\``;
+
+  // Declared defaults do not count, even a value equal to one given
+  // explicitly does
+  const isGiven = (name: string) => {
+    const value = parsed[name];
+    return (
+      givenNames.has(name) &&
+      value !== undefined &&
+      !(Array.isArray(value) && value.length === 0)
+    );
+  };
+
+  const conflict = (a: string, b: string) =>
+    new CLIError(
+      `Arguments ${toFlagStr(a)} and ${toFlagStr(b)} cannot be used together.`,
+      "EARG",
+    );
+  const requires = (a: string, b: string) =>
+    new CLIError(`Argument ${toFlagStr(a)} requires ${toFlagStr(b)}.`, "EARG");
+
+  for (const [name, argDef] of Object.entries(argsDef)) {
+    if (!argDef) {
+      continue;
+    }
+    if (isGiven(name)) {
+      for (const other of toArray(argDef.conflicts)) {
+        if (isGiven(other)) {
+          throw conflict(name, other);
+        }
+      }
+      for (const other of toArray(argDef.requires)) {
+        if (!isGiven(other)) {
+          throw requires(name, other);
+        }
+      }
+    } else if (argDef.requiredIf) {
+      const condition = argDef.requiredIf;
+      if (typeof condition === "string") {
+        if (isGiven(condition)) {
+          throw new CLIError(
+            `Missing required argument: --${name} (required when ${toFlagStr(condition)} is given).`,
+            "EARG",
+            { arg: name, missing: true },
+          );
+        }
+      } else {
+        const entries = Object.entries(condition);
+        if (
+          entries.length > 0 &&
+          entries.every(([other, value]) => parsed[other] === value)
+        ) {
+          const reason = entries
+            .map(([other, value]) => `${toFlagStr(other)} is \`${value}\``)
+            .join(" and ");
+          throw new CLIError(
+            `Missing required argument: --${name} (required when ${reason}).`,
+            "EARG",
+            { arg: name, missing: true },
+          );
+        }
+      }
+    }
+  }
+
+  for (const group of groups) {
+    const given = group.args.filter((name) => isGiven(name));
+    if (group.exclusive && given.length > 1) {
+      throw conflict(given[0], given[1]);
+    }
+    if (group.together && given.length > 0) {
+      const missing = group.args.find((name) => !given.includes(name));
+      if (missing) {
+        throw requires(given[0], missing);
+      }
+    }
+    if (group.required && given.length === 0) {
+      throw new CLIError(
+        `One of ${group.args.map((name) => toFlagStr(name)).join(", ")} is required.`,
+        "EARG",
+      );
+    }
+  }
+}
+
+function validateArg(arg: Arg, value: any) {
+  const argStr =
+    arg.type === "positional" ? arg.name.toUpperCase() : `--${arg.name}`;
+  const invalid = (input: unknown, reason: string) =>
+    new CLIError(
+      `Invalid value for argument: \`${argStr}\` (\`${input}\`). ${reason}`,
+      "EARG",
+      { arg: arg.name },
+    );
+
+  const originalValue = value;
+
+  if (arg.parse) {
+    const parseValue = (input: unknown) => {
+      try {
+        return arg.parse!(input);
+      } catch (error: any) {
+        throw invalid(input, error?.message || String(error));
+      }
+    };
+    value =
+      Array.isArray(value) && arg.multiple
+        ? value.map((v) => parseValue(v))
+        : parseValue(value);
+  }
+
+  if (arg.schema) {
+    const result = arg.schema.safeParse(value);
+    if (!result.success) {
+      const { error } = result as Extract<typeof result, { success: false }>;
+      const issues = error.issues.map((issue) =>
+        issue.path.length > 0
+          ? `${issue.path.map(String).join(".")}: ${issue.message}`
+          : issue.message,
+      );
+      throw invalid(originalValue, issues.join("; "));
+    }
+    value = result.data;
+  }
+
+  return value;
+}
+
+// Value given by a prompt, an env variable or the config file
+function resolveArgFallback(arg: Arg, opts: ParseArgsOptions): Arg["default"] {
+  if (opts.values?.[arg.name] !== undefined) {
+    return opts.values[arg.name];
+  }
+  const envValue = arg.env ? (opts.env || process.env)[arg.env] : undefined;
+  if (envValue !== undefined && envValue !== "") {
+    if (arg.type === "boolean") {
+      return !/^(false|0|no|off)$/i.test(envValue);
+    }
+    if (arg.type === "enum" && !arg.multiple) {
+      return arg.options?.find((o) => String(o) === envValue) ?? envValue;
+    }
+    return envValue;
+  }
+  const configValue =
+    opts.config?.[arg.name] ?? opts.config?.[camelCase(arg.name)];
+  if (configValue !== undefined) {
+    return configValue;
+  }
+  return undefined;
+}
+
+function resolveMultipleArg(arg: Arg, input: unknown): (string | number)[] {
+  const isPositional = arg.type === "positional";
+  // `--tag a,b` is a list, a positional value is taken as is
+  const values = toArray(input)
+    .flatMap((value) =>
+      typeof value === "string" && !isPositional ? value.split(",") : value,
+    )
+    .filter((value) => value !== "");
+
+  if (values.length === 0) {
+    if (isPositional && arg.default === undefined && arg.required !== false) {
+      throw new CLIError(
+        `Missing required positional argument: ${arg.name.toUpperCase()}...`,
+        "EARG",
+        { arg: arg.name, missing: true },
+      );
+    }
+    if (!isPositional && arg.required) {
+      throw new CLIError(`Missing required argument: --${arg.name}`, "EARG", {
+        arg: arg.name,
+        missing: true,
+      });
+    }
+    return isPositional ? toArray(arg.default) : [];
+  }
+
+  const argStr = isPositional ? arg.name.toUpperCase() : `--${arg.name}`;
+  if (arg.type === "number") {
+    return values.map((value) => {
+      const num = Number.parseFloat(value);
+      if (Number.isNaN(num)) {
+        throw new CLIError(
+          `Invalid value for argument: \`${argStr}\` (\`${value}\`). Expected a number.`,
+          "EARG",
+          { arg: arg.name },
+        );
+      }
+      return num;
+    });
+  }
+  if (arg.type === "enum" && arg.options && arg.options.length > 0) {
+    return values.map((value) => {
+      const option = arg.options.find((o) => String(o) === String(value));
+      if (option === undefined) {
+        throw new CLIError(
+          `Invalid value for argument: \`${argStr}\` (\`${value}\`). Expected one of: ${arg.options.map((o) => `\`${o}\``).join(", ")}.`,
+          "EARG",
+          { arg: arg.name },
+        );
+      }
+      return option;
+    });
+  }
+  return values;
+}
+
+function toFlag(name: string) {
+  return name.length === 1 ? `-${name}` : `--${name}`;
+}
+
+/**
+ * Arguments `arg` conflicts with and requires, declared on the argument
+ * itself or through the argument groups it belongs to
+ */
+export function resolveArgRelations(arg: Arg, argGroups: ArgGroup[] = []) {
+  const conflicts = new Set<string>(toArray(arg.conflicts));
+  const requires = new Set<string>(toArray(arg.requires));
+  for (const group of argGroups) {
+    if (!group.args.includes(arg.name)) {
+      continue;
+    }
+    for (const other of group.args.filter((name) => name !== arg.name)) {
+      if (group.exclusive) {
+        conflicts.add(other);
+      }
+      if (group.together) {
+        requires.add(other);
+      }
+    }
+  }
+  return { conflicts: [...conflicts], requires: [...requires] };
+}
+
 export function resolveArgs(argsDef: ArgsDef): Arg[] {
   const args: Arg[] = [];
   for (const [name, argDef] of Object.entries(argsDef || {})) {
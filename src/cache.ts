@@ -243,7 +243,7 @@ export class CacheManager {
 
 // Default cache instances
 export const defaultCache = new MemoryCache()
-export const templateCache = new MemoryCache<string>({ defaultTtl: 10 * 60 * 1000 }) // 10 min
+export const templateCache = new MemoryCache({ defaultTtl: 10 * 60 * 1000 }) // 10 min
 export const ontologyCache = new MemoryCache({ defaultTtl: 30 * 60 * 1000 }) // 30 min
 export const cacheManager = new CacheManager()
 
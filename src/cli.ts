@@ -1,13 +1,20 @@
 #!/usr/bin/env node
 
-import { defineCommand, runMain } from 'citty';
+import { defineCommand } from './command.js';
+import { runMain } from './main.js';
+import { describeError } from './errors.js';
 import { consola } from 'consola';
 import colors from 'picocolors';
 import { readFileSync, writeFileSync, existsSync } from 'node:fs';
-import { resolve, dirname, basename } from 'pathe';
-import { createTemplateContext, updateTemplateContext } from './context.js';
+import { resolve, dirname, basename, relative } from 'pathe';
+import { createTemplateContext, getTemplateContext, updateTemplateContext } from './context.js';
 import { resolveTemplate, walkTemplates, listGenerators, listActions } from './walker.js';
-import { renderTemplate } from './renderer.js';
+import { TemplateRenderer, defaultRenderer } from './renderer.js';
+import { canPrompt, promptArg } from './prompt.js';
+import { resolveGeneratorPack, collectInputs, inferGeneratorInputs, renderGeneratorPack, writeGeneratedFiles } from './generator.js';
+import { findTemplateFileVariables } from './variables.js';
+import type { GeneratorPack } from './generator.js';
+import { diff } from 'jest-diff';
 import { loadOntologyContext, createSampleOntology } from './ontology.js';
 import type { CliOptions, TemplateContext } from './types.js';
 import { UnjucksError, TemplateNotFoundError, OntologyError, ContextError } from './types.js';
@@ -23,13 +30,20 @@ import {
 /**
  * Enhanced main CLI command with production-quality help and error handling
  */
-const main = defineCommand({
+export const main = defineCommand({
   meta: {
     name: 'unjucks',
     version: '0.1.0',
     description: '🚀 Universal template system with ontology-driven context management\n\n' +
                 'Build powerful templates with intelligent context management and semantic understanding.\n' +
-                'Integrates seamlessly with UnJS ecosystem tools like Nuxt, Nitro, and more.'
+                'Integrates seamlessly with UnJS ecosystem tools like Nuxt, Nitro, and more.',
+    examples: [
+      { command: 'init', description: 'Initialize with sample templates' },
+      { command: '--list', description: 'List all available generators' },
+      { command: 'component create --interactive', description: 'Create component interactively' },
+      { command: '--examples', description: 'Show detailed usage examples' },
+      { command: '--tips', description: 'Show helpful tips and tricks' }
+    ]
   },
   args: {
     generator: {
@@ -40,7 +54,8 @@ const main = defineCommand({
                   '  • api - REST/GraphQL endpoints\n' +
                   '  • page - Full page templates',
       valueHint: 'generator-name',
-      required: false
+      required: false,
+      complete: ({ args }) => listGenerators([args.templateDir || 'templates'])
     },
     action: {
       type: 'positional',
@@ -50,7 +65,10 @@ const main = defineCommand({
                   '  • update - Modify existing files\n' +
                   '  • scaffold - Create project structure',
       valueHint: 'action-name',
-      required: false
+      required: false,
+      complete: ({ args }) => args.generator
+        ? listActions(args.generator, [args.templateDir || 'templates'])
+        : []
     },
     output: {
       type: 'string',
@@ -110,7 +128,7 @@ const main = defineCommand({
       default: false
     },
     completion: {
-      type: 'string',
+      type: 'enum',
       description: '🔧 Generate shell completion scripts\n' +
                   'Supports: bash, zsh, fish, powershell\n' +
                   'Usage: eval "$(unjucks --completion=bash)"',
@@ -138,13 +156,25 @@ const main = defineCommand({
         diff: args.diff,
         context: args.context,
         ontology: args.ontology,
-        interactive: args.interactive
+        interactive: args.interactive,
+        values: args
       };
 
       if (args.verbose) {
         consola.level = 4; // Debug level
       }
 
+      // Handle completion script
+      if (args.completion) {
+        const script = await new CompletionGenerator().generateCompletion(
+          main,
+          args.completion,
+          'unjucks'
+        );
+        console.log(script);
+        return;
+      }
+
       // Handle list command
       if (args.list) {
         return await handleListCommand(args.templateDir);
@@ -160,7 +190,7 @@ const main = defineCommand({
 
     } catch (error) {
       await handleError(error);
-      process.exit(1);
+      process.exit(describeError(error).exitCode);
     }
   }
 });
@@ -187,7 +217,7 @@ const initCommand = defineCommand({
       consola.success('Unjucks initialized successfully!');
     } catch (error) {
       await handleError(error);
-      process.exit(1);
+      process.exit(describeError(error).exitCode);
     }
   }
 });
@@ -219,11 +249,252 @@ const validateCommand = defineCommand({
       consola.success('Validation completed successfully!');
     } catch (error) {
       await handleError(error);
-      process.exit(1);
+      process.exit(describeError(error).exitCode);
     }
   }
 });
 
+/**
+ * Clean command - removes generated files whose entity left the ontology
+ */
+const cleanCommand = defineCommand({
+  meta: {
+    name: 'clean',
+    description: 'Remove generated files whose ontology entity no longer exists',
+    examples: [
+      { command: 'clean --ontology ontology.ttl --dry-run', description: 'List orphaned files' }
+    ]
+  },
+  args: {
+    ontology: {
+      type: 'string',
+      description: 'Ontology file or URL the files were generated from',
+      required: true
+    },
+    output: {
+      type: 'string',
+      alias: 'o',
+      description: 'Output directory holding .unjucks/manifest.json',
+      valueHint: 'dir',
+      default: './src'
+    },
+    templateDir: {
+      type: 'string',
+      alias: 't',
+      description: 'Template directory path',
+      default: 'templates'
+    },
+    dryRun: {
+      type: 'boolean',
+      alias: 'd',
+      description: 'List the files that would be removed',
+      default: false
+    },
+    force: {
+      type: 'boolean',
+      alias: 'f',
+      description: 'Also remove files edited since their generation',
+      default: false
+    }
+  },
+  async run({ args }) {
+    try {
+      const { createUnjucks, cleanOutputs } = await import('./unjucks/index.js');
+      await createUnjucks({ templatesDir: args.templateDir, outputDir: args.output });
+      const result = await cleanOutputs(args.ontology, {
+        dryRun: args.dryRun,
+        force: args.force
+      });
+      if (result.removed.length === 0) {
+        consola.info('No orphaned files found');
+      } else if (!args.dryRun) {
+        consola.success(`Removed ${result.removed.length} orphaned files`);
+      }
+    } catch (error) {
+      await handleError(error);
+      process.exit(describeError(error).exitCode);
+    }
+  }
+});
+
+const marketplaceArgs = {
+  templateDir: {
+    type: 'string',
+    alias: 't',
+    description: 'Template directory path',
+    default: 'templates'
+  },
+  force: {
+    type: 'boolean',
+    alias: 'f',
+    description: 'Replace or remove files edited by hand or not owned by the package',
+    default: false
+  }
+} as const;
+
+const trustArgs = {
+  allowUnsigned: {
+    type: 'boolean',
+    description: 'Install items that are not signed by their author, with --trust-key once a key is pinned',
+    default: false
+  },
+  trustKey: {
+    type: 'boolean',
+    description: 'Accept a signing key that differs from the one pinned in unjucks.keyring.json',
+    default: false
+  }
+} as const;
+
+/**
+ * Add command - installs templates and plugins from the marketplace
+ */
+const addCommand = defineCommand({
+  meta: {
+    name: 'add',
+    description: 'Install a template or plugin from the marketplace',
+    examples: [
+      { command: 'add vue-starter', description: 'Install the latest version' },
+      { command: 'add vue-starter@^2.1', description: 'Install the latest 2.x from 2.1' }
+    ]
+  },
+  args: {
+    item: {
+      type: 'positional',
+      description: 'Item name, optionally followed by @<version range>',
+      valueHint: 'name@range',
+      required: true
+    },
+    registry: {
+      type: 'string',
+      alias: 'r',
+      description: 'Marketplace registry URL (defaults to $UNJUCKS_REGISTRY)',
+      valueHint: 'url'
+    },
+    ...marketplaceArgs,
+    ...trustArgs
+  },
+  async run({ args }) {
+    try {
+      const { addPackage } = await import('./marketplace/index.js');
+      const plugins = await createPluginManager();
+      const result = await addPackage(args.item, {
+        registry: args.registry,
+        templatesDir: args.templateDir,
+        force: args.force,
+        allowUnsigned: args.allowUnsigned,
+        trustKey: args.trustKey,
+        plugins
+      });
+      reportInstall(result);
+    } catch (error) {
+      await handleError(error);
+      process.exit(describeError(error).exitCode);
+    }
+  }
+});
+
+/**
+ * Remove command - uninstalls marketplace items
+ */
+const removeCommand = defineCommand({
+  meta: {
+    name: 'remove',
+    description: 'Remove an installed marketplace item and its files'
+  },
+  args: {
+    item: {
+      type: 'positional',
+      description: 'Name of the installed item',
+      valueHint: 'name',
+      required: true
+    },
+    ...marketplaceArgs
+  },
+  async run({ args }) {
+    try {
+      const { removePackage } = await import('./marketplace/index.js');
+      const plugins = await createPluginManager();
+      const result = await removePackage(args.item, {
+        templatesDir: args.templateDir,
+        force: args.force,
+        plugins
+      });
+      consola.success(`Removed ${result.name} (${result.removed.length} files)`);
+      if (result.kept.length > 0) {
+        consola.warn(`Kept files edited since the install, use --force to remove them:\n  ${result.kept.join('\n  ')}`);
+      }
+    } catch (error) {
+      await handleError(error);
+      process.exit(describeError(error).exitCode);
+    }
+  }
+});
+
+/**
+ * Update command - moves marketplace items to their latest matching version
+ */
+const updateCommand = defineCommand({
+  meta: {
+    name: 'update',
+    description: 'Update installed marketplace items within their version range'
+  },
+  args: {
+    item: {
+      type: 'positional',
+      description: 'Name of the item to update, all items when left out',
+      valueHint: 'name',
+      required: false
+    },
+    ...marketplaceArgs,
+    ...trustArgs
+  },
+  async run({ args }) {
+    try {
+      const { updatePackages } = await import('./marketplace/index.js');
+      const plugins = await createPluginManager();
+      const results = await updatePackages(args.item ? [args.item] : [], {
+        templatesDir: args.templateDir,
+        force: args.force,
+        allowUnsigned: args.allowUnsigned,
+        trustKey: args.trustKey,
+        plugins
+      });
+      if (results.length === 0) {
+        consola.info('Everything is up to date');
+      }
+      results.forEach(reportInstall);
+    } catch (error) {
+      await handleError(error);
+      process.exit(describeError(error).exitCode);
+    }
+  }
+});
+
+/**
+ * Plugin manager holding the plugins installed from the marketplace
+ */
+async function createPluginManager() {
+  const { PluginManager } = await import('./plugins/plugin-system.js');
+  const { loadInstalledPlugins } = await import('./marketplace/index.js');
+  const manager = new PluginManager({ logger: { log: consola.debug, error: consola.error } });
+  await loadInstalledPlugins(manager);
+  return manager;
+}
+
+function reportInstall(result: import('./marketplace/index.js').InstallResult): void {
+  const version = result.previous && result.previous !== result.version
+    ? `${result.previous} → ${result.version}`
+    : result.version;
+  consola.success(`Installed ${colors.cyan(result.name)}@${version} (${result.files.length} files)`);
+  if (result.plugin) {
+    consola.info(`Registered plugin from ${result.plugin}`);
+  }
+  const dependencies = Object.entries(result.dependencies || {});
+  if (dependencies.length > 0) {
+    consola.info(`${result.name} needs: ${dependencies.map(([name, range]) => `${name}@${range}`).join(' ')}`);
+  }
+}
+
 /**
  * Executes template rendering
  */
@@ -239,8 +510,8 @@ async function executeTemplate(options: CliOptions, templateDir: string): Promis
     updateTemplateContext(contextData);
   }
 
-  // Load ontology if specified
-  if (options.ontology) {
+  // Load ontology if specified, RDF files are queried while rendering instead
+  if (options.ontology && !graphFile(options)) {
     try {
       const ontologyContext = await loadOntologyContext(options.ontology);
       const expandedContext = await import('./ontology.js').then(m => 
@@ -257,6 +528,18 @@ async function executeTemplate(options: CliOptions, templateDir: string): Promis
     }
   }
 
+  // Generator packs render several templates in one go
+  const pack = await resolveGeneratorPack(options.generator!, options.action!, [templateDir])
+    .catch((error) => {
+      if (error instanceof TemplateNotFoundError) {
+        return undefined;
+      }
+      throw error;
+    });
+  if (pack && (pack.config || pack.templates.length > 1)) {
+    return executeGeneratorPack(pack, options);
+  }
+
   // Resolve template
   const template = await resolveTemplate(
     options.generator!,
@@ -264,13 +547,22 @@ async function executeTemplate(options: CliOptions, templateDir: string): Promis
     [templateDir]
   );
 
-  // Prompt for missing context values if in interactive mode
-  if (options.interactive) {
-    await promptForContext(template.path);
-  }
+  const renderer = new TemplateRenderer({
+    searchPaths: [templateDir],
+    ontology: graphFile(options)
+  });
+
+  // Check the context against the template variables before rendering
+  const inputs = findTemplateFileVariables(template.path, {
+    searchPaths: [templateDir],
+    globals: Object.keys(renderer.getGlobals())
+  }).filter(variable => variable.required);
+  updateTemplateContext(
+    await collectInputs(inputs, { ...getTemplateContext(), ...inputFlags(inputs, options) })
+  );
 
   // Render template
-  const result = await renderTemplate(template.path);
+  const result = await renderer.renderTemplate(template.path);
 
   // Handle output
   if (options.output) {
@@ -291,6 +583,64 @@ async function executeTemplate(options: CliOptions, templateDir: string): Promis
   );
 }
 
+/**
+ * The ontology when it is an RDF graph, for the `sparql` filter and `entities()`
+ */
+function graphFile(options: CliOptions): string | undefined {
+  return options.ontology && /\.(ttl|nt|n3)$/.test(options.ontology) ? options.ontology : undefined;
+}
+
+/**
+ * Renders all templates of a generator pack, then writes them together
+ */
+async function executeGeneratorPack(pack: GeneratorPack, options: CliOptions): Promise<void> {
+  const inputs = inferGeneratorInputs(pack, { globals: Object.keys(defaultRenderer.getGlobals()) });
+  const context = await collectInputs(inputs, { ...getTemplateContext(), ...inputFlags(inputs, options) });
+  const files = await renderGeneratorPack(pack, context, options.output, { ontology: graphFile(options) });
+
+  for (const file of files) {
+    const path = relative(process.cwd(), file.path);
+    if (file.existing === null) {
+      consola.log(`  ${colors.green('create')}    ${path}`);
+    } else if (file.existing === file.content) {
+      consola.log(`  ${colors.dim('identical')} ${path}`);
+    } else {
+      consola.log(`  ${colors.yellow('overwrite')} ${path}`);
+      if (options.diff) {
+        console.log(diff(file.existing, file.content, {
+          aAnnotation: 'existing',
+          bAnnotation: 'generated'
+        }));
+      }
+    }
+    if (options.dryRun) {
+      console.log(colors.dim('---'));
+      console.log(file.content);
+      console.log(colors.dim('---'));
+    }
+  }
+
+  if (options.dryRun) {
+    consola.info(`Dry run: ${files.length} files would be written`);
+    return;
+  }
+
+  await writeGeneratedFiles(files.filter(file => file.existing !== file.content));
+  await pack.config?.hooks?.afterWrite?.(files, context);
+  consola.success(`Generated ${files.length} files with ${colors.cyan(`${pack.generator}/${pack.action}`)}`);
+}
+
+/**
+ * Values of `inputs` given as `--<name>` flags, they win over the context file
+ */
+function inputFlags(inputs: { name: string }[], options: CliOptions): TemplateContext {
+  return Object.fromEntries(
+    inputs
+      .filter(input => options.values?.[input.name] !== undefined)
+      .map(input => [input.name, options.values![input.name]])
+  );
+}
+
 /**
  * Handles interactive mode
  */
@@ -305,11 +655,20 @@ async function handleInteractiveMode(options: CliOptions, templateDir: string):
     return;
   }
 
+  if ((!options.generator || !options.action) && !canPrompt()) {
+    throw new UnjucksError(
+      'Missing generator or action. Pass them as arguments when not running in a terminal.',
+      'MISSING_ARGUMENT'
+    );
+  }
+
   // Prompt for generator
-  const generator = options.generator || await promptSelect(
-    'Select a generator:',
-    generators.map(g => ({ label: g, value: g }))
-  );
+  const generator = options.generator || String(await promptArg({
+    name: 'generator',
+    type: 'enum',
+    options: generators,
+    prompt: 'Select a generator:'
+  }));
 
   // List available actions
   const actions = await listActions(generator, [templateDir]);
@@ -320,10 +679,12 @@ async function handleInteractiveMode(options: CliOptions, templateDir: string):
   }
 
   // Prompt for action
-  const action = options.action || await promptSelect(
-    'Select an action:',
-    actions.map(a => ({ label: a, value: a }))
-  );
+  const action = options.action || String(await promptArg({
+    name: 'action',
+    type: 'enum',
+    options: actions,
+    prompt: 'Select an action:'
+  }));
 
   // Execute with selected options
   await executeTemplate({ 
@@ -352,7 +713,11 @@ async function handleListCommand(templateDir: string): Promise<void> {
     
     const actions = await listActions(generator, [templateDir]);
     for (const action of actions) {
-      console.log(`  ${colors.green('▶')} ${action}`);
+      // Inputs the action needs, optional ones in brackets
+      const pack = await resolveGeneratorPack(generator, action, [templateDir]).catch(() => undefined);
+      const inputs = (pack ? inferGeneratorInputs(pack, { globals: Object.keys(defaultRenderer.getGlobals()) }) : [])
+        .map(input => input.required === false ? `[${input.name}]` : input.name);
+      console.log(`  ${colors.green('▶')} ${action}${inputs.length > 0 ? colors.dim(`  ${inputs.join(' ')}`) : ''}`);
     }
     console.log('');
   }
@@ -399,97 +764,6 @@ async function loadContextFile(contextPath: string): Promise<TemplateContext> {
   }
 }
 
-/**
- * Prompts for missing context values
- */
-async function promptForContext(templatePath: string): Promise<void> {
-  try {
-    const { readFileSync } = await import('node:fs');
-    const readline = await import('node:readline/promises');
-    
-    // Read template content to analyze variables
-    const templateContent = readFileSync(templatePath, 'utf-8');
-    
-    // Extract template variables using regex
-    // Matches {{ variable }}, {% variable %}, and {{- variable -}}
-    const variableMatches = templateContent.match(/\{\{\s*([^}\s]+)\s*(?:\|[^}]*)?\}\}/g) || [];
-    const blockMatches = templateContent.match(/\{%\s*(\w+)\s*([^%]*)\s*%\}/g) || [];
-    
-    const variables = new Set<string>();
-    
-    // Process template variables
-    variableMatches.forEach(match => {
-      const variable = match.replace(/\{\{\s*(-?)/, '').replace(/(-?)\s*\}\}/, '').split('|')[0].trim();
-      if (variable && !variable.includes(' ') && !variable.startsWith('$')) {
-        variables.add(variable);
-      }
-    });
-    
-    // Process block variables (for loops, etc.)
-    blockMatches.forEach(match => {
-      const parts = match.replace(/\{%\s*/, '').replace(/\s*%\}/, '').split(/\s+/);
-      if (parts[0] === 'for' && parts.length >= 3) {
-        // Extract variables from for loops: {% for item in items %}
-        const iteratorVar = parts[1];
-        const collectionVar = parts[3];
-        variables.add(collectionVar);
-      }
-    });
-    
-    if (variables.size === 0) {
-      consola.info('No template variables found that require user input.');
-      return;
-    }
-    
-    const rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout
-    });
-    
-    try {
-      const { getTemplateContext, updateTemplateContext } = await import('./context.js');
-      const currentContext = getTemplateContext();
-      
-      consola.info(`Found ${variables.size} template variables. Please provide values:`);
-      
-      const newContext: any = {};
-      
-      for (const variable of variables) {
-        if (currentContext[variable] !== undefined) {
-          consola.info(`Using existing value for ${colors.cyan(variable)}: ${colors.dim(String(currentContext[variable]))}`);
-          continue;
-        }
-        
-        const value = await rl.question(colors.cyan(`Enter value for '${variable}': `));
-        
-        // Try to parse as JSON if it looks like an object/array
-        try {
-          if (value.trim().startsWith('{') || value.trim().startsWith('[')) {
-            newContext[variable] = JSON.parse(value);
-          } else if (value.toLowerCase() === 'true' || value.toLowerCase() === 'false') {
-            newContext[variable] = value.toLowerCase() === 'true';
-          } else if (!isNaN(Number(value)) && value.trim() !== '') {
-            newContext[variable] = Number(value);
-          } else {
-            newContext[variable] = value;
-          }
-        } catch {
-          // If parsing fails, treat as string
-          newContext[variable] = value;
-        }
-      }
-      
-      updateTemplateContext(newContext);
-      consola.success(`Updated context with ${Object.keys(newContext).length} new values`);
-      
-    } finally {
-      rl.close();
-    }
-  } catch (error) {
-    consola.warn(`Failed to prompt for context: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
-
 /**
  * Handles file output with optional diff
  */
@@ -771,44 +1045,6 @@ async function validateProject(templateDir: string, ontologyPath?: string): Prom
   }
 }
 
-/**
- * Interactive select prompt implementation
- */
-async function promptSelect(message: string, choices: Array<{label: string, value: string}>): Promise<string> {
-  console.log(colors.bold(message));
-  choices.forEach((choice, index) => {
-    console.log(`${colors.dim((index + 1).toString())}. ${choice.label}`);
-  });
-  
-  const readline = await import('node:readline/promises');
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout
-  });
-
-  try {
-    let selectedIndex: number;
-    
-    while (true) {
-      const answer = await rl.question(colors.cyan(`Please select an option (1-${choices.length}): `));
-      const parsed = parseInt(answer.trim());
-      
-      if (!isNaN(parsed) && parsed >= 1 && parsed <= choices.length) {
-        selectedIndex = parsed - 1;
-        break;
-      } else {
-        consola.warn(`Invalid selection. Please enter a number between 1 and ${choices.length}.`);
-      }
-    }
-    
-    const selected = choices[selectedIndex];
-    consola.success(`Selected: ${colors.green(selected.label)}`);
-    return selected.value;
-  } finally {
-    rl.close();
-  }
-}
-
 /**
  * Error handler
  */
@@ -833,7 +1069,11 @@ async function handleError(error: unknown): Promise<void> {
 // Register subcommands
 main.subCommands = {
   init: initCommand,
-  validate: validateCommand
+  validate: validateCommand,
+  clean: cleanCommand,
+  add: addCommand,
+  remove: removeCommand,
+  update: updateCommand
 };
 
 // Run CLI
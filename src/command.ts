@@ -1,6 +1,11 @@
-import type { CommandContext, CommandDef, ArgsDef } from "./types";
-import { CLIError, resolveValue } from "./_utils";
-import { parseArgs } from "./args";
+import consola from "consola";
+import { camelCase } from "scule";
+import type { CommandContext, CommandDef, ArgsDef, ParsedArgs } from "./types";
+import type { RunCtx } from "./types/citty-pro";
+import { CLIError, abortable, didYouMean, resolveValue } from "./_utils";
+import { parseArgs, resolveArgs, type ParseArgsOptions } from "./args";
+import { loadArgsConfig } from "./config";
+import { canPrompt, promptArg } from "./prompt";
 
 export function defineCommand<const T extends ArgsDef = ArgsDef>(
   def: CommandDef<T>,
@@ -12,20 +17,58 @@ export interface RunCommandOptions {
   rawArgs: string[];
   data?: any;
   showUsage?: boolean;
+  /** Prompt for every missing argument, not only those with `prompt` */
+  interactive?: boolean;
+  /** Context of the command that dispatched to this sub command */
+  parent?: CommandContext<any>;
+  ctx?: RunCtx;
+  /** Aborted when the run is cancelled, e.g. on Ctrl+C */
+  signal?: AbortSignal;
 }
 
 export async function runCommand<T extends ArgsDef = ArgsDef>(
   cmd: CommandDef<T>,
   opts: RunCommandOptions,
 ): Promise<{ result: unknown }> {
+  const cmdMeta = await resolveValue(cmd.meta || {});
   const cmdArgs = await resolveValue(cmd.args || {});
-  const parsedArgs = parseArgs<T>(opts.rawArgs, cmdArgs);
+  const config = cmd.config
+    ? await loadArgsConfig(await resolveValue(cmd.config))
+    : undefined;
+  const subCommand = await findSubCommand(cmd, opts.rawArgs);
+  // Other words are positionals of commands that run and declare some
+  const isPositional =
+    subCommand?.name !== undefined &&
+    !subCommand.command &&
+    typeof cmd.run === "function" &&
+    resolveArgs(cmdArgs).some((arg) => arg.type === "positional");
+  const subCommandArgIndex = isPositional ? -1 : (subCommand?.index ?? -1);
+  // A default sub command gets all the flags and checks them itself
+  const isDefaultSubCommand =
+    !!subCommand?.command && subCommandArgIndex === -1;
+
+  // In strict mode flags after the sub command name belong to the sub command
+  const parsedArgs = await parseCommandArgs<T>(
+    cmdMeta.strict && subCommandArgIndex !== -1
+      ? opts.rawArgs.slice(0, subCommandArgIndex)
+      : opts.rawArgs,
+    cmdArgs,
+    {
+      strict: cmdMeta.strict && !isDefaultSubCommand,
+      config,
+      groups: await resolveValue(cmd.argGroups || []),
+    },
+    opts.interactive,
+  );
 
   const context: CommandContext<T> = {
     rawArgs: opts.rawArgs,
     args: parsedArgs,
     data: opts.data,
     cmd,
+    parent: opts.parent,
+    ctx: opts.ctx,
+    signal: opts.signal,
   };
 
   // Setup hook
@@ -36,33 +79,30 @@ export async function runCommand<T extends ArgsDef = ArgsDef>(
   // Handle sub command
   let result: unknown;
   try {
-    const subCommands = await resolveValue(cmd.subCommands);
-    if (subCommands && Object.keys(subCommands).length > 0) {
-      const subCommandArgIndex = opts.rawArgs.findIndex(
-        (arg) => !arg.startsWith("-"),
+    if (subCommand?.command) {
+      await runCommand(subCommand.command, {
+        rawArgs: opts.rawArgs.slice(subCommandArgIndex + 1),
+        data: opts.data,
+        interactive: opts.interactive,
+        parent: context,
+        ctx: opts.ctx,
+        signal: opts.signal,
+      });
+    } else if (subCommand?.name && !isPositional) {
+      const subCommands = await resolveValue(cmd.subCommands);
+      throw new CLIError(
+        `Unknown command \`${subCommand.name}\`.` +
+          didYouMean(subCommand.name, Object.keys(subCommands)),
+        "E_UNKNOWN_COMMAND",
       );
-      const subCommandName = opts.rawArgs[subCommandArgIndex];
-      if (subCommandName) {
-        if (!subCommands[subCommandName]) {
-          throw new CLIError(
-            `Unknown command \`${subCommandName}\``,
-            "E_UNKNOWN_COMMAND",
-          );
-        }
-        const subCommand = await resolveValue(subCommands[subCommandName]);
-        if (subCommand) {
-          await runCommand(subCommand, {
-            rawArgs: opts.rawArgs.slice(subCommandArgIndex + 1),
-          });
-        }
-      } else if (!cmd.run) {
-        throw new CLIError(`No command specified.`, "E_NO_COMMAND");
-      }
+    } else if (subCommand && !cmd.run) {
+      throw new CLIError(`No command specified.`, "E_NO_COMMAND");
     }
 
     // Handle main command
     if (typeof cmd.run === "function") {
-      result = await cmd.run(context);
+      // Stop waiting once aborted, so that `cleanup` runs
+      result = await abortable(cmd.run(context), opts.signal);
     }
   } finally {
     if (typeof cmd.cleanup === "function") {
@@ -72,23 +112,119 @@ export async function runCommand<T extends ArgsDef = ArgsDef>(
   return { result };
 }
 
+async function parseCommandArgs<T extends ArgsDef = ArgsDef>(
+  rawArgs: string[],
+  argsDef: ArgsDef,
+  opts: ParseArgsOptions,
+  interactive?: boolean,
+): Promise<ParsedArgs<T>> {
+  const values: Record<string, any> = {};
+  while (true) {
+    try {
+      return parseArgs<T>(rawArgs, argsDef, { ...opts, values });
+    } catch (error) {
+      if (!(error instanceof CLIError) || !canPromptFor(error)) {
+        throw error;
+      }
+      const name: string = error.details.arg;
+      if (name in values) {
+        consola.warn(error.message);
+      }
+      values[name] = await promptArg({ ...argsDef[name], name });
+    }
+  }
+
+  function canPromptFor(error: CLIError) {
+    const name: string | undefined = error.details?.arg;
+    const argDef = name ? argsDef[name] : undefined;
+    if (!argDef || !(argDef.prompt || interactive) || !canPrompt()) {
+      return false;
+    }
+    // Values given on the command line are never replaced by a prompt
+    return error.details.missing ? !(name in values) : name in values;
+  }
+}
+
 export async function resolveSubCommand<T extends ArgsDef = ArgsDef>(
   cmd: CommandDef<T>,
   rawArgs: string[],
   parent?: CommandDef<T>,
 ): Promise<[CommandDef<T>, CommandDef<T>?]> {
+  const subCommand = await findSubCommand(cmd, rawArgs);
+  // The default sub command is not selected for help
+  if (subCommand?.command && subCommand.index !== -1) {
+    return resolveSubCommand(
+      subCommand.command,
+      rawArgs.slice(subCommand.index + 1),
+      cmd,
+    );
+  }
+  return [cmd, parent];
+}
+
+export interface SubCommandMatch {
+  /** Position of the sub command name in `rawArgs`, `-1` for the default */
+  index: number;
+  /** Name as given, or the default sub command */
+  name?: string;
+  /** Unset when `name` matches no sub command or alias */
+  command?: CommandDef<any>;
+}
+
+/**
+ * Find the sub command selected by `rawArgs`: the first word that is neither
+ * a flag nor the value of a flag of `cmd`. Falls back to `defaultSubCommand`.
+ * Returns `undefined` when `cmd` has no sub commands.
+ */
+export async function findSubCommand<T extends ArgsDef = ArgsDef>(
+  cmd: CommandDef<T>,
+  rawArgs: string[],
+): Promise<SubCommandMatch | undefined> {
   const subCommands = await resolveValue(cmd.subCommands);
-  if (subCommands && Object.keys(subCommands).length > 0) {
-    const subCommandArgIndex = rawArgs.findIndex((arg) => !arg.startsWith("-"));
-    const subCommandName = rawArgs[subCommandArgIndex];
-    const subCommand = await resolveValue(subCommands[subCommandName]);
-    if (subCommand) {
-      return resolveSubCommand(
-        subCommand,
-        rawArgs.slice(subCommandArgIndex + 1),
-        cmd,
-      );
+  if (!subCommands || Object.keys(subCommands).length === 0) {
+    return undefined;
+  }
+
+  const index = findCommandWord(rawArgs, await resolveValue(cmd.args || {}));
+  const name = index === -1 ? cmd.defaultSubCommand : rawArgs[index];
+  if (!name) {
+    return { index };
+  }
+  if (subCommands[name]) {
+    return { index, name, command: await resolveValue(subCommands[name]) };
+  }
+  for (const sub of Object.values(subCommands)) {
+    const subCommand = await resolveValue(sub);
+    const meta = await resolveValue(subCommand?.meta);
+    if (meta?.aliases?.includes(name)) {
+      return { index, name, command: subCommand };
     }
   }
-  return [cmd, parent];
+  return { index, name };
+}
+
+function findCommandWord(rawArgs: string[], argsDef: ArgsDef) {
+  const valueFlags = new Set<string>();
+  for (const arg of resolveArgs(argsDef)) {
+    if (arg.type !== "boolean" && arg.type !== "positional") {
+      for (const name of [arg.name, ...arg.alias]) {
+        valueFlags.add(camelCase(name));
+      }
+    }
+  }
+  for (let i = 0; i < rawArgs.length; i++) {
+    const arg = rawArgs[i];
+    if (arg === "--") {
+      return -1;
+    }
+    if (!arg.startsWith("-")) {
+      return i;
+    }
+    // `-abc` sets `a` and `b`, only `c` may take the next word
+    const flag = arg.startsWith("--") ? arg.slice(2) : arg.slice(-1);
+    if (!arg.includes("=") && valueFlags.has(camelCase(flag))) {
+      i++;
+    }
+  }
+  return -1;
 }
@@ -108,6 +108,14 @@ export default defineCommand({
       alias: "f",
     },
   },
+  argGroups: [
+    {
+      title: "Source",
+      args: ["prompt", "schema"],
+      exclusive: true,
+      required: true,
+    },
+  ],
   
   async run({ args }) {
     return traceCommand('generate-cli', async (span) => {
@@ -131,12 +139,6 @@ export default defineCommand({
         force
       } = args;
 
-      // Validate inputs
-      if (!prompt && !schema) {
-        consola.error("❌ Either --prompt or --schema must be provided");
-        process.exit(1);
-      }
-
       if (existsSync(output) && !force && !dryRun) {
         consola.error(`❌ Output directory ${output} already exists. Use --force to overwrite.`);
         process.exit(1);
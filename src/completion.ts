@@ -0,0 +1,240 @@
+import { kebabCase } from "scule";
+import type { Arg, ArgsDef, CommandDef, CompleteContext } from "./types";
+import { resolveValue } from "./_utils";
+import { parseArgs, resolveArgs } from "./args";
+import { findSubCommand } from "./command";
+
+/** Hidden command answered by `runMain` to drive shell completion */
+export const COMPLETE_COMMAND = "__complete";
+
+export type CompletionShell = "bash" | "zsh" | "fish";
+
+export interface Completion {
+  value: string;
+  description?: string;
+}
+
+/**
+ * Propose completions for the last word of `words` (the words after the
+ * program name, the last one being the partial word under the cursor).
+ */
+export async function complete<T extends ArgsDef = ArgsDef>(
+  cmd: CommandDef<T>,
+  words: string[],
+): Promise<Completion[]> {
+  const partial = words.at(-1) ?? "";
+  const [leaf, rawArgs] = await resolveLeaf(cmd, words.slice(0, -1));
+  const argsDef = await resolveValue(leaf.args || {});
+  const args = resolveArgs(argsDef);
+  const context: CompleteContext = {
+    rawArgs,
+    args: parseLenient(rawArgs, argsDef),
+    cmd: leaf,
+  };
+
+  // `--flag=<partial>`
+  const inline = partial.match(/^(--?[^=]+)=(.*)$/);
+  if (inline) {
+    const arg = findFlag(args, inline[1]);
+    const values = arg ? await completeValue(arg, context, inline[2]) : [];
+    return values.map((c) => ({ ...c, value: `${inline[1]}=${c.value}` }));
+  }
+
+  // Value of the flag given just before
+  const previous = rawArgs.at(-1);
+  const valueArg = previous?.startsWith("-")
+    ? findFlag(args, previous)
+    : undefined;
+  if (valueArg && takesValue(valueArg) && !previous.includes("=")) {
+    return completeValue(valueArg, context, partial);
+  }
+
+  if (partial.startsWith("-")) {
+    return filterCompletions(flagCompletions(args), partial);
+  }
+
+  const completions: Completion[] = [];
+  const subCommands = await resolveValue(leaf.subCommands);
+  for (const [name, subCommand] of Object.entries(subCommands || {})) {
+    const meta = await resolveValue((await resolveValue(subCommand)).meta);
+    if (!meta?.hidden) {
+      completions.push({
+        value: name,
+        description: firstLine(meta?.description),
+      });
+    }
+  }
+  const positionals = args.filter((arg) => arg.type === "positional");
+  const index = countPositionals(args, rawArgs);
+  const lastPositional = positionals.at(-1);
+  const positional =
+    positionals[index] ??
+    (lastPositional?.multiple ? lastPositional : undefined);
+  if (positional) {
+    completions.push(...(await completeValue(positional, context, partial)));
+  }
+  return filterCompletions(completions, partial);
+}
+
+/**
+ * Render completions in the format read by the shell shims: one candidate
+ * per line, followed by a tab and its description.
+ */
+export function formatCompletions(completions: Completion[]): string {
+  return completions
+    .map((c) => `${c.value}\t${c.description || ""}`)
+    .join("\n");
+}
+
+/**
+ * Shell script that forwards completion requests to `<name> __complete`.
+ */
+export function renderCompletionScript(
+  shell: CompletionShell,
+  name: string,
+): string {
+  const fn = `_${name.replace(/\W/g, "_")}_complete`;
+  switch (shell) {
+    case "bash": {
+      return `# ${name} bash completion
+${fn}() {
+  local IFS=$'\\n'
+  COMPREPLY=($(${name} ${COMPLETE_COMMAND} "\${COMP_WORDS[@]:1:$COMP_CWORD}" 2>/dev/null | cut -f1))
+}
+complete -o default -F ${fn} ${name}
+`;
+    }
+    case "zsh": {
+      return `#compdef ${name}
+# ${name} zsh completion
+${fn}() {
+  local -a completions
+  local line
+  for line in "\${(@f)$(${name} ${COMPLETE_COMMAND} "\${(@)words[2,CURRENT]}" 2>/dev/null)}"; do
+    [[ -n "$line" ]] && completions+=("\${\${line%%$'\\t'*}//:/\\\\:}:\${line#*$'\\t'}")
+  done
+  _describe '${name}' completions
+}
+compdef ${fn} ${name}
+`;
+    }
+    case "fish": {
+      return `# ${name} fish completion
+function ${fn}
+  set -l tokens (commandline -opc)
+  set -e tokens[1]
+  set -l current (commandline -ct)
+  ${name} ${COMPLETE_COMMAND} $tokens "$current" 2>/dev/null
+end
+complete -c ${name} -f -a '(${fn})'
+`;
+    }
+  }
+}
+
+async function resolveLeaf(
+  cmd: CommandDef<any>,
+  rawArgs: string[],
+): Promise<[CommandDef<any>, string[]]> {
+  const subCommand = await findSubCommand(cmd, rawArgs);
+  if (!subCommand?.command || subCommand.index === -1) {
+    return [cmd, rawArgs];
+  }
+  return resolveLeaf(subCommand.command, rawArgs.slice(subCommand.index + 1));
+}
+
+async function completeValue(
+  arg: Arg,
+  context: CompleteContext,
+  partial: string,
+): Promise<Completion[]> {
+  const values = (arg.options || []).map(String);
+  if (arg.complete) {
+    values.push(...(await arg.complete(context, partial)));
+  }
+  return filterCompletions(
+    [...new Set(values)].map((value) => ({ value })),
+    partial,
+  );
+}
+
+function flagCompletions(args: Arg[]): Completion[] {
+  const completions: Completion[] = [];
+  for (const arg of args) {
+    if (arg.type === "positional") {
+      continue;
+    }
+    const description = firstLine(arg.description);
+    completions.push({ value: `--${arg.name}`, description });
+    for (const alias of arg.alias) {
+      completions.push({
+        value: alias.length === 1 ? `-${alias}` : `--${alias}`,
+        description,
+      });
+    }
+  }
+  completions.push({ value: "--help", description: "Show help" });
+  return completions;
+}
+
+function findFlag(args: Arg[], flag: string): Arg | undefined {
+  const name = kebabCase(flag.replace(/^-+/, ""));
+  return args.find(
+    (arg) =>
+      arg.type !== "positional" &&
+      [arg.name, ...arg.alias].some((n) => kebabCase(n) === name),
+  );
+}
+
+function takesValue(arg: Arg) {
+  return arg.type !== "boolean" && arg.type !== "positional";
+}
+
+function countPositionals(args: Arg[], rawArgs: string[]) {
+  let count = 0;
+  for (let i = 0; i < rawArgs.length; i++) {
+    const word = rawArgs[i];
+    if (word === "--") {
+      return count + rawArgs.length - i - 1;
+    }
+    if (!word.startsWith("-")) {
+      count++;
+      continue;
+    }
+    const arg = findFlag(args, word);
+    if (arg && takesValue(arg) && !word.includes("=")) {
+      i++;
+    }
+  }
+  return count;
+}
+
+function parseLenient(rawArgs: string[], argsDef: ArgsDef) {
+  // Only types and aliases matter, the command line is incomplete
+  const lenientDef: ArgsDef = {};
+  for (const [name, arg] of Object.entries(argsDef)) {
+    if (!arg) {
+      continue;
+    }
+    lenientDef[name] = {
+      type: arg.type === "enum" ? "string" : arg.type,
+      alias: arg.alias,
+      default: arg.default,
+      multiple: arg.multiple,
+      required: false,
+    };
+  }
+  try {
+    return parseArgs(rawArgs, lenientDef);
+  } catch {
+    return { _: rawArgs };
+  }
+}
+
+function filterCompletions(completions: Completion[], partial: string) {
+  return completions.filter((c) => c.value.startsWith(partial));
+}
+
+function firstLine(text?: string) {
+  return text?.split("\n")[0];
+}
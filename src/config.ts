@@ -0,0 +1,17 @@
+import { loadConfig } from "c12";
+import type { ArgsConfigSource } from "./types";
+
+/**
+ * Load argument values from `<name>.config.*` or `.<name>rc` files.
+ */
+export async function loadArgsConfig(
+  source: ArgsConfigSource,
+): Promise<Record<string, any>> {
+  const { config } = await loadConfig({
+    name: source.name,
+    cwd: source.cwd,
+    globalRc: false,
+    dotenv: false,
+  });
+  return (source.key ? config?.[source.key] : config) || {};
+}
@@ -0,0 +1,135 @@
+import { resolveValue } from "./_utils";
+import type {
+  Arg,
+  ArgType,
+  ArgsDef,
+  CommandDef,
+  CommandExample,
+} from "./types";
+import { resolveArgRelations, resolveArgs } from "./args";
+
+export interface ArgDescription {
+  name: string;
+  type: ArgType;
+  description?: string;
+  alias: string[];
+  required: boolean;
+  default?: Arg["default"];
+  options?: (string | number)[];
+  valueHint?: string;
+  multiple: boolean;
+  env?: string;
+  negativeDescription?: string;
+  conflicts: string[];
+  requires: string[];
+  /** Title of the argument group the argument is listed under */
+  group?: string;
+}
+
+export interface CommandDescription {
+  name: string;
+  /** Names from the root command down to this one */
+  path: string[];
+  usage: string;
+  description?: string;
+  version?: string;
+  hidden: boolean;
+  aliases: string[];
+  defaultSubCommand?: string;
+  examples: CommandExample[];
+  args: ArgDescription[];
+  subCommands: CommandDescription[];
+}
+
+/**
+ * Resolve `cmd` and all of its sub commands (hidden ones included) into
+ * plain data, e.g. to generate documentation.
+ */
+export async function describeCommand<T extends ArgsDef = ArgsDef>(
+  cmd: CommandDef<T>,
+  parent?: CommandDef<T>,
+): Promise<CommandDescription> {
+  const parentMeta = await resolveValue(parent?.meta || {});
+  return _describeCommand(cmd, parentMeta.name ? [parentMeta.name] : []);
+}
+
+async function _describeCommand(
+  cmd: CommandDef<any>,
+  parentPath: string[],
+  name?: string,
+): Promise<CommandDescription> {
+  const meta = await resolveValue(cmd.meta || {});
+  const argGroups = await resolveValue(cmd.argGroups || []);
+  const path = [...parentPath, meta.name || name || process.argv[1]];
+
+  const args: ArgDescription[] = resolveArgs(
+    await resolveValue(cmd.args || {}),
+  ).map((arg) => {
+    const { conflicts, requires } = resolveArgRelations(arg, argGroups);
+    return {
+      name: arg.name,
+      type: arg.type,
+      description: arg.description,
+      alias: arg.alias as string[],
+      required:
+        arg.default === undefined &&
+        (arg.type === "positional"
+          ? arg.required !== false
+          : arg.required === true),
+      default: arg.default,
+      options: arg.options,
+      valueHint: arg.valueHint,
+      multiple: arg.multiple === true,
+      env: arg.env,
+      negativeDescription: arg.negativeDescription,
+      conflicts,
+      requires,
+      group: argGroups.find(
+        (group) => group.title && group.args.includes(arg.name),
+      )?.title,
+    };
+  });
+
+  const subCommands: CommandDescription[] = [];
+  for (const [subName, sub] of Object.entries(
+    (await resolveValue(cmd.subCommands)) || {},
+  )) {
+    subCommands.push(
+      await _describeCommand(await resolveValue(sub), path, subName),
+    );
+  }
+
+  const usage = [
+    path.join(" "),
+    args.length > 0 && "[OPTIONS]",
+    ...args
+      .filter((arg) => arg.type === "positional")
+      .map((arg) => {
+        const argName = arg.name.toUpperCase() + (arg.multiple ? "..." : "");
+        return arg.required ? `<${argName}>` : `[${argName}]`;
+      }),
+    ...args
+      .filter((arg) => arg.type !== "positional" && arg.required)
+      .map((arg) => `--${arg.name}=<${arg.valueHint || "value"}>`),
+    subCommands
+      .filter((sub) => !sub.hidden)
+      .map((sub) => sub.name)
+      .join("|"),
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    name: path.at(-1)!,
+    path,
+    usage,
+    description: meta.description,
+    version: meta.version,
+    hidden: meta.hidden === true,
+    aliases: meta.aliases || [],
+    defaultSubCommand: cmd.defaultSubCommand,
+    examples: meta.examples || [],
+    args,
+    subCommands,
+  };
+}
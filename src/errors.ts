@@ -0,0 +1,148 @@
+import { CLIError } from "./_utils";
+import { UnjucksError } from "./types";
+
+/**
+ * Process exit codes used by `runMain`.
+ */
+export const ExitCode = {
+  Success: 0,
+  Failure: 1,
+  /** The command line is malformed (unknown flag, missing argument, ...) */
+  Usage: 2,
+  /** A template, file or other resource does not exist */
+  NotFound: 3,
+  /** Values were given but rejected */
+  Validation: 4,
+  /** Cancelled by the user (Ctrl+C) */
+  Interrupted: 130,
+} as const;
+
+export interface ErrorReport {
+  code: string;
+  message: string;
+  details?: Record<string, any>;
+  hints: string[];
+  exitCode: number;
+}
+
+const unjucksErrors: Record<string, { exitCode: number; hints: string[] }> = {
+  TEMPLATE_NOT_FOUND: {
+    exitCode: ExitCode.NotFound,
+    hints: [
+      "Run `unjucks --list` to see available templates",
+      "Run `unjucks init` to create sample templates",
+    ],
+  },
+  CONTEXT_ERROR: {
+    exitCode: ExitCode.Validation,
+    hints: [
+      "Use `unjucks --interactive` for guided setup",
+      "Create a context file with the required variables",
+    ],
+  },
+  ONTOLOGY_ERROR: {
+    exitCode: ExitCode.Validation,
+    hints: ["Use `unjucks validate --ontology <file>`"],
+  },
+  INVALID_PACKAGE_SPEC: {
+    exitCode: ExitCode.Usage,
+    hints: ["Use `unjucks add <name>@<version range>`, e.g. `vue-starter@^2`"],
+  },
+  PACKAGE_NOT_FOUND: {
+    exitCode: ExitCode.NotFound,
+    hints: ["Check the name, or pass another registry with `--registry`"],
+  },
+  VERSION_NOT_FOUND: {
+    exitCode: ExitCode.NotFound,
+    hints: ["Widen the version range, or leave it out for the latest version"],
+  },
+  INTEGRITY_MISMATCH: {
+    exitCode: ExitCode.Validation,
+    hints: [
+      "The package was changed after publishing, report it to its author",
+    ],
+  },
+  UNSIGNED_PACKAGE: {
+    exitCode: ExitCode.Validation,
+    hints: [
+      "Ask the author to sign it, or pass `--allow-unsigned` if you trust it",
+    ],
+  },
+  SIGNATURE_INVALID: {
+    exitCode: ExitCode.Validation,
+    hints: [
+      "The package or its signature was tampered with, do not install it",
+    ],
+  },
+  SIGNING_KEY_CHANGED: {
+    exitCode: ExitCode.Validation,
+    hints: [
+      "Check with the author that they changed their key",
+      "Pass `--trust-key` to pin the new key in unjucks.keyring.json",
+    ],
+  },
+  TASK_TIMEOUT: {
+    exitCode: ExitCode.Failure,
+    hints: ["Raise the `timeout` of the task or workflow"],
+  },
+};
+
+/**
+ * Map any thrown value onto a code, an exit code and hints for the user.
+ */
+export function describeError(error: unknown): ErrorReport {
+  if (error instanceof CLIError) {
+    const { hints, ...details } = error.details || {};
+    return {
+      code: error.code || "E_CLI",
+      message: error.message,
+      details: error.details ? details : undefined,
+      hints: hints || [],
+      // Values that were given but rejected, as opposed to a bad command line
+      exitCode:
+        error.code === "EARG" && details.arg && !details.missing
+          ? ExitCode.Validation
+          : error.code === "E_NO_VERSION"
+            ? ExitCode.Failure
+            : ExitCode.Usage,
+    };
+  }
+
+  if (error instanceof UnjucksError) {
+    const known = unjucksErrors[error.code];
+    return {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hints: known?.hints || [],
+      exitCode: known?.exitCode ?? ExitCode.Failure,
+    };
+  }
+
+  const err = error as { name?: string; code?: string; message?: string };
+  if (
+    err?.name === "ConsolaPromptCancelledError" ||
+    err?.name === "AbortError"
+  ) {
+    return {
+      code: "E_INTERRUPTED",
+      message: err.message || "Interrupted.",
+      hints: [],
+      exitCode: ExitCode.Interrupted,
+    };
+  }
+  if (err?.code === "ENOENT") {
+    return {
+      code: "ENOENT",
+      message: err.message || "File not found.",
+      hints: [],
+      exitCode: ExitCode.NotFound,
+    };
+  }
+  return {
+    code: err?.code || "E_UNKNOWN",
+    message: err?.message || String(error),
+    hints: [],
+    exitCode: ExitCode.Failure,
+  };
+}
@@ -0,0 +1,376 @@
+import { loadConfig } from "c12";
+import { consola } from "consola";
+import matter from "gray-matter";
+import { existsSync, readFileSync } from "node:fs";
+import { mkdir, rename, unlink, writeFile } from "node:fs/promises";
+import { dirname, extname, join, relative, resolve } from "pathe";
+import type {
+  GeneratedFile,
+  GeneratorConfig,
+  GeneratorInput,
+  TemplateContext,
+  TemplateInfo,
+  TemplateOptions,
+} from "./types.js";
+import { ContextError, TemplateNotFoundError, UnjucksError } from "./types.js";
+import { walkTemplates } from "./walker.js";
+import { TemplateRenderer } from "./renderer.js";
+import { canPrompt, promptArg } from "./prompt.js";
+import {
+  findTemplateFileVariables,
+  findTemplateVariables,
+  type FindVariablesOptions,
+} from "./variables.js";
+
+const CONFIG_FILES = ["generator.config", "prompt"];
+
+/**
+ * A generator action with the templates rendered together
+ */
+export interface GeneratorPack {
+  generator: string;
+  action: string;
+  /** Directory of the action templates */
+  dir: string;
+  config?: GeneratorConfig;
+  templates: TemplateInfo[];
+}
+
+/**
+ * Type helper for `generator.config.ts` files
+ */
+export function defineGenerator(config: GeneratorConfig): GeneratorConfig {
+  return config;
+}
+
+/**
+ * Resolves the templates and the config of a generator action. The config
+ * is read from the action directory first, then from the generator one.
+ */
+export async function resolveGeneratorPack(
+  generator: string,
+  action: string,
+  templateDirs: string[] = ["templates", "generators"],
+): Promise<GeneratorPack> {
+  for (const dir of templateDirs.map((d) => resolve(d))) {
+    if (!existsSync(dir)) {
+      continue;
+    }
+
+    const templates = (await walkTemplates(dir)).filter(
+      (t) => t.generator === generator && t.action === action,
+    );
+    if (templates.length === 0) {
+      continue;
+    }
+
+    const actionDir = join(dir, generator, action);
+    const config = await loadGeneratorConfig([actionDir, join(dir, generator)]);
+    const selected = config?.templates
+      ? templates.filter((t) =>
+          config.templates!.includes(relative(actionDir, t.path)),
+        )
+      : templates;
+
+    if (selected.length === 0) {
+      throw new UnjucksError(
+        `None of the templates listed by ${generator}/${action} exist`,
+        "TEMPLATE_NOT_FOUND",
+        { generator, action, templates: config?.templates },
+      );
+    }
+
+    return { generator, action, dir: actionDir, config, templates: selected };
+  }
+
+  throw new TemplateNotFoundError(generator, action);
+}
+
+/**
+ * Loads the first `generator.config.*` or `prompt.*` file found in `dirs`.
+ * A `prompt` file may export the list of inputs only.
+ */
+export async function loadGeneratorConfig(
+  dirs: string[],
+): Promise<GeneratorConfig | undefined> {
+  for (const dir of dirs) {
+    if (!existsSync(dir)) {
+      continue;
+    }
+    for (const configFile of CONFIG_FILES) {
+      const { layers } = await loadConfig({
+        cwd: dir,
+        configFile,
+        rcFile: false,
+        globalRc: false,
+        dotenv: false,
+      });
+      // The first layer holds the module export as is
+      const config = layers?.[0]?.config;
+      if (config) {
+        return Array.isArray(config) ? { inputs: config } : config;
+      }
+    }
+  }
+}
+
+/**
+ * Resolves the value of every input from `context`, its default or a
+ * prompt. Inputs whose `when` returns false are skipped.
+ */
+export async function collectInputs(
+  inputs: GeneratorInput[],
+  context: TemplateContext = {},
+): Promise<TemplateContext> {
+  const values: TemplateContext = { ...context };
+
+  // Without a terminal, report everything that is missing at once
+  if (!canPrompt()) {
+    const missing = inputs
+      .filter(
+        (input) =>
+          input.required !== false &&
+          !input.when &&
+          input.default === undefined &&
+          values[input.name] === undefined,
+      )
+      .map((input) => input.name);
+    if (missing.length > 1) {
+      throw new ContextError(
+        `Missing values for ${missing.map((name) => `\`${name}\``).join(", ")}. Pass them as flags or in a context file when not running in a terminal.`,
+        missing,
+      );
+    }
+  }
+
+  for (const input of inputs) {
+    if (input.when && !input.when(values)) {
+      continue;
+    }
+
+    let value =
+      values[input.name] === undefined
+        ? undefined
+        : coerceInput(input, values[input.name]);
+    const defaultValue =
+      typeof input.default === "function"
+        ? input.default(values)
+        : input.default;
+
+    while (true) {
+      if (value === undefined && input.required !== false && canPrompt()) {
+        value = coerceInput(
+          input,
+          await promptArg({
+            name: input.name,
+            type: input.type || "string",
+            description: input.description,
+            options: input.options,
+            default: defaultValue,
+            required: true,
+          }),
+        );
+      }
+      value ??= defaultValue;
+
+      if (value === undefined) {
+        if (input.required === false) {
+          break;
+        }
+        throw new ContextError(
+          `Missing value for \`${input.name}\`. Pass it as \`--${input.name}\` when not running in a terminal.`,
+          [input.name],
+        );
+      }
+
+      const error = validateInput(input, value, values);
+      if (!error) {
+        values[input.name] = value;
+        break;
+      }
+      if (!canPrompt()) {
+        throw new ContextError(
+          `Invalid value for \`${input.name}\`: ${error}`,
+          [input.name],
+        );
+      }
+      // Ask again
+      consola.warn(error);
+      value = undefined;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Inputs declared by the generator config, or else the variables the
+ * templates (and their `to` paths) read from the context. `globals` are
+ * provided by the renderer and are not inputs.
+ */
+export function inferGeneratorInputs(
+  pack: GeneratorPack,
+  options: Pick<FindVariablesOptions, "globals"> = {},
+): GeneratorInput[] {
+  if (pack.config?.inputs) {
+    return pack.config.inputs;
+  }
+  const inputs = new Map<string, GeneratorInput>();
+  for (const template of pack.templates) {
+    const { data } = matter(readFileSync(template.path, "utf8"));
+    const variables = [
+      ...(typeof data.to === "string"
+        ? findTemplateVariables(data.to, options)
+        : []),
+      ...findTemplateFileVariables(template.path, options),
+    ];
+    for (const variable of variables) {
+      const input = inputs.get(variable.name);
+      if (input) {
+        input.required ||= variable.required;
+      } else {
+        inputs.set(variable.name, { ...variable });
+      }
+    }
+  }
+  return [...inputs.values()];
+}
+
+/**
+ * Renders every template of the pack in memory. Nothing is written, so the
+ * result can be previewed or handed to `writeGeneratedFiles`.
+ */
+export async function renderGeneratorPack(
+  pack: GeneratorPack,
+  context: TemplateContext,
+  outputDir: string = ".",
+  options: TemplateOptions = {},
+): Promise<GeneratedFile[]> {
+  const derived = await pack.config?.hooks?.beforeRender?.(context);
+  const renderContext = { ...context, ...derived };
+  // Partials are shared by the actions of every generator
+  const renderer = new TemplateRenderer({
+    ...options,
+    autoescape: false,
+    searchPaths: [pack.dir, resolve(pack.dir, "..", "..")],
+  });
+  const files: GeneratedFile[] = [];
+  const root = resolve(outputDir);
+
+  for (const template of pack.templates) {
+    const { content, data } = matter(readFileSync(template.path, "utf-8"));
+    // Without `to`, the path inside the action directory is the output path
+    const to =
+      data.to ||
+      relative(pack.dir, template.path).slice(
+        0,
+        -extname(template.path).length,
+      );
+    const target = (
+      await renderer.renderString(String(to), renderContext)
+    ).output.trim();
+    const path = resolve(root, target);
+
+    if (!path.startsWith(`${root}/`)) {
+      throw new UnjucksError(
+        `Template ${template.relativePath} writes outside of the output directory: ${target}`,
+        "UNSAFE_OUTPUT_PATH",
+        { path: target },
+      );
+    }
+
+    if (files.some((file) => file.path === path)) {
+      throw new UnjucksError(
+        `Templates of ${pack.generator}/${pack.action} write the same file: ${path}`,
+        "OUTPUT_CONFLICT",
+        { path },
+      );
+    }
+
+    files.push({
+      path,
+      content: (await renderer.renderString(content, renderContext)).output,
+      template: template.path,
+      existing: existsSync(path) ? readFileSync(path, "utf-8") : null,
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Writes all files or none: every file is first written next to its target,
+ * then moved in place. Files replaced before a failure are restored.
+ */
+export async function writeGeneratedFiles(
+  files: GeneratedFile[],
+): Promise<void> {
+  const temps = new Map<GeneratedFile, string>();
+  const moved: GeneratedFile[] = [];
+
+  try {
+    for (const file of files) {
+      const temp = `${file.path}.tmp.${process.pid}`;
+      await mkdir(dirname(file.path), { recursive: true });
+      await writeFile(temp, file.content, "utf-8");
+      temps.set(file, temp);
+    }
+    for (const file of files) {
+      await rename(temps.get(file)!, file.path);
+      moved.push(file);
+    }
+  } catch (error) {
+    for (const file of moved) {
+      await (
+        file.existing === null
+          ? unlink(file.path)
+          : writeFile(file.path, file.existing, "utf-8")
+      ).catch(() => {});
+    }
+    for (const file of files.filter((file) => !moved.includes(file))) {
+      const temp = temps.get(file);
+      if (temp) {
+        await unlink(temp).catch(() => {});
+      }
+    }
+    throw new UnjucksError(
+      `Failed to write generated files, no file was changed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "WRITE_FAILED",
+      { error },
+    );
+  }
+}
+
+function coerceInput(input: GeneratorInput, value: any): any {
+  if (input.type === "number" && typeof value === "string") {
+    return Number(value);
+  }
+  if (input.type === "boolean" && typeof value === "string") {
+    return value === "true";
+  }
+  return value;
+}
+
+function validateInput(
+  input: GeneratorInput,
+  value: any,
+  context: TemplateContext,
+): string | undefined {
+  if (input.type === "number" && Number.isNaN(value)) {
+    return "not a number";
+  }
+  if (
+    input.type === "enum" &&
+    input.options &&
+    !input.options.includes(value)
+  ) {
+    return `expected one of ${input.options.join(", ")}`;
+  }
+  const result = input.validate?.(value, context);
+  if (typeof result === "string") {
+    return result;
+  }
+  if (result === false) {
+    return "rejected by validation";
+  }
+}
@@ -4,6 +4,10 @@ export * from './context.js';
 export * from './walker.js';
 export * from './renderer.js';
 export * from './ontology.js';
+export * from './generator.js';
+export * from './variables.js';
+export * from './template-data.js';
+export * from './marketplace/index.js';
 
 // Re-export main functionality for convenience
 export { 
@@ -37,4 +41,7 @@ export {
 } from './ontology.js';
 
 // Export command utilities
-export { defineCommand } from './command.js';
\ No newline at end of file
+export { defineCommand } from './command.js';
+export { describeCommand } from './describe.js';
+export { ExitCode, describeError } from './errors.js';
+export { renderHelp, renderMarkdownUsage, renderManPage } from './usage.js';
@@ -1,12 +1,35 @@
 import consola from "consola";
-import type { ArgsDef, CommandDef } from "./types";
+import { UnjucksError, type ArgsDef, type CommandDef } from "./types";
 import { resolveSubCommand, runCommand } from "./command";
 import { CLIError } from "./_utils";
-import { showUsage as _showUsage } from "./usage";
+import { renderHelp, showUsage as _showUsage } from "./usage";
+import { COMPLETE_COMMAND, complete, formatCompletions } from "./completion";
+import { ExitCode, describeError, type ErrorReport } from "./errors";
+import type { Plugin } from "./types/citty-pro";
 
 export interface RunMainOptions {
   rawArgs?: string[];
   showUsage?: typeof _showUsage;
+  /**
+   * Prompt for missing arguments in an interactive terminal, even when they
+   * do not set `prompt`
+   */
+  interactive?: boolean;
+  /**
+   * Run the command through the citty-pro lifecycle: its hooks are called
+   * for every phase and the command gets a run context as `ctx`
+   */
+  lifecycle?: boolean;
+  /** Plugins applied in lifecycle mode, after the registered ones */
+  plugins?: Plugin[];
+  /**
+   * Replace the default error output. The process exits with the returned
+   * code, or with the code mapped from the error.
+   */
+  onError?: (
+    error: unknown,
+    report: ErrorReport,
+  ) => void | number | Promise<void | number>;
 }
 
 export async function runMain<T extends ArgsDef = ArgsDef>(
@@ -15,9 +38,42 @@ export async function runMain<T extends ArgsDef = ArgsDef>(
 ) {
   const rawArgs = opts.rawArgs || process.argv.slice(2);
   const showUsage = opts.showUsage || _showUsage;
+  if (rawArgs[0] === COMPLETE_COMMAND) {
+    // Completion must never print errors into the user's shell
+    try {
+      const completions = await complete(cmd, rawArgs.slice(1));
+      if (completions.length > 0) {
+        process.stdout.write(formatCompletions(completions) + "\n");
+      }
+    } catch {}
+    return;
+  }
+  // The first signal aborts the run, so that `cleanup` hooks still run.
+  // Another one exits right away.
+  const controller = new AbortController();
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (controller.signal.aborted) {
+      process.exit(ExitCode.Interrupted);
+    }
+    controller.abort(
+      new DOMException(`Interrupted by ${signal}`, "AbortError"),
+    );
+  };
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
   try {
-    if (rawArgs.includes("--help") || rawArgs.includes("-h")) {
-      await showUsage(...(await resolveSubCommand(cmd, rawArgs)));
+    const helpArg = rawArgs.find(
+      (arg) => arg === "--help" || arg === "-h" || arg.startsWith("--help="),
+    );
+    if (helpArg) {
+      const [subCommand, parent] = await resolveSubCommand(cmd, rawArgs);
+      const format = helpArg.split("=")[1];
+      if (format) {
+        // Written as is, the output is meant for other tools
+        process.stdout.write(await renderHelp(subCommand, parent, format));
+      } else {
+        await showUsage(subCommand, parent);
+      }
       process.exit(0);
     } else if (rawArgs.length === 1 && rawArgs[0] === "--version") {
       const meta =
@@ -26,18 +82,52 @@ export async function runMain<T extends ArgsDef = ArgsDef>(
         throw new CLIError("No version specified", "E_NO_VERSION");
       }
       consola.log(meta.version);
+    } else if (opts.lifecycle) {
+      const { runCommandLifecycle } = await import("./pro/lifecycle");
+      await runCommandLifecycle(cmd, {
+        rawArgs,
+        interactive: opts.interactive,
+        plugins: opts.plugins,
+        signal: controller.signal,
+      });
     } else {
-      await runCommand(cmd, { rawArgs });
+      await runCommand(cmd, {
+        rawArgs,
+        interactive: opts.interactive,
+        signal: controller.signal,
+      });
     }
   } catch (error: any) {
-    const isCLIError = error instanceof CLIError;
-    if (isCLIError) {
+    const report = describeError(error);
+    let exitCode = report.exitCode;
+    if (opts.onError) {
+      const code = await opts.onError(error, report);
+      if (typeof code === "number") {
+        exitCode = code;
+      }
+    } else if (rawArgs.includes("--json")) {
+      const { code, message, details, hints } = report;
+      process.stderr.write(
+        JSON.stringify({ error: { code, message, details, hints } }) + "\n",
+      );
+    } else if (error instanceof CLIError) {
       await showUsage(...(await resolveSubCommand(cmd, rawArgs)));
       consola.error(error.message);
+    } else if (
+      error instanceof UnjucksError ||
+      report.exitCode !== ExitCode.Failure
+    ) {
+      consola.error(report.message);
+      for (const hint of report.hints) {
+        consola.info(hint);
+      }
     } else {
       consola.error(error, "\n");
     }
-    process.exit(1);
+    process.exit(exitCode);
+  } finally {
+    process.off("SIGINT", onSignal);
+    process.off("SIGTERM", onSignal);
   }
 }
 
@@ -0,0 +1,5 @@
+export * from "./install.js";
+export * from "./keyring.js";
+export * from "./lockfile.js";
+export * from "./registry.js";
+export { createTarball } from "./tarball.js";
@@ -0,0 +1,351 @@
+import { existsSync, readFileSync } from "node:fs";
+import { mkdir, readFile, rm, rmdir } from "node:fs/promises";
+import { dirname, join, relative, resolve } from "pathe";
+import type { PluginManager } from "../plugins/plugin-system.js";
+import { UnjucksError } from "../types.js";
+import type { GeneratedFile } from "../types.js";
+import { writeGeneratedFiles } from "../generator.js";
+import { hashContent } from "../unjucks/manifest.js";
+import {
+  loadKeyring,
+  saveKeyring,
+  verifySignature,
+  type TrustOptions,
+} from "./keyring.js";
+import { loadLockfile, saveLockfile, type LockedPackage } from "./lockfile.js";
+import {
+  DEFAULT_REGISTRY,
+  parsePackageSpec,
+  resolvePackage,
+  verifyIntegrity,
+  type PackageVersion,
+} from "./registry.js";
+
+export interface InstallOptions extends TrustOptions {
+  /** Project root holding the lockfile, defaults to the working directory */
+  cwd?: string;
+  /** Registry used by `add`, `update` keeps the one a package came from */
+  registry?: string;
+  /** Where templates are unpacked, relative to `cwd` */
+  templatesDir?: string;
+  /** Where plugins are unpacked, relative to `cwd` */
+  pluginsDir?: string;
+  /** Overwrite or remove files that were edited or not installed by the package */
+  force?: boolean;
+  /** Plugins are registered with this manager once installed */
+  plugins?: PluginManager;
+}
+
+export interface InstallResult {
+  name: string;
+  version: string;
+  /** Version replaced by this install */
+  previous?: string;
+  files: string[];
+  dependencies?: Record<string, string>;
+  plugin?: string;
+}
+
+export interface RemoveResult {
+  name: string;
+  removed: string[];
+  /** Files left in place because they were edited by hand */
+  kept: string[];
+}
+
+const PLUGIN_ENTRY_RE = /(^|\/)(index|[^/]+\.plugin)\.(m?js|ts)$/;
+
+/**
+ * Installs the highest version of a marketplace item matching `spec`
+ * (`name` or `name@range`) and records it in the lockfile. Its digest and
+ * signature are checked first, see `verifySignature`. Templates are
+ * unpacked in `templatesDir/<name>`, plugins in `pluginsDir/<name>`.
+ */
+export async function addPackage(
+  spec: string,
+  options: InstallOptions = {},
+): Promise<InstallResult> {
+  const { name, range } = parsePackageSpec(spec);
+  const registry = options.registry || DEFAULT_REGISTRY;
+  const version = await resolvePackage(registry, name, range);
+  return installVersion(version, range, registry, options);
+}
+
+/**
+ * Moves installed packages (all of them without `names`) to the highest
+ * version within the range they were added with. Packages already at that
+ * version are left out of the result.
+ */
+export async function updatePackages(
+  names: string[] = [],
+  options: InstallOptions = {},
+): Promise<InstallResult[]> {
+  const { packages } = await loadLockfile(options.cwd || ".");
+  for (const name of names) {
+    if (!packages[name]) {
+      throw notInstalled(name);
+    }
+  }
+
+  const results: InstallResult[] = [];
+  for (const [name, locked] of Object.entries(packages)) {
+    if (names.length > 0 && !names.includes(name)) {
+      continue;
+    }
+    const version = await resolvePackage(locked.registry, name, locked.range);
+    if (
+      version.version === locked.version &&
+      version.integrity === locked.integrity
+    ) {
+      continue;
+    }
+    results.push(
+      await installVersion(version, locked.range, locked.registry, options),
+    );
+  }
+  return results;
+}
+
+/**
+ * Removes the files of an installed package and unregisters its plugin.
+ * Files edited since the install are only removed with `force`.
+ */
+export async function removePackage(
+  name: string,
+  options: InstallOptions = {},
+): Promise<RemoveResult> {
+  const cwd = resolve(options.cwd || ".");
+  const lockfile = await loadLockfile(cwd);
+  const locked = lockfile.packages[name];
+  if (!locked) {
+    throw notInstalled(name);
+  }
+
+  await unregisterPlugin(locked, cwd, options.plugins);
+  const result: RemoveResult = { name, removed: [], kept: [] };
+  for (const [file, hash] of Object.entries(locked.files)) {
+    const current = await readFile(resolve(cwd, file), "utf8").catch(
+      () => null,
+    );
+    if (current !== null && hashContent(current) !== hash && !options.force) {
+      result.kept.push(file);
+      continue;
+    }
+    await rm(resolve(cwd, file), { force: true });
+    result.removed.push(file);
+  }
+  await pruneDirectories(
+    cwd,
+    result.removed,
+    packageDir(name, locked.type, options),
+  );
+
+  delete lockfile.packages[name];
+  await saveLockfile(cwd, lockfile);
+  return result;
+}
+
+/**
+ * Registers the plugins recorded in the lockfile with `manager`
+ */
+export async function loadInstalledPlugins(
+  manager: PluginManager,
+  options: Pick<InstallOptions, "cwd"> = {},
+): Promise<string[]> {
+  const cwd = resolve(options.cwd || ".");
+  const { packages } = await loadLockfile(cwd);
+  const loaded: string[] = [];
+  for (const [name, locked] of Object.entries(packages)) {
+    if (locked.plugin && !isRegistered(manager, resolve(cwd, locked.plugin))) {
+      await manager.load(resolve(cwd, locked.plugin));
+      loaded.push(name);
+    }
+  }
+  return loaded;
+}
+
+async function installVersion(
+  version: PackageVersion,
+  range: string,
+  registry: string,
+  options: InstallOptions,
+): Promise<InstallResult> {
+  verifyIntegrity(version);
+
+  const cwd = resolve(options.cwd || ".");
+  const keyring = await loadKeyring(cwd);
+  const signer = verifySignature(version, keyring, options);
+  const lockfile = await loadLockfile(cwd);
+  const previous = lockfile.packages[version.name];
+  const base = resolve(cwd, packageDir(version.name, version.type, options));
+
+  const files: GeneratedFile[] = [];
+  const directories: string[] = [];
+  for (const file of version.files) {
+    const path = resolve(base, file.path);
+    if (!path.startsWith(`${base}/`)) {
+      throw new UnjucksError(
+        `${version.name}@${version.version} contains a file outside of its directory: ${file.path}`,
+        "UNSAFE_PACKAGE_PATH",
+        { path: file.path },
+      );
+    }
+    if (file.type === "directory") {
+      directories.push(path);
+    } else {
+      files.push({
+        path,
+        content: file.content,
+        template: `${version.name}@${version.version}`,
+        existing: existsSync(path) ? readFileSync(path, "utf8") : null,
+      });
+    }
+  }
+
+  // Files of other packages, of nobody, or edited by hand are not replaced
+  const conflicts = files
+    .filter(
+      (file) =>
+        file.existing !== null &&
+        file.existing !== file.content &&
+        previous?.files[relative(cwd, file.path)] !==
+          hashContent(file.existing),
+    )
+    .map((file) => relative(cwd, file.path));
+  if (conflicts.length > 0 && !options.force) {
+    throw new UnjucksError(
+      `Installing ${version.name}@${version.version} would overwrite ${conflicts.join(", ")}. Use --force to replace them.`,
+      "INSTALL_CONFLICT",
+      { conflicts },
+    );
+  }
+
+  if (previous) {
+    await unregisterPlugin(previous, cwd, options.plugins);
+  }
+  await writeGeneratedFiles(files);
+  for (const directory of directories) {
+    await mkdir(directory, { recursive: true });
+  }
+
+  // Files the new version no longer ships
+  const installed = new Set(files.map((file) => relative(cwd, file.path)));
+  const stale: string[] = [];
+  for (const [file, hash] of Object.entries(previous?.files ?? {})) {
+    if (installed.has(file)) {
+      continue;
+    }
+    const current = await readFile(resolve(cwd, file), "utf8").catch(
+      () => null,
+    );
+    if (current === null || hashContent(current) === hash || options.force) {
+      await rm(resolve(cwd, file), { force: true });
+      stale.push(file);
+    }
+  }
+  await pruneDirectories(cwd, stale, relative(cwd, base));
+
+  const entry = files.find((file) =>
+    PLUGIN_ENTRY_RE.test(relative(base, file.path)),
+  );
+  const locked: LockedPackage = {
+    version: version.version,
+    range,
+    registry,
+    integrity: version.integrity,
+    keyId: signer?.keyId,
+    type: version.type,
+    files: Object.fromEntries(
+      files.map((file) => [
+        relative(cwd, file.path),
+        hashContent(file.content),
+      ]),
+    ),
+    dependencies: version.dependencies,
+    plugin:
+      version.type === "plugin" && entry
+        ? relative(cwd, entry.path)
+        : undefined,
+    installedAt: new Date().toISOString(),
+  };
+  lockfile.packages[version.name] = locked;
+  await saveLockfile(cwd, lockfile);
+  if (signer) {
+    keyring.keys[version.name] = signer;
+    await saveKeyring(cwd, keyring);
+  }
+
+  if (locked.plugin && options.plugins) {
+    await options.plugins.load(resolve(cwd, locked.plugin));
+  }
+
+  return {
+    name: version.name,
+    version: version.version,
+    previous: previous?.version,
+    files: Object.keys(locked.files),
+    dependencies: version.dependencies,
+    plugin: locked.plugin,
+  };
+}
+
+function packageDir(
+  name: string,
+  type: PackageVersion["type"],
+  options: InstallOptions,
+): string {
+  const dir =
+    type === "plugin"
+      ? options.pluginsDir || "plugins"
+      : options.templatesDir || "templates";
+  // `@acme/vue-starter` goes to `acme-vue-starter`
+  return join(dir, name.replace(/^@/, "").replace(/\//g, "-"));
+}
+
+async function unregisterPlugin(
+  locked: LockedPackage,
+  cwd: string,
+  manager?: PluginManager,
+) {
+  const path = locked.plugin && resolve(cwd, locked.plugin);
+  const plugin = manager?.list().find((plugin) => plugin.path === path);
+  if (plugin) {
+    await manager!.unregister(plugin.name);
+  }
+}
+
+function isRegistered(manager: PluginManager, path: string) {
+  return manager.list().some((plugin) => plugin.path === path);
+}
+
+/**
+ * Removes the directories left empty by removing `files`, up to `root`
+ */
+async function pruneDirectories(cwd: string, files: string[], root: string) {
+  const top = resolve(cwd, root);
+  const directories = new Set<string>();
+  for (const file of files) {
+    for (
+      let dir = dirname(resolve(cwd, file));
+      dir.startsWith(top);
+      dir = dirname(dir)
+    ) {
+      directories.add(dir);
+      if (dir === top) {
+        break;
+      }
+    }
+  }
+  // Deepest first, so parents are empty by the time they are reached
+  for (const dir of [...directories].sort((a, b) => b.length - a.length)) {
+    await rmdir(dir).catch(() => {});
+  }
+}
+
+function notInstalled(name: string) {
+  return new UnjucksError(
+    `${name} is not installed. Run \`unjucks add ${name}\` first.`,
+    "PACKAGE_NOT_INSTALLED",
+    { name },
+  );
+}
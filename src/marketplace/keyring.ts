@@ -0,0 +1,158 @@
+/**
+ * Package signatures and the trust-on-first-use keyring
+ *
+ * Authors register an Ed25519 key with the marketplace and sign the
+ * integrity digest of what they publish. The first install of an item pins
+ * its signing key in `unjucks.keyring.json` at the project root; later
+ * installs and updates must be signed by the same key. Commit the keyring
+ * so the whole team trusts the same authors.
+ */
+
+import {
+  createHash,
+  createPublicKey,
+  sign,
+  verify,
+  type KeyLike,
+} from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join, resolve } from "pathe";
+import { UnjucksError } from "../types.js";
+import type { PackageVersion } from "./registry.js";
+
+export const KEYRING = "unjucks.keyring.json";
+
+export interface TrustedKey {
+  keyId: string;
+  publicKey: string;
+  trustedAt: string;
+}
+
+export interface Keyring {
+  version: 1;
+  /** Signing key pinned for each item */
+  keys: Record<string, TrustedKey>;
+}
+
+export interface TrustOptions {
+  /** Install versions without a signature, with `trustKey` too once a key is pinned */
+  allowUnsigned?: boolean;
+  /** Replace the pinned key when a version is signed by another one, or not signed */
+  trustKey?: boolean;
+}
+
+/**
+ * `SHA256:<base64url>` fingerprint of a public key, the id the marketplace
+ * gives to registered keys
+ */
+export function keyFingerprint(publicKey: string): string {
+  const der = createPublicKey(publicKey).export({
+    type: "spki",
+    format: "der",
+  });
+  const digest = createHash("sha256").update(der).digest("base64url");
+  return `SHA256:${digest}`;
+}
+
+/**
+ * Signature to publish with files whose digest is `integrity`
+ */
+export function signIntegrity(integrity: string, privateKey: KeyLike): string {
+  return sign(null, Buffer.from(integrity), privateKey).toString("base64");
+}
+
+/**
+ * Checks the signature of a version against its integrity digest, then
+ * against the keyring. Returns the keyring entry to save once the version
+ * is installed, `undefined` for unsigned versions.
+ */
+export function verifySignature(
+  version: PackageVersion,
+  keyring: Keyring,
+  options: TrustOptions = {},
+): TrustedKey | undefined {
+  const { signature } = version;
+  const label = `${version.name}@${version.version}`;
+  const pinned = keyring.keys[version.name];
+  if (!signature) {
+    // Dropping the signature must not get around a pinned key
+    if (options.allowUnsigned && (!pinned || options.trustKey)) {
+      return undefined;
+    }
+    throw new UnjucksError(
+      pinned
+        ? `${label} is not signed, but ${version.name} was first installed with ${pinned.keyId}`
+        : `${label} is not signed by its author, refusing to install it`,
+      "UNSIGNED_PACKAGE",
+      { name: version.name, version: version.version, expected: pinned?.keyId },
+    );
+  }
+
+  let valid = false;
+  try {
+    valid =
+      keyFingerprint(signature.publicKey) === signature.keyId &&
+      verify(
+        null,
+        Buffer.from(version.integrity),
+        createPublicKey(signature.publicKey),
+        Buffer.from(signature.value, "base64"),
+      );
+  } catch {
+    // Malformed keys or signatures are invalid signatures
+  }
+  if (!valid) {
+    throw new UnjucksError(
+      `${label} has an invalid signature, refusing to install it`,
+      "SIGNATURE_INVALID",
+      { name: version.name, version: version.version, keyId: signature.keyId },
+    );
+  }
+
+  if (pinned && pinned.keyId !== signature.keyId && !options.trustKey) {
+    throw new UnjucksError(
+      `${label} is signed by ${signature.keyId}, but ${version.name} was first installed with ${pinned.keyId}`,
+      "SIGNING_KEY_CHANGED",
+      { name: version.name, expected: pinned.keyId, actual: signature.keyId },
+    );
+  }
+  return pinned?.keyId === signature.keyId
+    ? pinned
+    : {
+        keyId: signature.keyId,
+        publicKey: signature.publicKey,
+        trustedAt: new Date().toISOString(),
+      };
+}
+
+export async function loadKeyring(cwd: string): Promise<Keyring> {
+  try {
+    const keyring = JSON.parse(await readFile(keyringPath(cwd), "utf8"));
+    if (keyring?.version === 1 && keyring.keys) {
+      return keyring;
+    }
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") {
+      throw new Error(
+        `Failed to read ${keyringPath(cwd)}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+  return { version: 1, keys: {} };
+}
+
+export async function saveKeyring(
+  cwd: string,
+  keyring: Keyring,
+): Promise<void> {
+  const path = keyringPath(cwd);
+  await mkdir(dirname(path), { recursive: true });
+  const keys = Object.fromEntries(
+    Object.entries(keyring.keys).sort(([a], [b]) => a.localeCompare(b)),
+  );
+  await writeFile(path, JSON.stringify({ ...keyring, keys }, null, 2) + "\n");
+}
+
+function keyringPath(cwd: string) {
+  return join(resolve(cwd), KEYRING);
+}
@@ -0,0 +1,83 @@
+/**
+ * Marketplace lockfile
+ *
+ * `unjucks.lock.json` at the project root records every installed
+ * marketplace item: the resolved version and the range it was added with,
+ * the registry and integrity digest it came from, and the hash of every
+ * file written, so `remove` and `update` can tell hand edits apart.
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join, resolve } from "pathe";
+import type { PackageVersion } from "./registry.js";
+
+export const LOCKFILE = "unjucks.lock.json";
+
+export interface LockedPackage {
+  version: string;
+  /** Range passed to `add`, `update` stays within it */
+  range: string;
+  registry: string;
+  integrity: string;
+  /** Fingerprint of the key that signed the installed version */
+  keyId?: string;
+  type: PackageVersion["type"];
+  /** Installed files, relative to the project, with the hash of their content */
+  files: Record<string, string>;
+  /** npm packages the item needs in the project */
+  dependencies?: Record<string, string>;
+  /** Module of the plugin registered on install, relative to the project */
+  plugin?: string;
+  installedAt: string;
+}
+
+export interface Lockfile {
+  version: 1;
+  packages: Record<string, LockedPackage>;
+}
+
+export async function loadLockfile(cwd: string): Promise<Lockfile> {
+  try {
+    const lockfile = JSON.parse(await readFile(lockfilePath(cwd), "utf8"));
+    if (lockfile?.version === 1 && lockfile.packages) {
+      return lockfile;
+    }
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") {
+      throw new Error(
+        `Failed to read ${lockfilePath(cwd)}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+  return { version: 1, packages: {} };
+}
+
+export async function saveLockfile(
+  cwd: string,
+  lockfile: Lockfile,
+): Promise<void> {
+  const path = lockfilePath(cwd);
+  await mkdir(dirname(path), { recursive: true });
+  // Sorted, so installing in another order gives the same file
+  const packages = Object.fromEntries(
+    Object.entries(lockfile.packages)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, locked]) => [
+        name,
+        {
+          ...locked,
+          files: Object.fromEntries(
+            Object.entries(locked.files).sort(([a], [b]) => a.localeCompare(b)),
+          ),
+        },
+      ]),
+  );
+  await writeFile(
+    path,
+    JSON.stringify({ ...lockfile, packages }, null, 2) + "\n",
+  );
+}
+
+function lockfilePath(cwd: string) {
+  return join(resolve(cwd), LOCKFILE);
+}
@@ -0,0 +1,145 @@
+import { createHash } from "node:crypto";
+import { FetchError, ofetch } from "ofetch";
+import { UnjucksError } from "../types.js";
+import { compareVersions, maxSatisfying, validRange } from "./semver.js";
+import { createTarball } from "./tarball.js";
+
+export const DEFAULT_REGISTRY =
+  process.env.UNJUCKS_REGISTRY || "http://localhost:3000";
+
+/**
+ * A file of a marketplace item, as published with `POST /api/items`
+ */
+export interface PackageFile {
+  path: string;
+  content: string;
+  type: "file" | "directory";
+}
+
+/**
+ * One published version of a marketplace item
+ */
+export interface PackageVersion {
+  name: string;
+  version: string;
+  type: "template" | "plugin" | "workflow" | "tool";
+  files: PackageFile[];
+  /** npm packages the item needs in the project */
+  dependencies?: Record<string, string>;
+  hooks?: string[];
+  commands?: string[];
+  /** `sha256-<base64>` digest of the files, see `computeIntegrity` */
+  integrity: string;
+  /** Signature of `integrity` by the key the author registered */
+  signature?: PackageSignature;
+}
+
+/**
+ * Ed25519 signature of a version's integrity digest
+ */
+export interface PackageSignature {
+  /** `SHA256:<base64url>` fingerprint of the public key */
+  keyId: string;
+  /** PEM encoded public key */
+  publicKey: string;
+  /** Base64 signature of the integrity string */
+  value: string;
+}
+
+/**
+ * Every version of an item, as served by `GET /api/registry/:name`
+ */
+export interface RegistryPackage {
+  name: string;
+  versions: Record<string, PackageVersion>;
+}
+
+/**
+ * `name@range` (`@scope/name@range` for scoped names) into its parts, the
+ * range defaults to any version
+ */
+export function parsePackageSpec(spec: string): {
+  name: string;
+  range: string;
+} {
+  const at = spec.lastIndexOf("@");
+  const [name, range] =
+    at > 0 ? [spec.slice(0, at), spec.slice(at + 1)] : [spec, "*"];
+  if (!name || !validRange(range || "*")) {
+    throw new UnjucksError(
+      `Invalid package: ${spec}. Use <name> or <name>@<version range>.`,
+      "INVALID_PACKAGE_SPEC",
+      { spec },
+    );
+  }
+  return { name, range: range || "*" };
+}
+
+/**
+ * Digest of the canonical tarball of a version's files, independent of
+ * their order. The marketplace computes the same value on publish.
+ */
+export function computeIntegrity(files: PackageFile[]): string {
+  const tarball = createTarball(files);
+  return `sha256-${createHash("sha256").update(tarball).digest("base64")}`;
+}
+
+export function verifyIntegrity(version: PackageVersion): void {
+  const actual = computeIntegrity(version.files);
+  if (actual !== version.integrity) {
+    throw new UnjucksError(
+      `${version.name}@${version.version} does not match its integrity digest, refusing to install it`,
+      "INTEGRITY_MISMATCH",
+      { expected: version.integrity, actual },
+    );
+  }
+}
+
+export async function fetchPackage(
+  registry: string,
+  name: string,
+): Promise<RegistryPackage> {
+  const url = `${registry.replace(/\/+$/, "")}/api/registry/${encodeURIComponent(name)}`;
+  try {
+    const response = await ofetch<{ data?: RegistryPackage } & RegistryPackage>(
+      url,
+      { retry: 1 },
+    );
+    // Marketplace routes wrap their payload in `{ success, data }`
+    return response.data ?? response;
+  } catch (error) {
+    if (error instanceof FetchError && error.statusCode === 404) {
+      throw new UnjucksError(
+        `Package ${name} was not found in ${registry}`,
+        "PACKAGE_NOT_FOUND",
+        { name, registry },
+      );
+    }
+    throw new UnjucksError(
+      `Failed to reach the registry ${registry}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "REGISTRY_ERROR",
+      { name, registry, error },
+    );
+  }
+}
+
+/**
+ * The highest version of `name` in `range`
+ */
+export async function resolvePackage(
+  registry: string,
+  name: string,
+  range = "*",
+): Promise<PackageVersion> {
+  const { versions } = await fetchPackage(registry, name);
+  const version = maxSatisfying(Object.keys(versions), range);
+  if (!version) {
+    const available = Object.keys(versions).sort(compareVersions);
+    throw new UnjucksError(
+      `No version of ${name} matches ${range}. Available: ${available.join(", ") || "none"}`,
+      "VERSION_NOT_FOUND",
+      { name, range, available },
+    );
+  }
+  return { ...versions[version], name, version };
+}
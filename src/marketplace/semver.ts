@@ -0,0 +1,241 @@
+/**
+ * The part of semver needed to pick a package version: `1.2.3`, `^1.2`,
+ * `~1.2.3`, `>=1.0.0 <2`, `1.x`, `*` and `||` alternatives.
+ */
+
+interface Version {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+type Comparator = { operator: string; version: Version };
+
+const VERSION_RE =
+  /^v?(\d+)\.(\d+)\.(\d+)(?:-([\da-z.-]+))?(?:\+[\da-z.-]+)?$/i;
+const PARTIAL_RE =
+  /^v?(\d+|[*x])(?:\.(\d+|[*x]))?(?:\.(\d+|[*x]))?(?:-([\da-z.-]+))?$/i;
+
+export function parseVersion(version: string): Version | undefined {
+  const match = VERSION_RE.exec(version.trim());
+  if (!match) {
+    return undefined;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+}
+
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) {
+    throw new Error(`Invalid version: ${left ? b : a}`);
+  }
+  return compare(left, right);
+}
+
+/**
+ * Whether `version` is in `range`. Prereleases only match ranges that name
+ * a prerelease of the same version.
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    return false;
+  }
+  return parseRange(range).some(
+    (comparators) =>
+      comparators.every((comparator) => test(parsed, comparator)) &&
+      (parsed.prerelease.length === 0 ||
+        comparators.some(
+          ({ version }) =>
+            version.prerelease.length > 0 &&
+            version.major === parsed.major &&
+            version.minor === parsed.minor &&
+            version.patch === parsed.patch,
+        )),
+  );
+}
+
+/**
+ * The highest of `versions` in `range`
+ */
+export function maxSatisfying(
+  versions: string[],
+  range: string,
+): string | undefined {
+  return versions
+    .filter((version) => satisfies(version, range))
+    .sort(compareVersions)
+    .at(-1);
+}
+
+export function validRange(range: string): boolean {
+  try {
+    parseRange(range);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseRange(range: string): Comparator[][] {
+  return range.split("||").map((part) => {
+    const tokens = part
+      .trim()
+      // `>= 1.2` is `>=1.2`
+      .replace(/([<>=~^]+)\s+/g, "$1")
+      .split(/\s+/)
+      .filter(Boolean);
+
+    // `1.2 - 2.3` is `>=1.2 <=2.3`
+    if (tokens.length === 3 && tokens[1] === "-") {
+      return [...expand(">=", tokens[0]), ...expand("<=", tokens[2])];
+    }
+    if (tokens.length === 0) {
+      return [];
+    }
+    return tokens.flatMap((token) => {
+      const [, operator = "", version] = /^(\^|~|[<>]=?|=)?(.*)$/.exec(token)!;
+      return expand(operator, version);
+    });
+  });
+}
+
+/**
+ * Turns one range token into comparators on full versions
+ */
+function expand(operator: string, partial: string): Comparator[] {
+  const [major, minor, patch, prerelease] = partialParts(partial);
+  const from = (a = 0, b = 0, c = 0, pre: string[] = []): Version => ({
+    major: a,
+    minor: b,
+    patch: c,
+    prerelease: pre,
+  });
+  const pre = prerelease ? prerelease.split(".") : [];
+
+  if (major === undefined) {
+    // `*` and `x` match everything
+    return operator === "<" || operator === ">"
+      ? [{ operator: "<", version: from(0, 0, 0) }]
+      : [];
+  }
+  const low = from(major, minor, patch, pre);
+
+  // The version right after the range a partial version stands for
+  const next =
+    minor === undefined
+      ? from(major + 1)
+      : patch === undefined
+        ? from(major, minor + 1)
+        : undefined;
+
+  switch (operator) {
+    case "^": {
+      const upper =
+        major > 0 || minor === undefined
+          ? from(major + 1)
+          : minor > 0 || patch === undefined
+            ? from(0, minor + 1)
+            : from(0, 0, (patch ?? 0) + 1);
+      return [
+        { operator: ">=", version: low },
+        { operator: "<", version: upper },
+      ];
+    }
+    case "~": {
+      const upper =
+        minor === undefined ? from(major + 1) : from(major, minor + 1);
+      return [
+        { operator: ">=", version: low },
+        { operator: "<", version: upper },
+      ];
+    }
+    case ">":
+      return [
+        next ? { operator: ">=", version: next } : { operator, version: low },
+      ];
+    case "<=":
+      return [
+        next ? { operator: "<", version: next } : { operator, version: low },
+      ];
+    case "<":
+    case ">=":
+      return [{ operator, version: low }];
+    default:
+      return next
+        ? [
+            { operator: ">=", version: low },
+            { operator: "<", version: next },
+          ]
+        : [{ operator: "=", version: low }];
+  }
+}
+
+function partialParts(partial: string): [number?, number?, number?, string?] {
+  const match = PARTIAL_RE.exec(partial);
+  if (!match) {
+    throw new Error(`Invalid version range: ${partial}`);
+  }
+  const number = (part?: string) =>
+    part === undefined || /^[*x]$/i.test(part) ? undefined : Number(part);
+  const major = number(match[1]);
+  const minor = major === undefined ? undefined : number(match[2]);
+  const patch = minor === undefined ? undefined : number(match[3]);
+  return [major, minor, patch, patch === undefined ? undefined : match[4]];
+}
+
+function test(version: Version, { operator, version: bound }: Comparator) {
+  const order = compare(version, bound);
+  switch (operator) {
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    default:
+      return order === 0;
+  }
+}
+
+function compare(a: Version, b: Version): number {
+  for (const key of ["major", "minor", "patch"] as const) {
+    if (a[key] !== b[key]) {
+      return a[key] - b[key];
+    }
+  }
+  // A release comes after its prereleases
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+    if (left === undefined || right === undefined) {
+      return left === undefined ? -1 : 1;
+    }
+    if (left === right) {
+      continue;
+    }
+    const numeric = /^\d+$/.test(left) && /^\d+$/.test(right);
+    return numeric
+      ? Number(left) - Number(right)
+      : /^\d+$/.test(left)
+        ? -1
+        : /^\d+$/.test(right)
+          ? 1
+          : left < right
+            ? -1
+            : 1;
+  }
+  return 0;
+}
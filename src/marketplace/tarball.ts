@@ -0,0 +1,74 @@
+/**
+ * Canonical tarball of a marketplace item
+ *
+ * The digest of a version is taken over a ustar archive of its files built
+ * the same way on every machine: entries sorted by path under `package/`,
+ * fixed modes, zero timestamps and owners. The marketplace builds the same
+ * bytes (`server/utils/integrity.ts`) when an item is published.
+ */
+
+import type { PackageFile } from "./registry.js";
+
+const BLOCK = 512;
+
+export function createTarball(files: PackageFile[]): Buffer {
+  const blocks: Buffer[] = [];
+  const sorted = [...files].sort((a, b) =>
+    a.path < b.path ? -1 : a.path > b.path ? 1 : 0,
+  );
+  for (const file of sorted) {
+    const directory = file.type === "directory";
+    const path = `package/${file.path.replace(/\/+$/, "")}${directory ? "/" : ""}`;
+    const content = Buffer.from(directory ? "" : file.content, "utf8");
+    blocks.push(header(path, content.length, directory), content);
+    blocks.push(Buffer.alloc((BLOCK - (content.length % BLOCK)) % BLOCK));
+  }
+  // End of archive
+  blocks.push(Buffer.alloc(BLOCK * 2));
+  return Buffer.concat(blocks);
+}
+
+function header(path: string, size: number, directory: boolean): Buffer {
+  const block = Buffer.alloc(BLOCK);
+  const [prefix, name] = splitPath(path);
+  block.write(name, 0, 100, "utf8");
+  block.write(directory ? "0000755\0" : "0000644\0", 100, "ascii");
+  block.write("0000000\0", 108, "ascii");
+  block.write("0000000\0", 116, "ascii");
+  block.write(`${size.toString(8).padStart(11, "0")}\0`, 124, "ascii");
+  block.write("00000000000\0", 136, "ascii");
+  block.write(directory ? "5" : "0", 156, "ascii");
+  block.write("ustar\u000000", 257, "ascii");
+  block.write(prefix, 345, 155, "utf8");
+
+  // Checksum of the header with its own field read as spaces
+  block.fill(" ", 148, 156);
+  let checksum = 0;
+  for (const byte of block) {
+    checksum += byte;
+  }
+  block.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148, "ascii");
+  return block;
+}
+
+/**
+ * ustar keeps 100 bytes for the name, longer paths are split at a slash
+ * into a prefix of up to 155 bytes and the name
+ */
+function splitPath(path: string): [string, string] {
+  if (Buffer.byteLength(path) <= 100) {
+    return ["", path];
+  }
+  for (let at = path.indexOf("/"); at !== -1; at = path.indexOf("/", at + 1)) {
+    const prefix = path.slice(0, at);
+    const name = path.slice(at + 1);
+    if (
+      name &&
+      Buffer.byteLength(prefix) <= 155 &&
+      Buffer.byteLength(name) <= 100
+    ) {
+      return [prefix, name];
+    }
+  }
+  throw new Error(`Path is too long for a package: ${path}`);
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { ArgType, ArgsDef } from "./types";
 
 interface OntologyTriple {
   subject: string;
@@ -82,6 +83,48 @@ function argTypeToZodSchema(arg: ParsedArgument): z.ZodTypeAny {
   return schema;
 }
 
+/**
+ * Converts an ontology argument to the source code of its Zod schema
+ */
+function argTypeToZodSource(arg: ParsedArgument): string {
+  let source: string;
+
+  switch (arg.type) {
+    case "number": {
+      source = "z.number()";
+      break;
+    }
+    case "boolean": {
+      source = "z.boolean()";
+      break;
+    }
+    case "enum": {
+      source =
+        arg.options && arg.options.length > 0
+          ? `z.enum(${JSON.stringify(arg.options)})`
+          : "z.string()";
+      break;
+    }
+    default: {
+      source = "z.string()";
+    }
+  }
+
+  if (arg.description) {
+    source += `.describe(${JSON.stringify(arg.description)})`;
+  }
+
+  if (!arg.required && arg.default === undefined) {
+    source += ".optional()";
+  }
+
+  if (arg.default !== undefined) {
+    source += `.default(${JSON.stringify(arg.default)})`;
+  }
+
+  return source;
+}
+
 /**
  * Converts a parsed command to a Zod schema
  */
@@ -262,7 +305,8 @@ function buildCommandFromTriples(
       argsMap.has(triple.subject)
     ) {
       const arg = argsMap.get(triple.subject)!;
-      arg.required = triple.object === "true";
+      // Strip a trailing datatype such as `"true"^^xsd:boolean`
+      arg.required = triple.object.replace(/"?\^\^.*$/, "") === "true";
     }
 
     if (
@@ -360,6 +404,72 @@ export function ontologyToZod(ontology: string): z.ZodObject<any> | undefined {
   }
 }
 
+/**
+ * Converts an ontology string to command arguments validated by their Zod schema
+ */
+export function ontologyToArgs(ontology: string): ArgsDef | undefined {
+  const command = buildCommandFromTriples(parseTurtleTriples(ontology));
+  if (!command) {
+    return undefined;
+  }
+
+  const args: ArgsDef = {};
+  for (const arg of command.args) {
+    if (!arg.name) {
+      continue;
+    }
+    args[arg.name] = {
+      type: arg.type as ArgType,
+      description: arg.description,
+      required: arg.required,
+      default: arg.default,
+      alias: arg.alias,
+      options: arg.options,
+      valueHint: arg.valueHint,
+      schema: argTypeToZodSchema(arg),
+    };
+  }
+  return args;
+}
+
+/**
+ * Generates the source code of `ArgsDef` entries, including their Zod schema,
+ * for the main command of an ontology
+ */
+export function ontologyToArgsSource(ontology: string, indent = "    "): string {
+  const command = buildCommandFromTriples(parseTurtleTriples(ontology));
+  const lines: string[] = [];
+
+  for (const arg of command?.args || []) {
+    if (!arg.name) {
+      continue;
+    }
+    const props: string[] = [`type: ${JSON.stringify(arg.type)}`];
+    if (arg.description) {
+      props.push(`description: ${JSON.stringify(arg.description)}`);
+    }
+    if (arg.required !== undefined) {
+      props.push(`required: ${arg.required}`);
+    }
+    if (arg.default !== undefined) {
+      props.push(`default: ${JSON.stringify(arg.default)}`);
+    }
+    if (arg.alias) {
+      props.push(`alias: ${JSON.stringify(arg.alias)}`);
+    }
+    if (arg.options) {
+      props.push(`options: ${JSON.stringify(arg.options)}`);
+    }
+    props.push(`schema: ${argTypeToZodSource(arg)}`);
+    const key = /^[$A-Z_a-z][\w$]*$/.test(arg.name)
+      ? arg.name
+      : JSON.stringify(arg.name);
+    lines.push(`${indent}${key}: { ${props.join(", ")} },`);
+  }
+
+  return lines.join("\n");
+}
+
 /**
  * Create a Zod schema for command generation
  */
@@ -6,6 +6,7 @@ import type {
   TemplateContext 
 } from './types.js';
 import { OntologyError } from './types.js';
+import { ontologyToArgsSource } from './ontology-to-zod.js';
 
 // Note: untology package not available in npm registry
 // This is a basic implementation without untology integration
@@ -632,9 +633,12 @@ export async function fromOntology(ontology: string): Promise<string> {
     }
   }
   
-  // Generate TypeScript code
-  const tsCode = `import { defineCommand } from 'citty';
+  // Arguments carry their Zod schema so `parseArgs` validates them
+  const argsSource = ontologyToArgsSource(ontology);
 
+  // Generate TypeScript code
+  const tsCode = `import { defineCommand } from '@unjs/unjucks';
+${argsSource ? "import { z } from 'zod';\n" : ''}
 /**
  * ${commandDescription || 'Generated command from ontology'}
  */
@@ -644,7 +648,7 @@ export const ${commandName.replace(/-/g, '')}Command = defineCommand({
     description: '${commandDescription || 'Generated command from ontology'}'
   },
   args: {
-    // TODO: Add arguments based on ontology
+${argsSource || '    // TODO: Add arguments based on ontology'}
   },
   async run({ args }) {
     console.log('Executing ${commandName} command with:', args);
@@ -84,7 +84,7 @@ export interface PluginRegistry {
  */
 export class PluginManager extends EventEmitter {
   private plugins = new Map<string, PluginRegistry>();
-  private hooks = new Map<keyof PluginHooks, Array<{ plugin: string; handler: Function; priority: number }>>>();
+  private hooks = new Map<keyof PluginHooks, Array<{ plugin: string; handler: Function; priority: number }>>();
   private middleware: Array<{ plugin: string; middleware: PluginMiddleware }> = [];
   private context: PluginContext;
   
@@ -503,7 +503,7 @@ export const pluginCommand = defineCommand({
         
         try {
           console.log(`Installing plugin: ${args.plugin}`);
-          await manager.load(args.plugin);
+          await manager.load(args.plugin as string);
           console.log('✅ Plugin installed successfully!');
         } catch (error) {
           console.error(`❌ Failed to install plugin: ${error.message}`);
@@ -528,7 +528,7 @@ export const pluginCommand = defineCommand({
         
         try {
           console.log(`Uninstalling plugin: ${args.name}`);
-          await manager.unregister(args.name);
+          await manager.unregister(args.name as string);
           console.log('✅ Plugin uninstalled successfully!');
         } catch (error) {
           console.error(`❌ Failed to uninstall plugin: ${error.message}`);
@@ -552,7 +552,7 @@ export const pluginCommand = defineCommand({
         const manager = new PluginManager();
         
         try {
-          await manager.setEnabled(args.name, true);
+          await manager.setEnabled(args.name as string, true);
           console.log(`✅ Plugin '${args.name}' enabled`);
         } catch (error) {
           console.error(`❌ Failed to enable plugin: ${error.message}`);
@@ -576,7 +576,7 @@ export const pluginCommand = defineCommand({
         const manager = new PluginManager();
         
         try {
-          await manager.setEnabled(args.name, false);
+          await manager.setEnabled(args.name as string, false);
           console.log(`❌ Plugin '${args.name}' disabled`);
         } catch (error) {
           console.error(`❌ Failed to disable plugin: ${error.message}`);
@@ -592,13 +592,12 @@ export const pluginCommand = defineCommand({
       args: {
         directories: {
           type: 'string',
-          description: 'Directories to search',
-          multiple: true
+          description: 'Directories to search, comma separated'
         }
       },
       async run({ args }) {
         const manager = new PluginManager();
-        const directories = args.directories || ['./plugins', './node_modules'];
+        const directories = args.directories ? String(args.directories).split(',') : ['./plugins', './node_modules'];
         
         console.log('Discovering plugins...');
         
@@ -641,7 +640,7 @@ export const createPlugin = (definition: Omit<Plugin, 'name' | 'version'> & {
 /**
  * Decorator for plugin commands
  */
-export function pluginCommand(meta: { name: string; description: string }) {
+export function pluginCommandDecorator(meta: { name: string; description: string }) {
   return function(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
     if (!target.constructor.commands) {
       target.constructor.commands = {};
@@ -17,12 +17,13 @@ export function defineAIWrapperCommand<T extends ArgsDef = ArgsDef, Ctx extends
     async run({ args, ctx, cmd }) {
       // Generate plan if planner provided
       const planPrompt = spec.plan ? spec.plan(args, ctx) : null;
+      const model = spec.ai.model ?? ctx?.ai?.model;
       
       // Create wrapped context with AI capabilities
       const wrappedCtx: Ctx = {
         ...ctx,
         ai: {
-          model: spec.ai.model,
+          model,
           async generate(opts) {
             // Use existing AI generator if available
             const baseGen = ctx?.ai?.generate;
@@ -47,7 +48,7 @@ export function defineAIWrapperCommand<T extends ArgsDef = ArgsDef, Ctx extends
               });
             } else {
               // Default implementation for development
-              console.log('[AI] Model:', spec.ai.model.id);
+              console.log('[AI] Model:', model?.id ?? 'default');
               console.log('[AI] Prompt:', opts.prompt);
               console.log('[AI] Tools:', Object.keys(mergedTools).join(', '));
               
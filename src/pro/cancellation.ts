@@ -0,0 +1,43 @@
+// packages/citty-pro/src/cancellation.ts
+import { UnjucksError } from '../types';
+
+/** Rejection of a task or workflow that ran longer than its `timeout` */
+export class TaskTimeoutError extends UnjucksError {
+  constructor(
+    public id: string,
+    public timeout: number,
+    kind: 'Task' | 'Workflow' = 'Task'
+  ) {
+    super(`${kind} ${id} timed out after ${timeout}ms`, 'TASK_TIMEOUT', { id, timeout });
+    this.name = 'TaskTimeoutError';
+  }
+}
+
+/**
+ * Signal aborted along with `parent`, or with `reason()` once `timeout` ms
+ * have passed. Without a timeout it is `parent` itself. `dispose` clears the
+ * timer when the work is done.
+ */
+export function withTimeout(
+  parent: AbortSignal | undefined,
+  timeout: number | undefined,
+  reason: () => unknown
+): { signal?: AbortSignal; dispose: () => void } {
+  if (!timeout) {
+    return { signal: parent, dispose: () => {} };
+  }
+  const controller = new AbortController();
+  const forward = () => controller.abort(parent!.reason);
+  if (parent?.aborted) {
+    forward();
+  }
+  parent?.addEventListener('abort', forward, { once: true });
+  const timer = setTimeout(() => controller.abort(reason()), timeout);
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', forward);
+    }
+  };
+}
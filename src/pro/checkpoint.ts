@@ -0,0 +1,86 @@
+// packages/citty-pro/src/checkpoint.ts
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import type { ArgsDef } from '../types';
+
+/**
+ * Progress of one workflow run, saved after every step so the run can be
+ * resumed where it stopped. `state` goes through JSON in the file store.
+ */
+export interface Checkpoint {
+  runId: string;
+  workflowId: string;
+  status: 'running' | 'failed' | 'completed';
+  state: Record<string, unknown>;
+  /** Steps that ran or were skipped, their output is in `state` */
+  completed: string[];
+  /** Steps that started but did not complete, because they failed or the process died */
+  started: string[];
+  error?: string;
+  updatedAt: string;
+}
+
+export interface CheckpointStore {
+  load(runId: string): Promise<Checkpoint | undefined>;
+  save(checkpoint: Checkpoint): Promise<void>;
+}
+
+// `--resume <runId>`, or CITTY_RESUME, picked up by `runLifecycle`
+export const resumeArgs = {
+  resume: {
+    type: 'string',
+    env: 'CITTY_RESUME',
+    description: 'Resume the workflow run with this id',
+    valueHint: 'runId'
+  }
+} satisfies ArgsDef;
+
+/**
+ * One JSON file per run in `dir`, written to a temporary file first so a
+ * crash never leaves a truncated checkpoint behind
+ */
+export function createFileCheckpointStore(dir = '.citty-pro/runs'): CheckpointStore {
+  const file = (runId: string) => join(dir, `${encodeURIComponent(runId)}.json`);
+
+  return {
+    async load(runId) {
+      try {
+        return JSON.parse(await fs.readFile(file(runId), 'utf-8'));
+      } catch (error) {
+        if ((error as any).code === 'ENOENT') {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+    async save(checkpoint) {
+      const path = file(checkpoint.runId);
+      await fs.mkdir(dirname(path), { recursive: true });
+      await fs.writeFile(`${path}.tmp`, JSON.stringify(checkpoint, null, 2));
+      await fs.rename(`${path}.tmp`, path);
+    }
+  };
+}
+
+/**
+ * Keeps checkpoints for the lifetime of the process, e.g. to retry a run
+ * from a long-lived server
+ */
+export function createMemoryCheckpointStore(): CheckpointStore {
+  const checkpoints = new Map<string, string>();
+
+  return {
+    async load(runId) {
+      const checkpoint = checkpoints.get(runId);
+      return checkpoint ? JSON.parse(checkpoint) : undefined;
+    },
+    async save(checkpoint) {
+      checkpoints.set(checkpoint.runId, JSON.stringify(checkpoint));
+    }
+  };
+}
+
+export function createRunId(workflowId: string): string {
+  const slug = workflowId.replace(/[^\w-]+/g, '-').slice(0, 40);
+  return `${slug}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -1,4 +1,5 @@
 // packages/citty-pro/src/context.ts
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { createContext } from 'unctx';
 import type { RunCtx } from '../types/citty-pro';
 
@@ -22,7 +23,7 @@ export interface CittyProContext extends RunCtx {
 export const cittyContext = createContext<CittyProContext>({
   name: 'citty-pro',
   asyncContext: true,
-  AsyncLocalStorage: globalThis.AsyncLocalStorage
+  AsyncLocalStorage
 });
 
 // Helper to run with context
@@ -0,0 +1,177 @@
+// packages/citty-pro/src/expression.ts
+//
+// Condition expressions of workflow steps, e.g. `tests.failed == 0 && !env.CI`.
+// Workflows can come from ontology files, so expressions are parsed by hand
+// instead of `new Function`: literals, property access, comparisons, `!`,
+// `&&`, `||` and parentheses, nothing that can call or assign.
+
+type Scope = Record<string, unknown>;
+type Node = (scope: Scope) => unknown;
+
+const TOKEN_RE =
+  /\s*(?:(\d+(?:\.\d+)?)|("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|([A-Za-z_$][\w$]*)|(===|!==|==|!=|<=|>=|&&|\|\||[<>!().[\]-]))/y;
+
+const BLOCKED = new Set(['__proto__', 'prototype', 'constructor']);
+
+const BINARY: Record<string, (a: any, b: any) => unknown> = {
+  '==': (a, b) => a == b,
+  '!=': (a, b) => a != b,
+  '===': (a, b) => a === b,
+  '!==': (a, b) => a !== b,
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b
+};
+
+// Loosest first
+const PRECEDENCE = [['||'], ['&&'], ['==', '!=', '===', '!=='], ['<', '<=', '>', '>=']];
+
+const LITERALS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined
+};
+
+type Token = { type: 'number' | 'string' | 'name' | 'op'; value: string; at: number };
+
+/**
+ * Parses `source` once and returns a function evaluating it against a scope.
+ * Unknown names evaluate to `undefined`, so do missing properties.
+ */
+export function compileExpression(source: string): Node {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const fail = (message: string, at = tokens[index]?.at ?? source.length): never => {
+    throw new Error(`Invalid expression "${source}" at ${at}: ${message}`);
+  };
+  const peek = () => tokens[index];
+  const accept = (value: string) => {
+    if (peek()?.type === 'op' && peek().value === value) {
+      index++;
+      return true;
+    }
+    return false;
+  };
+
+  const binary = (level: number): Node => {
+    if (level === PRECEDENCE.length) {
+      return unary();
+    }
+    let left = binary(level + 1);
+    while (peek()?.type === 'op' && PRECEDENCE[level].includes(peek().value)) {
+      const op = tokens[index++].value;
+      const lhs = left;
+      const rhs = binary(level + 1);
+      left =
+        op === '&&'
+          ? scope => lhs(scope) && rhs(scope)
+          : op === '||'
+            ? scope => lhs(scope) || rhs(scope)
+            : scope => BINARY[op](lhs(scope), rhs(scope));
+    }
+    return left;
+  };
+
+  const unary = (): Node => {
+    if (accept('!')) {
+      const operand = unary();
+      return scope => !operand(scope);
+    }
+    if (accept('-')) {
+      const operand = unary();
+      return scope => -(operand(scope) as number);
+    }
+    return member(primary());
+  };
+
+  const primary = (): Node => {
+    const token = tokens[index++];
+    if (!token) {
+      return fail('unexpected end');
+    }
+    if (token.type === 'number') {
+      const value = Number(token.value);
+      return () => value;
+    }
+    if (token.type === 'string') {
+      const value = token.value.slice(1, -1).replace(/\\(.)/g, '$1');
+      return () => value;
+    }
+    if (token.type === 'name') {
+      if (token.value in LITERALS) {
+        const value = LITERALS[token.value];
+        return () => value;
+      }
+      return scope => read(scope, token.value);
+    }
+    if (token.value === '(') {
+      const inner = binary(0);
+      if (!accept(')')) {
+        fail('expected ")"');
+      }
+      return inner;
+    }
+    return fail(`unexpected "${token.value}"`, token.at);
+  };
+
+  const member = (object: Node): Node => {
+    while (true) {
+      if (accept('.')) {
+        const name = tokens[index++];
+        if (name?.type !== 'name') {
+          fail('expected a property name');
+        }
+        const target = object;
+        object = scope => read(target(scope), name.value);
+      } else if (accept('[')) {
+        const key = binary(0);
+        if (!accept(']')) {
+          fail('expected "]"');
+        }
+        const target = object;
+        object = scope => read(target(scope), String(key(scope)));
+      } else {
+        return object;
+      }
+    }
+  };
+
+  const root = binary(0);
+  if (index < tokens.length) {
+    fail(`unexpected "${tokens[index].value}"`);
+  }
+  return root;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_RE.lastIndex = 0;
+  while (source.slice(TOKEN_RE.lastIndex).trim()) {
+    const at = TOKEN_RE.lastIndex;
+    const match = TOKEN_RE.exec(source);
+    if (!match) {
+      throw new Error(`Invalid expression "${source}" at ${at}: unexpected character`);
+    }
+    const [, number, string, name, op] = match;
+    tokens.push(
+      number !== undefined
+        ? { type: 'number', value: number, at }
+        : string !== undefined
+          ? { type: 'string', value: string, at }
+          : name !== undefined
+            ? { type: 'name', value: name, at }
+            : { type: 'op', value: op, at }
+    );
+  }
+  return tokens;
+}
+
+function read(object: unknown, key: string): unknown {
+  if (object === null || object === undefined || BLOCKED.has(key)) {
+    return undefined;
+  }
+  return (object as Record<string, unknown>)[key];
+}
@@ -1,9 +1,25 @@
 // packages/citty-pro/src/hooks.ts
 import { createHooks } from 'hookable';
-import type { HookPayload, Hooks } from '../types/citty-pro';
+import type { HookName, HookPayload, Hooks } from '../types/citty-pro';
+import type { ArgsDef } from '../types';
+import { parseArgs } from '../args';
+
+// `--debug` / CITTY_DEBUG resolve through the regular argument fallbacks
+const debugArgs = {
+  debug: {
+    type: 'boolean',
+    env: 'CITTY_DEBUG',
+    description: 'Log every hook call'
+  }
+} satisfies ArgsDef;
+
+const isDebug = (argv: string[] = []) => parseArgs(argv, debugArgs).debug === true;
+
+// hookable types hooks by their handler
+type HookHandlers = { [K in HookName]: (payload: HookPayload[K]) => any };
 
 // Create the global hooks instance
-export const hooks = createHooks<HookPayload>();
+export const hooks = createHooks<HookHandlers>();
 
 // Export typed hooks interface
 export const typedHooks: Hooks = {
@@ -18,20 +34,20 @@ export const typedHooks: Hooks = {
 export function registerCoreHooks() {
   // Register lifecycle tracking
   hooks.beforeEach((event) => {
-    if (process.env.CITTY_DEBUG) {
+    if (isDebug()) {
       console.log(`[HOOK] Before: ${event.name}`);
     }
   });
   
   hooks.afterEach((event) => {
-    if (process.env.CITTY_DEBUG) {
+    if (isDebug()) {
       console.log(`[HOOK] After: ${event.name}`);
     }
   });
   
   // Core error handling
   hooks.hook('cli:boot', async ({ argv }) => {
-    if (argv.includes('--debug')) {
+    if (isDebug(argv)) {
       process.env.CITTY_DEBUG = 'true';
     }
   });
@@ -2,7 +2,26 @@
 export { hooks, registerCoreHooks, typedHooks } from './hooks';
 export { runLifecycle } from './lifecycle';
 export { defineTask } from './task';
-export { defineWorkflow } from './workflow';
+export {
+  defineWorkflow,
+  retryDelay,
+  type WorkflowStep,
+  type RetryPolicy,
+  type BackoffStrategy,
+  type ReplayQuestion,
+  type ResumableWorkflow
+} from './workflow';
+export {
+  createFileCheckpointStore,
+  createMemoryCheckpointStore,
+  createRunId,
+  resumeArgs,
+  type Checkpoint,
+  type CheckpointStore
+} from './checkpoint';
+export { compileExpression } from './expression';
+export { TaskTimeoutError } from './cancellation';
+export { createFileCacheStore, createMemoryCacheStore, cacheArgs } from './task-cache';
 export { defineAIWrapperCommand } from './ai-wrapper-command';
 export { 
   cittyContext,
@@ -103,6 +122,9 @@ export type {
   // Task types
   TaskSpec,
   Task,
+  TaskCacheOptions,
+  TaskCacheStore,
+  CachedResult,
   
   // Workflow types
   StepFn,
@@ -110,6 +132,7 @@ export type {
   WorkflowSeed,
   Workflow,
   WithKey,
+  WorkflowState,
   
   // AI types
   AITool,
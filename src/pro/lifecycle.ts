@@ -1,16 +1,44 @@
 // packages/citty-pro/src/lifecycle.ts
+import { kebabCase } from 'scule';
 import { hooks } from './hooks';
-import type { RunLifecycleOptions, RunCtx, Output, ArgsDef } from '../types/citty-pro';
+import { parseArgs } from '../args';
+import { resolveSubCommand, runCommand } from '../command';
+import { resolveValue } from '../_utils';
+import { resumeArgs } from './checkpoint';
+import { cacheArgs } from './task-cache';
+import { applyPlugins } from './plugins';
+import { withContext, type CittyProContext } from './context';
+import type { CommandDef } from '../types';
+import type { RunLifecycleOptions, RunCtx, Output, ArgsDef, Plugin } from '../types/citty-pro';
+
+export interface CommandLifecycleOptions {
+  rawArgs: string[];
+  interactive?: boolean;
+  /** Applied after the registered plugins */
+  plugins?: Plugin[];
+  /** Becomes `ctx.signal` */
+  signal?: AbortSignal;
+}
 
 export async function runLifecycle<TArgs extends ArgsDef = ArgsDef, Ctx extends RunCtx = RunCtx>({
   cmd,
   args,
   ctx,
-  runStep
+  runStep,
+  rawArgs = process.argv.slice(2),
+  plugins = [],
+  reportErrors = true
 }: RunLifecycleOptions<TArgs, Ctx>): Promise<void> {
+  // Filled in phase 3, plugins get it first so the context they extend
+  // is the one steps run with
+  const baseCtx = { ...(ctx as any) } as RunCtx;
   try {
+    for (const plugin of plugins) {
+      await plugin(hooks, baseCtx);
+    }
+
     // Phase 1: Boot
-    await hooks.callHook('cli:boot', { argv: process.argv.slice(2) });
+    await hooks.callHook('cli:boot', { argv: rawArgs });
     
     // Phase 2: Configuration
     const config = { 
@@ -21,12 +49,14 @@ export async function runLifecycle<TArgs extends ArgsDef = ArgsDef, Ctx extends
     await hooks.callHook('config:load', { config });
     
     // Phase 3: Context setup
-    const baseCtx: RunCtx = {
-      cwd: config.cwd as string,
-      env: config.env as Record<string, string | undefined>,
-      now: () => new Date(),
-      ...(ctx as any)
-    };
+    baseCtx.cwd ??= config.cwd as string;
+    baseCtx.env ??= config.env as Record<string, string | undefined>;
+    baseCtx.now ??= () => new Date();
+    // Set by `runCommandLifecycle` when the command has flags of the same name
+    if (!('resume' in baseCtx)) {
+      baseCtx.resume = parseArgs(rawArgs, resumeArgs).resume;
+    }
+    baseCtx.cache ??= parseArgs(rawArgs, cacheArgs).cache;
     await hooks.callHook('ctx:ready', { ctx: baseCtx });
     
     // Phase 4: Arguments
@@ -68,10 +98,17 @@ export async function runLifecycle<TArgs extends ArgsDef = ArgsDef, Ctx extends
     await hooks.callHook('cli:done', null);
     
   } catch (error) {
+    if (!reportErrors) {
+      throw error;
+    }
     // Error handling with hooks
     const errorOutput: Output = {
       text: `Error: ${error instanceof Error ? error.message : String(error)}`
     };
+    // Set by checkpointed workflows
+    if ((error as any)?.runId) {
+      errorOutput.text += `\nResume with --resume ${(error as any).runId}`;
+    }
     
     await hooks.callHook('output:will:emit', { out: errorOutput });
     console.error(errorOutput.text);
@@ -79,4 +116,86 @@ export async function runLifecycle<TArgs extends ArgsDef = ArgsDef, Ctx extends
     
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Runs a regular command inside the lifecycle: registered plugins and
+ * `plugins` are applied, every phase calls its hooks and the command gets
+ * the run context as `ctx`, also available through `useContext()`. A
+ * returned `Output` is emitted like the one of any step.
+ */
+export async function runCommandLifecycle<T extends ArgsDef = ArgsDef>(
+  cmd: CommandDef<T>,
+  { rawArgs, interactive, plugins = [], signal }: CommandLifecycleOptions
+): Promise<void> {
+  // Read by the lifecycle, so that strict commands do not reject them,
+  // unless the command declares flags of the same name: those are its own
+  const lifecycleArgs: ArgsDef = { ...resumeArgs, ...cacheArgs };
+  const [command] = await resolveSubCommand(cmd, withoutArgs(rawArgs, lifecycleArgs));
+  const meta = await resolveValue(command.meta || {});
+  const declared = await resolveValue(command.args || {});
+  const commandArgs = withoutArgs(rawArgs, pickArgs(lifecycleArgs, name => !(name in declared)));
+  // The environment fallbacks are still read for the flags of the command
+  const runArgs = withoutArgs(rawArgs, pickArgs(declared, name => name in lifecycleArgs));
+  const ctx: Partial<CittyProContext> = {
+    resume: parseArgs(runArgs, resumeArgs).resume,
+    cache: parseArgs(runArgs, cacheArgs).cache,
+    signal,
+    state: new Map(),
+    plugins: new Set(),
+    session: {
+      id: Math.random().toString(36).substring(2, 15),
+      startTime: new Date()
+    }
+  };
+
+  await runLifecycle({
+    cmd: { meta },
+    args: { _: commandArgs } as any,
+    ctx: ctx as CittyProContext,
+    rawArgs,
+    plugins: [applyPlugins, ...plugins],
+    // `runMain` reports errors with its own hints and exit codes
+    reportErrors: false,
+    runStep: runCtx =>
+      withContext(runCtx, async () => {
+        const { result } = await runCommand(cmd, { rawArgs: commandArgs, interactive, ctx: runCtx, signal });
+        return (result && typeof result === 'object' ? result : {}) as Output;
+      })
+  });
+}
+
+function pickArgs(argsDef: ArgsDef, filter: (name: string) => boolean): ArgsDef {
+  return Object.fromEntries(Object.entries(argsDef).filter(([name]) => filter(name)));
+}
+
+// `rawArgs` without the flags of `argsDef` and their values
+function withoutArgs(rawArgs: string[], argsDef: ArgsDef): string[] {
+  const flags = new Map<string, boolean>();
+  for (const [name, arg] of Object.entries(argsDef)) {
+    const takesValue = arg.type !== 'boolean';
+    for (const flag of new Set([name, kebabCase(name)])) {
+      flags.set(`--${flag}`, takesValue);
+      if (!takesValue) {
+        flags.set(`--no-${flag}`, false);
+      }
+    }
+  }
+
+  const result: string[] = [];
+  for (let i = 0; i < rawArgs.length; i++) {
+    const arg = rawArgs[i];
+    if (arg === '--') {
+      result.push(...rawArgs.slice(i));
+      break;
+    }
+    const [flag] = arg.split('=', 1);
+    if (!flags.has(flag)) {
+      result.push(arg);
+    } else if (flags.get(flag) && !arg.includes('=') && !(rawArgs[i + 1] ?? '-').startsWith('-')) {
+      // The value of `--resume <runId>`
+      i++;
+    }
+  }
+  return result;
+}
@@ -69,7 +69,7 @@ export function createAINotesPlugin(options: AINotesPluginOptions = {}): Plugin
     });
     
     // Generate summary report
-    h.hook('report:did', async ({ out }) => {
+    h.hook('report:will', async ({ out }) => {
       const timestamp = includeTimestamp ? new Date().toISOString() : '';
       const contextInfo = includeContext ? ` [cwd: ${ctx.cwd}]` : '';
       
@@ -1,5 +1,6 @@
 // packages/citty-pro/src/plugins/index.ts
 import type { Plugin, RunCtx, Hooks } from '../../types/citty-pro';
+import type { CittyProContext } from '../context';
 
 // Plugin registry
 const plugins: Map<string, Plugin> = new Map();
@@ -22,9 +23,7 @@ export async function applyPlugins(hooks: Hooks, ctx: RunCtx): Promise<void> {
   for (const [name, plugin] of plugins) {
     try {
       await plugin(hooks, ctx);
-      if (ctx.plugins) {
-        (ctx as any).plugins.add(name);
-      }
+      (ctx as CittyProContext).plugins?.add(name);
     } catch (error) {
       console.error(`Failed to apply plugin "${name}":`, error);
     }
@@ -0,0 +1,107 @@
+// packages/citty-pro/src/task-cache.ts
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { dirname, join, resolve } from 'path';
+import type { ArgsDef } from '../types';
+import type { CachedResult, RunCtx, TaskCacheOptions, TaskCacheStore } from '../types/citty-pro';
+
+// `--no-cache`, or CITTY_CACHE=false, picked up by `runLifecycle`
+export const cacheArgs = {
+  cache: {
+    type: 'boolean',
+    default: true,
+    env: 'CITTY_CACHE',
+    description: 'Reuse cached task results',
+    negativeDescription: 'Run every task, cached results are replaced'
+  }
+} satisfies ArgsDef;
+
+/**
+ * One JSON file per key in `dir`, written to a temporary file first like
+ * checkpoints. Results must survive `JSON.stringify`.
+ */
+export function createFileCacheStore(dir = '.citty-pro/cache'): TaskCacheStore {
+  const file = (key: string) => join(dir, `${key}.json`);
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await fs.readFile(file(key), 'utf-8'));
+      } catch (error) {
+        if ((error as any).code === 'ENOENT') {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+    async set(key, entry) {
+      const path = file(key);
+      await fs.mkdir(dirname(path), { recursive: true });
+      await fs.writeFile(`${path}.tmp`, JSON.stringify(entry));
+      await fs.rename(`${path}.tmp`, path);
+    }
+  };
+}
+
+/** Keeps results in `memo`, e.g. `ctx.memo` to share them for one run */
+export function createMemoryCacheStore(memo: Record<string, unknown> = {}): TaskCacheStore {
+  return {
+    async get(key) {
+      return memo[`task-cache:${key}`] as CachedResult | undefined;
+    },
+    async set(key, entry) {
+      memo[`task-cache:${key}`] = entry;
+    }
+  };
+}
+
+/**
+ * Hash of everything the result of a task depends on: its id, the
+ * validated input, the `key` of the options and the content of `files`
+ */
+export async function taskCacheKey<TIn, Ctx extends RunCtx>(
+  id: string,
+  input: TIn,
+  options: TaskCacheOptions<TIn, Ctx>,
+  ctx: Ctx
+): Promise<string> {
+  const files = typeof options.files === 'function' ? options.files(input, ctx) : options.files || [];
+  const digests: Record<string, string | null> = {};
+  for (const file of files) {
+    digests[file] = await digestFile(resolve(ctx?.cwd || '.', file));
+  }
+  return createHash('sha256')
+    .update(stableStringify([id, input, options.key?.(input, ctx) ?? null, digests]))
+    .digest('hex');
+}
+
+export function isFresh(entry: CachedResult | undefined, now = Date.now()): entry is CachedResult {
+  return !!entry && (entry.expiresAt === undefined || entry.expiresAt > now);
+}
+
+async function digestFile(path: string): Promise<string | null> {
+  try {
+    return createHash('sha256').update(await fs.readFile(path)).digest('hex');
+  } catch (error) {
+    // A file that appears later changes the key too
+    if ((error as any).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// JSON with sorted keys, so that `{ a, b }` and `{ b, a }` share a key
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value)
+      .filter(key => (value as any)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -1,13 +1,22 @@
 // packages/citty-pro/src/task.ts
 import { hooks } from './hooks';
-import type { TaskSpec, Task, RunCtx } from '../types/citty-pro';
+import { abortable } from '../_utils';
+import { TaskTimeoutError, withTimeout } from './cancellation';
+import { createMemoryCacheStore, isFresh, taskCacheKey } from './task-cache';
+import type { TaskSpec, Task, RunCtx, TaskCacheStore } from '../types/citty-pro';
 import { z } from 'zod';
 
 export function defineTask<TIn = unknown, TOut = unknown, Ctx extends RunCtx = RunCtx>(
   spec: TaskSpec<TIn, TOut, Ctx>
 ): Task<TIn, TOut, Ctx> {
+  const cache = spec.cache === true ? {} : spec.cache || undefined;
+  // Used when the context has no `memo` to keep results in
+  const taskStore = createMemoryCacheStore();
+
   return {
     id: spec.id,
+    // Only an explicit `false` makes resumed workflows ask before replaying it
+    idempotent: spec.idempotent !== false,
     async call(input: TIn, ctx: Ctx): Promise<TOut> {
       // Pre-call validation if schema provided
       let validatedInput = input;
@@ -28,12 +37,37 @@ export function defineTask<TIn = unknown, TOut = unknown, Ctx extends RunCtx = R
         input: validatedInput 
       });
       
+      // Cached result, unless `--no-cache`
+      let store: TaskCacheStore | undefined;
+      let cacheKey = '';
+      if (cache) {
+        store = cache.store ?? (ctx?.memo ? createMemoryCacheStore(ctx.memo) : taskStore);
+        cacheKey = await taskCacheKey(spec.id, validatedInput, cache, ctx);
+        const entry = ctx?.cache === false ? undefined : await store.get(cacheKey);
+        if (isFresh(entry)) {
+          await hooks.callHook('task:did:call', {
+            id: spec.id,
+            res: { ...(entry.value as any), __duration: 0 },
+            cache: 'hit'
+          });
+          return entry.value as TOut;
+        }
+      }
+      
       // Execute task with timing
       const startTime = performance.now();
       let result: TOut;
+      const { signal, dispose } = withTimeout(
+        ctx?.signal,
+        spec.timeout,
+        () => new TaskTimeoutError(spec.id, spec.timeout!)
+      );
+      // Tasks with a timeout get their own signal
+      const runCtx = signal === ctx?.signal ? ctx : { ...ctx, signal };
       
       try {
-        result = await spec.run(validatedInput, ctx);
+        signal?.throwIfAborted();
+        result = await abortable(spec.run(validatedInput, runCtx), signal);
         
         // Post-call validation if schema provided
         if (spec.out) {
@@ -48,19 +82,35 @@ export function defineTask<TIn = unknown, TOut = unknown, Ctx extends RunCtx = R
         }
       } catch (error) {
         // Log error to hooks before rethrowing
-        await hooks.callHook('task:did:call', { 
-          id: spec.id, 
-          res: { error: error instanceof Error ? error.message : String(error) }
-        });
+        if (signal?.aborted) {
+          await hooks.callHook('task:did:cancel', { id: spec.id, reason: signal.reason });
+        } else {
+          await hooks.callHook('task:did:call', { 
+            id: spec.id, 
+            res: { error: error instanceof Error ? error.message : String(error) }
+          });
+        }
         throw error;
+      } finally {
+        dispose();
       }
       
       const duration = performance.now() - startTime;
       
+      if (store) {
+        const createdAt = Date.now();
+        await store.set(cacheKey, {
+          value: result,
+          createdAt,
+          expiresAt: cache!.ttl ? createdAt + cache!.ttl : undefined
+        });
+      }
+      
       // Call post-hook with timing
       await hooks.callHook('task:did:call', { 
         id: spec.id, 
-        res: { ...result as any, __duration: duration }
+        res: { ...result as any, __duration: duration },
+        ...(store && { cache: ctx?.cache === false ? 'bypass' as const : 'miss' as const })
       });
       
       return result;
@@ -8,6 +8,7 @@ import type {
   RunCtx 
 } from '../types/citty-pro';
 import { defineTask, defineWorkflow } from './index';
+import type { RetryPolicy, WorkflowStep } from './workflow';
 
 // ============= Workflow Ontology Schemas =============
 
@@ -118,6 +119,8 @@ export class WorkflowGenerator {
       id: ontology['@id'],
       in: ontology.input?.schema,
       out: ontology.output?.schema,
+      idempotent: ontology.idempotent,
+      timeout: ontology.timeout,
       run: implementation
     });
     
@@ -132,18 +135,35 @@ export class WorkflowGenerator {
     ontology: z.infer<typeof WorkflowOntologySchema>,
     seed?: WorkflowSeed<State, RunCtx>
   ): Workflow<State> {
-    const steps: StepSpec<State, string, any, RunCtx>[] = ontology.steps.map(step => {
+    // `parallel` steps run alongside the step before them, the next other
+    // step waits for all of them
+    let group: string[] = [];
+    let groupDependsOn: string[] = [];
+    const steps: WorkflowStep<State, string, any, RunCtx>[] = ontology.steps.map(step => {
       const task = this.tasks.get(step.taskRef);
       if (!task) {
         throw new Error(`Task ${step.taskRef} not found in registry`);
       }
+
+      let dependsOn: string[];
+      if (step.condition?.type === 'parallel' && group.length > 0) {
+        dependsOn = groupDependsOn;
+        group.push(step.id);
+      } else {
+        dependsOn = group;
+        groupDependsOn = group;
+        group = [step.id];
+      }
       
       return {
         id: step.id,
         use: task,
         select: step.transform?.input 
           ? (state: State) => this.applyJSONPath(state, step.transform!.input!)
-          : undefined
+          : undefined,
+        dependsOn,
+        when: step.condition?.type === 'conditional' ? step.condition.expression : undefined,
+        retry: step.retry as RetryPolicy | undefined
       };
     });
     
@@ -1,52 +1,402 @@
 // packages/citty-pro/src/workflow.ts
-import type { Workflow, WorkflowSeed, StepSpec, RunCtx, WithKey, Task, StepFn } from '../types/citty-pro';
+import consola from 'consola';
+import { join } from 'path';
+import { hooks } from './hooks';
+import { abortable } from '../_utils';
+import { TaskTimeoutError, withTimeout } from './cancellation';
+import { compileExpression } from './expression';
+import { createFileCheckpointStore, createRunId, type Checkpoint, type CheckpointStore } from './checkpoint';
+import type { Workflow, WorkflowSeed, WorkflowState, StepSpec, RunCtx, Task, StepFn } from '../types/citty-pro';
 
+export type BackoffStrategy = 'linear' | 'exponential' | 'fibonacci';
+
+export interface RetryPolicy {
+  /** Attempts in total, the first one included */
+  maxAttempts: number;
+  /** How delays grow from one retry to the next (default linear) */
+  backoff?: BackoffStrategy;
+  /** Delay before the first retry in ms, scaled by `backoff` for the next ones (default 100) */
+  delay?: number;
+  /** Upper bound of a single delay in ms (default 30000) */
+  maxDelay?: number;
+}
+
+export type WorkflowStep<S = any, K extends string = string, V = unknown, Ctx extends RunCtx = RunCtx> =
+  StepSpec<S, K, V, Ctx> & {
+    /**
+     * Ids of the steps to wait for. Without it a step waits for the step
+     * declared before it, `[]` lets it start right away.
+     */
+    dependsOn?: readonly string[];
+    /**
+     * The step is skipped when this is falsy. Strings are expressions over
+     * the state (`lint.errors == 0 && !env.CI`), see `compileExpression`.
+     * Skipped steps count as done for the steps depending on them.
+     */
+    when?: string | ((state: S, ctx: Ctx) => boolean | Promise<boolean>);
+    retry?: RetryPolicy;
+    /**
+     * `false` for steps that must not be repeated blindly: a resumed run
+     * asks before running them again. Defaults to the `idempotent` flag
+     * of the task, then to `true`.
+     */
+    idempotent?: boolean;
+  };
+
+interface StepNode {
+  step: WorkflowStep<any, string, unknown, any>;
+  index: number;
+  dependsOn: number[];
+  dependents: number[];
+  when?: (state: any, ctx: any) => unknown;
+}
+
+/**
+ * Question asked before running again, in a resumed run, a step that is not
+ * idempotent and had started before the run stopped
+ */
+export interface ReplayQuestion {
+  workflow: string;
+  runId: string;
+  step: string;
+}
+
+export type ResumableWorkflow<S, Ctx extends RunCtx = RunCtx> = Workflow<S, Ctx> & {
+  /** Continues a checkpointed run, skipping the steps it completed */
+  resume(runId: string, ctx: Ctx): Promise<S>;
+};
+
+/**
+ * Runs `steps` as a graph: a step starts once the steps it depends on are
+ * done, up to `concurrency` steps at a time. The first step to fail (after
+ * its retries) stops the workflow; steps already running are awaited, then
+ * its error is thrown. Every transition calls a hook: `step:will:run`,
+ * `step:did:run`, `step:did:skip`, `step:will:retry` and `step:did:fail`.
+ *
+ * With `checkpoints`, the state is saved after every step under a run id.
+ * The error of a failed run carries it as `runId`, and `resume(runId)` or
+ * `run()` with `ctx.resume` (`--resume`) continue from there.
+ */
 export function defineWorkflow<
   Ctx extends RunCtx = RunCtx,
   S0 extends Record<string, any> = Record<string, any>,
-  S1K extends string = string,
-  S1V = unknown
+  const Steps extends ReadonlyArray<WorkflowStep<any, string, unknown, Ctx>> = ReadonlyArray<
+    WorkflowStep<any, string, unknown, Ctx>
+  >
 >(spec: {
   id: string;
   seed?: WorkflowSeed<S0, Ctx>;
-  steps: ReadonlyArray<StepSpec<any, S1K, S1V, Ctx>>;
-}): Workflow<WithKey<S0, S1K, S1V>, Ctx> {
+  steps: Steps;
+  /** Steps running at the same time (default 4) */
+  concurrency?: number;
+  /** Milliseconds before the run rejects with a `TaskTimeoutError` and `ctx.signal` aborts */
+  timeout?: number;
+  /** Where runs are saved, `true` for JSON files in `.citty-pro/runs` under `ctx.cwd` */
+  checkpoints?: CheckpointStore | boolean;
+  /** Whether to run a step again, see `ReplayQuestion` (default: asks on the terminal) */
+  confirm?: (question: ReplayQuestion) => boolean | Promise<boolean>;
+}): ResumableWorkflow<WorkflowState<S0, Steps>, Ctx> {
+  type State = WorkflowState<S0, Steps>;
+  const nodes = planSteps(spec.id, spec.steps);
+  const concurrency = Math.max(1, spec.concurrency ?? 4);
+
+  const storeFor = (ctx: Ctx): CheckpointStore | undefined =>
+    spec.checkpoints === true
+      ? createFileCheckpointStore(join(ctx.cwd, '.citty-pro/runs'))
+      : spec.checkpoints || undefined;
+
+  async function execute(ctx: Ctx, state: any, store?: CheckpointStore, checkpoint?: Checkpoint): Promise<State> {
+    const completed = new Set(checkpoint?.completed);
+    const started = new Set(checkpoint?.started);
+    let saving = Promise.resolve();
+    const save = (changes: Partial<Checkpoint> = {}) => {
+      if (!store || !checkpoint) {
+        return saving;
+      }
+      Object.assign(checkpoint, changes, {
+        state: { ...state },
+        completed: [...completed],
+        started: [...started],
+        updatedAt: new Date().toISOString()
+      });
+      // One write at a time, in order, however many steps run
+      const snapshot = JSON.parse(JSON.stringify(checkpoint));
+      saving = saving.then(() => store.save(snapshot));
+      return saving;
+    };
+
+    const isDone = (node: StepNode) => completed.has(node.step.id);
+    const waiting = nodes.map(node => node.dependsOn.filter(index => !isDone(nodes[index])).length);
+    const ready = nodes.filter((node, index) => waiting[index] === 0 && !isDone(node));
+    const running = new Set<Promise<void>>();
+    let failure: { error: unknown } | undefined;
+
+    const { signal, dispose } = withTimeout(
+      ctx.signal,
+      spec.timeout,
+      () => new TaskTimeoutError(spec.id, spec.timeout!, 'Workflow')
+    );
+    // Steps see the workflow timeout through `ctx.signal`
+    const stepCtx = signal === ctx.signal ? ctx : { ...ctx, signal };
+    try {
+      while (ready.length > 0 || running.size > 0) {
+        while (!failure && ready.length > 0 && running.size < concurrency) {
+          const node = ready.shift()!;
+          const task: Promise<void> = (async () => {
+            started.add(node.step.id);
+            await save();
+            await runStep(spec.id, node, state, stepCtx);
+            started.delete(node.step.id);
+            completed.add(node.step.id);
+            await save();
+          })()
+            .then(
+              () => {
+                for (const dependent of node.dependents) {
+                  if (--waiting[dependent] === 0) {
+                    ready.push(nodes[dependent]);
+                  }
+                }
+                // Declaration order among the steps that became ready
+                ready.sort((a, b) => a.index - b.index);
+              },
+              (error) => {
+                failure ??= { error };
+              }
+            )
+            .finally(() => running.delete(task));
+          running.add(task);
+        }
+        if (running.size === 0) {
+          break;
+        }
+        await Promise.race(running);
+      }
+    } finally {
+      dispose();
+    }
+
+    if (failure) {
+      const { error } = failure;
+      if (checkpoint) {
+        // A failed save must not hide why the run stopped
+        await save({
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error)
+        }).catch(() => {});
+        if (error instanceof Error) {
+          (error as any).runId ??= checkpoint.runId;
+        }
+      }
+      throw error;
+    }
+    await save({ status: 'completed', error: undefined });
+    return state as State;
+  }
+
+  async function resumeFrom(checkpoint: Checkpoint, store: CheckpointStore, ctx: Ctx): Promise<State> {
+    if (checkpoint.status === 'completed') {
+      return checkpoint.state as State;
+    }
+    for (const id of checkpoint.started) {
+      const node = nodes.find(node => node.step.id === id);
+      if (!node || isIdempotent(node.step)) {
+        continue;
+      }
+      const question = { workflow: spec.id, runId: checkpoint.runId, step: id };
+      if (!(await (spec.confirm ?? confirmReplay)(question))) {
+        throw new Error(
+          `Run ${checkpoint.runId} of workflow ${spec.id} was not resumed: step ${id} is not idempotent and may have partly run`
+        );
+      }
+    }
+    return execute(ctx, checkpoint.state, store, { ...checkpoint, status: 'running' });
+  }
+
   return {
     id: spec.id,
-    async run(ctx: Ctx): Promise<WithKey<S0, S1K, S1V>> {
+    async run(ctx: Ctx): Promise<State> {
+      const store = storeFor(ctx);
+      const runId: string | undefined = (ctx as any).resume;
+      if (store && runId) {
+        const checkpoint = await store.load(runId);
+        if (!checkpoint) {
+          throw new Error(`No checkpoint found for run ${runId}`);
+        }
+        // Nested workflows of the resumed one start over
+        if (checkpoint.workflowId === spec.id) {
+          return resumeFrom(checkpoint, store, ctx);
+        }
+      }
+
       // Initialize state from seed
-      let state: any = typeof spec.seed === 'function' 
-        ? spec.seed(ctx) 
+      const state: any = typeof spec.seed === 'function'
+        ? spec.seed(ctx)
         : (spec.seed || {});
-      
-      // Execute steps sequentially
-      for (const step of spec.steps) {
-        // Select input for step
-        const input = step.select 
-          ? step.select(state, ctx) 
-          : state;
-        
-        // Determine if use is a Task or function
-        const use = step.use;
-        let output: any;
-        
-        if (typeof use === 'function') {
-          // Direct function execution
-          output = await (use as StepFn<any, any, Ctx>)(input, ctx);
-        } else if (use && typeof (use as Task<any, any, Ctx>).call === 'function') {
-          // Task execution
-          const task = use as Task<any, any, Ctx>;
-          output = await task.call(input, ctx);
-        } else {
-          throw new Error(`Invalid step.use in workflow ${spec.id}, step ${step.id}`);
-        }
-        
-        // Store output in state
-        const key = step.as || step.id;
-        state[key] = output;
+      const checkpoint: Checkpoint | undefined = store && {
+        runId: createRunId(spec.id),
+        workflowId: spec.id,
+        status: 'running',
+        state,
+        completed: [],
+        started: [],
+        updatedAt: new Date().toISOString()
+      };
+      return execute(ctx, state, store, checkpoint);
+    },
+    async resume(runId: string, ctx: Ctx): Promise<State> {
+      const store = storeFor(ctx);
+      if (!store) {
+        throw new Error(`Workflow ${spec.id} does not keep checkpoints, set \`checkpoints\` to resume its runs`);
+      }
+      const checkpoint = await store.load(runId);
+      if (!checkpoint || checkpoint.workflowId !== spec.id) {
+        throw new Error(`No checkpoint of workflow ${spec.id} found for run ${runId}`);
       }
-      
-      return state as WithKey<S0, S1K, S1V>;
+      return resumeFrom(checkpoint, store, ctx);
     }
   };
-}
\ No newline at end of file
+}
+
+function isIdempotent(step: WorkflowStep<any, string, unknown, any>): boolean {
+  return step.idempotent ?? (step.use as Partial<Task<any, any, any>>)?.idempotent ?? true;
+}
+
+async function confirmReplay({ workflow, runId, step }: ReplayQuestion): Promise<boolean> {
+  const answer = await consola.prompt(
+    `Step ${step} of ${workflow} (run ${runId}) is not idempotent and was interrupted. Run it again?`,
+    { type: 'confirm', initial: false }
+  );
+  return answer === true;
+}
+
+/**
+ * Resolves `dependsOn` into the graph and rejects unknown steps and cycles
+ * when the workflow is defined, rather than halfway through a run
+ */
+function planSteps(workflowId: string, steps: ReadonlyArray<WorkflowStep<any, string, unknown, any>>): StepNode[] {
+  const nodes: StepNode[] = steps.map((step, index) => ({
+    step,
+    index,
+    dependsOn: [],
+    dependents: [],
+    when: typeof step.when === 'string' ? withScope(compileExpression(step.when)) : step.when
+  }));
+
+  for (const node of nodes) {
+    if (!node.step.dependsOn) {
+      node.dependsOn = node.index > 0 ? [node.index - 1] : [];
+    } else {
+      for (const id of node.step.dependsOn) {
+        const targets = nodes.filter(other => other.step.id === id && other !== node);
+        if (targets.length === 0) {
+          throw new Error(`Step ${node.step.id} of workflow ${workflowId} depends on unknown step ${id}`);
+        }
+        node.dependsOn.push(...targets.map(target => target.index));
+      }
+    }
+    for (const dependency of node.dependsOn) {
+      nodes[dependency].dependents.push(node.index);
+    }
+  }
+
+  // Kahn's algorithm, whatever is left over is part of a cycle
+  const waiting = nodes.map(node => node.dependsOn.length);
+  const queue = nodes.filter(node => node.dependsOn.length === 0);
+  let visited = 0;
+  while (queue.length > 0) {
+    const node = queue.pop()!;
+    visited++;
+    for (const dependent of node.dependents) {
+      if (--waiting[dependent] === 0) {
+        queue.push(nodes[dependent]);
+      }
+    }
+  }
+  if (visited < nodes.length) {
+    const cycle = nodes.filter((_, index) => waiting[index] > 0).map(node => node.step.id);
+    throw new Error(`Workflow ${workflowId} has a dependency cycle between steps ${cycle.join(', ')}`);
+  }
+
+  return nodes;
+}
+
+// Expressions see the state at the top level, and the environment as `env`
+function withScope(expression: (scope: Record<string, unknown>) => unknown) {
+  return (state: any, ctx: RunCtx) => expression({ ...state, state, env: ctx.env });
+}
+
+async function runStep(workflowId: string, node: StepNode, state: any, ctx: RunCtx): Promise<void> {
+  const { step } = node;
+  const base = { workflow: workflowId, step: step.id };
+
+  if (node.when && !(await node.when(state, ctx))) {
+    await hooks.callHook('step:did:skip', base);
+    return;
+  }
+
+  // Determine if use is a Task or function
+  const use = step.use;
+  let call: (input: any) => unknown;
+  if (typeof use === 'function') {
+    // Direct function execution
+    call = input => (use as StepFn<any, any, RunCtx>)(input, ctx);
+  } else if (use && typeof (use as Task<any, any, RunCtx>).call === 'function') {
+    // Task execution
+    call = input => (use as Task<any, any, RunCtx>).call(input, ctx);
+  } else {
+    throw new Error(`Invalid step.use in workflow ${workflowId}, step ${step.id}`);
+  }
+
+  // Select input for step
+  const input = step.select ? step.select(state, ctx) : state;
+  const maxAttempts = Math.max(1, step.retry?.maxAttempts ?? 1);
+
+  for (let attempt = 1; ; attempt++) {
+    ctx.signal?.throwIfAborted();
+    await hooks.callHook('step:will:run', { ...base, attempt, input });
+    const startTime = performance.now();
+    let output: unknown;
+    try {
+      output = await abortable(call(input), ctx.signal);
+    } catch (error) {
+      // Aborted steps are not retried
+      if (attempt >= maxAttempts || ctx.signal?.aborted) {
+        await hooks.callHook('step:did:fail', { ...base, attempt, error });
+        throw error;
+      }
+      const delay = retryDelay(step.retry!, attempt);
+      await hooks.callHook('step:will:retry', { ...base, attempt, delay, error });
+      await abortable(new Promise(resolve => setTimeout(resolve, delay)), ctx.signal);
+      continue;
+    }
+
+    // Store output in state
+    state[step.as || step.id] = output;
+    await hooks.callHook('step:did:run', {
+      ...base,
+      attempt,
+      output,
+      duration: performance.now() - startTime
+    });
+    return;
+  }
+}
+
+/**
+ * Delay before retrying after the given failed attempt
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  const base = policy.delay ?? 100;
+  let factor = attempt;
+  if (policy.backoff === 'exponential') {
+    factor = 2 ** (attempt - 1);
+  } else if (policy.backoff === 'fibonacci') {
+    let [a, b] = [1, 1];
+    for (let i = 1; i < attempt; i++) {
+      [a, b] = [b, a + b];
+    }
+    factor = a;
+  }
+  return Math.min(base * factor, policy.maxDelay ?? 30_000);
+}
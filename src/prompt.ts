@@ -0,0 +1,85 @@
+import consola from "consola";
+import type { Arg } from "./types";
+
+/**
+ * Whether missing arguments can be asked for. Prompts need both a readable
+ * and a writable terminal; anything else (pipes, CI) must fail fast.
+ */
+export function canPrompt(): boolean {
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+}
+
+/**
+ * Ask for the value of `arg` using consola prompts: a select for enums, a
+ * confirm for booleans and a text input (re-asked until valid) otherwise.
+ */
+export async function promptArg(
+  arg: Pick<Arg, "name" | "type"> & Partial<Arg>,
+): Promise<string | number | boolean | (string | number)[]> {
+  const message =
+    typeof arg.prompt === "string"
+      ? arg.prompt
+      : arg.description?.split("\n")[0] || arg.name;
+
+  if (arg.type === "boolean") {
+    return consola.prompt(message, {
+      type: "confirm",
+      initial: arg.default === true,
+      cancel: "reject",
+    });
+  }
+
+  if (arg.type === "enum" && arg.options && arg.options.length > 0) {
+    const options = arg.options.map(String);
+    if (arg.multiple) {
+      const selected = await consola.prompt(message, {
+        type: "multiselect",
+        options,
+        required: arg.required !== false,
+        cancel: "reject",
+      });
+      return selected.map((value) => toOption(arg.options!, value));
+    }
+    const selected = await consola.prompt(message, {
+      type: "select",
+      options,
+      initial: arg.default === undefined ? undefined : String(arg.default),
+      cancel: "reject",
+    });
+    return toOption(arg.options, selected);
+  }
+
+  while (true) {
+    const value = (
+      await consola.prompt(message, {
+        type: "text",
+        default: arg.default === undefined ? undefined : String(arg.default),
+        cancel: "reject",
+      })
+    ).trim();
+    const error = validateText(arg, value);
+    if (!error) {
+      return arg.type === "number" && !arg.multiple
+        ? Number.parseFloat(value)
+        : value;
+    }
+    consola.warn(error);
+  }
+}
+
+function validateText(arg: Partial<Arg>, value: string): string | undefined {
+  if (value === "") {
+    return arg.required === false ? undefined : "A value is required.";
+  }
+  if (arg.type === "number") {
+    const values = arg.multiple ? value.split(",") : [value];
+    const invalid = values.find((v) => Number.isNaN(Number.parseFloat(v)));
+    if (invalid !== undefined) {
+      return `\`${invalid}\` is not a number.`;
+    }
+  }
+}
+
+function toOption(options: (string | number)[], value: string) {
+  return options.find((option) => String(option) === value) ?? value;
+}
@@ -1,9 +1,23 @@
 import nunjucks from 'nunjucks';
-import { readFileSync } from 'node:fs';
-import { dirname } from 'pathe';
-import type { TemplateContext, TemplateFilter, TemplateOptions, RenderResult } from './types.js';
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { dirname, isAbsolute, join, resolve } from 'pathe';
+import type {
+  AsyncTemplateFilter,
+  TemplateContext,
+  TemplateExtension,
+  TemplateFilter,
+  TemplateOptions,
+  RenderResult
+} from './types.js';
 import { UnjucksError } from './types.js';
 import { useTemplateContext } from './context.js';
+import { templateCache } from './cache.js';
+import { createTemplateData, type TemplateData } from './template-data.js';
+
+/**
+ * Time a render may take by default, async filters included
+ */
+const DEFAULT_RENDER_TIMEOUT = 30_000;
 
 /**
  * Built-in filters for common string transformations
@@ -122,17 +136,99 @@ const BUILT_IN_FILTERS: Record<string, TemplateFilter> = {
   }
 };
 
+let rendererCount = 0;
+
 /**
- * Template renderer class that wraps Nunjucks
+ * Loads templates from the search path. Compiled templates are kept in
+ * `templateCache` under their path and mtime, so an edited file is compiled
+ * again on its next render.
+ */
+class TemplateLoader extends nunjucks.Loader implements nunjucks.ILoader {
+  private dirs: string[];
+  private id = `renderer:${++rendererCount}`;
+  private mtimes = new Map<string, number>();
+  private compiled: Record<string, nunjucks.Template | undefined> = new Proxy({}, {
+    get: (_, name) => (typeof name === 'string' ? this.getCompiled(name) : undefined),
+    set: (_, __, template) => {
+      this.setCompiled(template);
+      return true;
+    }
+  });
+
+  constructor(searchPaths: string[]) {
+    super();
+    this.dirs = searchPaths.flatMap((searchPath) => {
+      const dir = resolve(searchPath);
+      const partials = join(dir, '_partials');
+      return existsSync(partials) ? [dir, partials] : [dir];
+    });
+  }
+
+  /**
+   * Nunjucks looks compiled templates up here and resets it on every loader
+   * of a new environment, so the setter ignores the reset.
+   */
+  get cache(): Record<string, nunjucks.Template | undefined> {
+    return this.compiled;
+  }
+
+  set cache(_: unknown) {}
+
+  getSource(name: string): nunjucks.LoaderSource {
+    const path = this.find(name);
+    if (!path) {
+      // Nunjucks moves on to the next loader, then reports the template as missing
+      return null as unknown as nunjucks.LoaderSource;
+    }
+    this.mtimes.set(path, statSync(path).mtimeMs);
+    return { src: readFileSync(path, 'utf-8'), path, noCache: false };
+  }
+
+  /**
+   * Every name is tried next to the including template first
+   */
+  isRelative(filename: string): boolean {
+    return !isAbsolute(filename);
+  }
+
+  resolve(from: string, to: string): string {
+    const sibling = resolve(dirname(from), to);
+    return to.startsWith('./') || to.startsWith('../') || existsSync(sibling) ? sibling : to;
+  }
+
+  private find(name: string): string | undefined {
+    if (isAbsolute(name)) {
+      return existsSync(name) ? name : undefined;
+    }
+    return this.dirs.map((dir) => join(dir, name)).find((path) => existsSync(path));
+  }
+
+  private getCompiled(name: string): nunjucks.Template | undefined {
+    const path = this.find(name);
+    return path ? templateCache.get(`${this.id}:${path}:${statSync(path).mtimeMs}`) : undefined;
+  }
+
+  private setCompiled(template: nunjucks.Template & { path?: string }): void {
+    const mtime = template.path && this.mtimes.get(template.path);
+    if (mtime) {
+      templateCache.set(`${this.id}:${template.path}:${mtime}`, template);
+    }
+  }
+}
+
+/**
+ * Template renderer class that wraps a long-lived Nunjucks environment
  */
 export class TemplateRenderer {
   private env: nunjucks.Environment;
   private customFilters: Record<string, TemplateFilter> = {};
+  private customGlobals: Record<string, any> = {};
+  private data: TemplateData;
+  private timeout: number;
 
   constructor(options: TemplateOptions = {}) {
-    // Configure Nunjucks environment
     this.env = new nunjucks.Environment(
-      new nunjucks.FileSystemLoader([]), // We'll set paths dynamically
+      new TemplateLoader(options.searchPaths || ['.']),
       {
         autoescape: options.autoescape ?? true,
         throwOnUndefined: options.throwOnUndefined ?? true,
@@ -142,8 +238,19 @@ export class TemplateRenderer {
       }
     );
 
-    // Register built-in filters
-    this.registerFilters(BUILT_IN_FILTERS);
+    this.timeout = options.timeout ?? DEFAULT_RENDER_TIMEOUT;
+    this.data = createTemplateData({ ontology: options.ontology, searchPaths: options.searchPaths || ['.'] });
+
+    this.registerFilters({ ...BUILT_IN_FILTERS, ...options.filters });
+    for (const [name, filter] of Object.entries({ ...this.data.asyncFilters, ...options.asyncFilters })) {
+      this.registerAsyncFilter(name, filter);
+    }
+    for (const [name, value] of Object.entries({ ...this.data.globals, ...options.globals })) {
+      this.registerGlobal(name, value);
+    }
+    for (const [name, extension] of Object.entries(options.extensions || {})) {
+      this.registerExtension(name, extension);
+    }
   }
 
   /**
@@ -151,8 +258,7 @@ export class TemplateRenderer {
    */
   registerFilters(filters: Record<string, TemplateFilter>): void {
     Object.entries(filters).forEach(([name, filter]) => {
-      this.env.addFilter(name, filter);
-      this.customFilters[name] = filter;
+      this.registerFilter(name, filter);
     });
   }
 
@@ -164,6 +270,39 @@ export class TemplateRenderer {
     this.customFilters[name] = filter;
   }
 
+  /**
+   * Registers a filter returning a promise. Nunjucks only waits for async
+   * filters outside of `{% for %}` loops; use `{% asyncEach %}` inside them.
+   */
+  registerAsyncFilter(name: string, filter: AsyncTemplateFilter): void {
+    this.env.addFilter(
+      name,
+      (...args: any[]) => {
+        const callback = args.pop();
+        Promise.resolve()
+          .then(() => filter(args[0], ...args.slice(1)))
+          .then((result) => callback(null, result), callback);
+      },
+      true
+    );
+    this.customFilters[name] = filter;
+  }
+
+  /**
+   * Registers a global variable or function
+   */
+  registerGlobal(name: string, value: any): void {
+    this.env.addGlobal(name, value);
+    this.customGlobals[name] = value;
+  }
+
+  /**
+   * Registers a custom tag extension
+   */
+  registerExtension(name: string, extension: TemplateExtension): void {
+    this.env.addExtension(name, extension);
+  }
+
   /**
    * Gets all registered filters
    */
@@ -171,6 +310,13 @@ export class TemplateRenderer {
     return { ...BUILT_IN_FILTERS, ...this.customFilters };
   }
 
+  /**
+   * Gets all registered globals, template data ones included
+   */
+  getGlobals(): Record<string, any> {
+    return { ...this.customGlobals };
+  }
+
   /**
    * Renders a template from file path
    */
@@ -184,27 +330,8 @@ export class TemplateRenderer {
       // Use provided context or fall back to template context
       const renderContext = context || this.getMergedContext();
       
-      // Read template content
-      const templateContent = readFileSync(templatePath, 'utf-8');
-      
-      // Set up file system loader for includes/extends
-      const templateDir = dirname(templatePath);
-      const oldOptions = {
-        autoescape: true,
-        throwOnUndefined: true,
-        trimBlocks: true,
-        lstripBlocks: true
-      };
-      this.env = new nunjucks.Environment(
-        new nunjucks.FileSystemLoader([templateDir, '.']),
-        oldOptions
-      );
-      
-      // Re-register filters after environment recreation
-      this.registerFilters({ ...BUILT_IN_FILTERS, ...this.customFilters });
-      
-      // Render template
-      const output = this.env.renderString(templateContent, renderContext);
+      // Compiled once per file version, includes resolve next to the template first
+      const output = await this.render(this.env.getTemplate(resolve(templatePath)), renderContext);
       
       const duration = Date.now() - startTime;
       
@@ -218,6 +345,9 @@ export class TemplateRenderer {
         }
       };
     } catch (error) {
+      if (error instanceof UnjucksError) {
+        throw error;
+      }
       throw new UnjucksError(
         `Template rendering failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         'RENDER_FAILED',
@@ -240,7 +370,7 @@ export class TemplateRenderer {
       const renderContext = context || this.getMergedContext();
       
       // Render template
-      const output = this.env.renderString(templateContent, renderContext);
+      const output = await this.render(new nunjucks.Template(templateContent, this.env), renderContext);
       
       const duration = Date.now() - startTime;
       
@@ -254,6 +384,9 @@ export class TemplateRenderer {
         }
       };
     } catch (error) {
+      if (error instanceof UnjucksError) {
+        throw error;
+      }
       throw new UnjucksError(
         `String template rendering failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         'RENDER_FAILED',
@@ -292,6 +425,39 @@ export class TemplateRenderer {
     }
   }
 
+  /**
+   * Renders with a callback, which lets async filters finish, and gives up
+   * once the render timeout is reached
+   */
+  private async render(template: nunjucks.Template, context: TemplateContext): Promise<string> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new UnjucksError(
+          `Rendering took longer than ${this.timeout}ms`,
+          'RENDER_TIMEOUT',
+          { timeout: this.timeout }
+        ));
+      }, this.timeout);
+    });
+
+    const render = this.data.prepare().then(() => new Promise<string>((resolve, reject) => {
+      template.render(context, (error, output) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(output ?? '');
+        }
+      });
+    }));
+
+    try {
+      return await Promise.race([render, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Gets merged context from template context
    */
@@ -0,0 +1,176 @@
+import { readFile, realpath, stat } from "node:fs/promises";
+import { isAbsolute, relative, resolve } from "pathe";
+import { cacheManager } from "./cache.js";
+import type { AsyncTemplateFilter } from "./types.js";
+
+type GraphModules = {
+  core: typeof import("../packages/untology/src/core.js");
+  context: typeof import("../packages/untology/src/context.js");
+  sparql: typeof import("../packages/untology/src/sparql-engine.js");
+};
+
+export interface TemplateDataOptions {
+  /** Turtle or N-Triples file loaded into the graph before each render */
+  ontology?: string;
+  /** Template directories, `readFile` reads from them and the working directory only */
+  searchPaths?: string[];
+}
+
+/**
+ * Filters and globals that read data while a template renders
+ */
+export interface TemplateData {
+  asyncFilters: Record<string, AsyncTemplateFilter>;
+  globals: Record<string, any>;
+  /** Loads the ontology when it changed since the last render */
+  prepare(): Promise<void>;
+}
+
+/**
+ * Results are keyed on their input and the version of their source (file
+ * mtime, graph), so a template renders the same until its data changes.
+ */
+const dataCache = cacheManager.getCache("template-data");
+
+const storeIds = new WeakMap<object, number>();
+let lastStoreId = 0;
+let lastQueriedGraph: string | undefined;
+let graphModules: Promise<GraphModules> | undefined;
+let loadedModules: GraphModules | undefined;
+
+/**
+ * Data access for templates, backed by `packages/untology`:
+ *
+ * - `{{ "docs/intro.md" | readFile }}` reads a file next to the templates or in the working directory
+ * - `{{ "SELECT ?s WHERE { ?s a ex:Person }" | sparql }}` returns the bindings of a query
+ * - `{{ entities("ex:Person") }}` lists the entities of a type
+ */
+export function createTemplateData(
+  options: TemplateDataOptions = {},
+): TemplateData {
+  let loadedOntology: string | undefined;
+
+  const prepare = async () => {
+    if (!options.ontology) {
+      return;
+    }
+    const path = resolve(options.ontology);
+    const version = `${path}:${(await stat(path)).mtimeMs}`;
+    if (version !== loadedOntology) {
+      await (await loadGraphModules()).core.loadGraph(path);
+      loadedOntology = version;
+    }
+  };
+
+  const readFileFilter = async (path: string) => {
+    const file = await resolveDataFile(String(path), options.searchPaths || []);
+    const { mtimeMs } = await stat(file);
+    return cached(`file:${file}:${mtimeMs}`, () => readFile(file, "utf8"));
+  };
+
+  const sparql = async (query: string) => {
+    const { context, sparql } = await loadGraphModules();
+    const graph = graphVersion(context);
+    if (graph !== lastQueriedGraph) {
+      // The engine caches on the query text alone
+      sparql.sparqlEngine.clearCache();
+      lastQueriedGraph = graph;
+    }
+    return cached(`sparql:${graph}:${query}`, () =>
+      sparql.sparqlQuery(String(query)),
+    );
+  };
+
+  // Globals cannot wait, the graph is loaded by `prepare` or an earlier query
+  const entities = (type?: string) => {
+    if (!loadedModules) {
+      throw new Error("entities() needs a graph, set the `ontology` option");
+    }
+    const { core, context } = loadedModules;
+    return cached(`entities:${graphVersion(context)}:${type ?? ""}`, () =>
+      core.findEntities(type),
+    );
+  };
+
+  return {
+    asyncFilters: { readFile: readFileFilter, sparql },
+    globals: { entities },
+    prepare,
+  };
+}
+
+/**
+ * Looks `path` up in the template directories, then the working directory.
+ * Links are followed before checking that the file is inside one of them.
+ */
+async function resolveDataFile(
+  path: string,
+  searchPaths: string[],
+): Promise<string> {
+  const roots = [...searchPaths, "."].map((dir) => resolve(dir));
+  const candidates = isAbsolute(path)
+    ? [path]
+    : roots.map((root) => resolve(root, path));
+  let file: string | undefined;
+  for (const candidate of candidates) {
+    file = await realpath(candidate).catch(() => undefined);
+    if (file) {
+      break;
+    }
+  }
+  if (!file) {
+    throw new Error(`readFile: ${path} not found`);
+  }
+  for (const root of roots) {
+    const dir = await realpath(root).catch(() => root);
+    const rel = relative(dir, file);
+    if (rel !== ".." && !rel.startsWith("../") && !isAbsolute(rel)) {
+      return file;
+    }
+  }
+  throw new Error(
+    `readFile: ${path} is outside of the templates and the working directory`,
+  );
+}
+
+function loadGraphModules(): Promise<GraphModules> {
+  graphModules ??= Promise.all([
+    import("../packages/untology/src/core.js"),
+    import("../packages/untology/src/context.js"),
+    import("../packages/untology/src/sparql-engine.js"),
+  ]).then(([core, context, sparql]) => {
+    loadedModules = { core, context, sparql };
+    return loadedModules;
+  });
+  return graphModules;
+}
+
+/**
+ * Identifies the graph a lookup ran against: loading another graph or
+ * adding triples changes it
+ */
+function graphVersion(context: GraphModules["context"]): string {
+  const { store } = context.useOntology();
+  if (!storeIds.has(store)) {
+    storeIds.set(store, ++lastStoreId);
+  }
+  return `${storeIds.get(store)}.${store.size}`;
+}
+
+/**
+ * Every caller gets its own copy, so a template cannot change the cached value
+ */
+function cached<T>(key: string, compute: () => T): T {
+  let value = dataCache.get(key);
+  if (value === undefined) {
+    value = compute();
+    dataCache.set(key, value);
+    if (value instanceof Promise) {
+      // Failures are not remembered
+      value.catch(() => dataCache.delete(key));
+    }
+  }
+  return value instanceof Promise
+    ? (value.then((result) => structuredClone(result)) as T)
+    : structuredClone(value);
+}
@@ -1,3 +1,5 @@
+import type { RunCtx } from "./types/citty-pro";
+
 export interface TemplateContext {
   [key: string]: any;
 }
@@ -6,6 +8,16 @@ export interface TemplateFilter {
   (value: any, ...args: any[]): any;
 }
 
+export interface AsyncTemplateFilter {
+  (value: any, ...args: any[]): Promise<any>;
+}
+
+export interface TemplateExtension {
+  tags: string[];
+  parse(parser: any, nodes: any, lexer: any): any;
+  [key: string]: any;
+}
+
 export interface TemplateOptions {
   autoescape?: boolean;
   throwOnUndefined?: boolean;
@@ -19,6 +31,20 @@ export interface TemplateOptions {
     commentStart?: string;
     commentEnd?: string;
   };
+  /**
+   * Directories includes, imports and extends are looked up in, after the
+   * directory of the including template. The `_partials` directory of each
+   * one is searched too. Defaults to the working directory.
+   */
+  searchPaths?: string[];
+  globals?: Record<string, any>;
+  filters?: Record<string, TemplateFilter>;
+  asyncFilters?: Record<string, AsyncTemplateFilter>;
+  extensions?: Record<string, TemplateExtension>;
+  /** Time a render may take in ms, async filters included (default: 30000) */
+  timeout?: number;
+  /** Turtle or N-Triples file queried by the `sparql` filter and `entities()` */
+  ontology?: string;
 }
 
 export interface WalkOptions {
@@ -60,6 +86,59 @@ export interface CliOptions {
   context?: string;
   ontology?: string;
   interactive?: boolean;
+  /** Values of generator inputs given as `--<input>` flags */
+  values?: Record<string, any>;
+}
+
+export interface GeneratorInput {
+  name: string;
+  type?: 'string' | 'number' | 'boolean' | 'enum';
+  /** Prompt message, defaults to the name */
+  description?: string;
+  default?: string | number | boolean | ((context: TemplateContext) => any);
+  /** Choices of `enum` inputs */
+  options?: (string | number)[];
+  /** Inputs are required unless set to `false` */
+  required?: boolean;
+  /** Return an error message (or `false`) to reject the value */
+  validate?: (value: any, context: TemplateContext) => boolean | string | void;
+  /** Only ask for the input when this returns true */
+  when?: (context: TemplateContext) => boolean;
+}
+
+export interface GeneratorHooks {
+  /** Derive context from the inputs, the returned values are merged in */
+  beforeRender?: (context: TemplateContext) => TemplateContext | void | Promise<TemplateContext | void>;
+  afterWrite?: (files: GeneratedFile[], context: TemplateContext) => void | Promise<void>;
+}
+
+/**
+ * `generator.config.ts` (or `prompt.ts`) of a generator or action directory
+ */
+export interface GeneratorConfig {
+  description?: string;
+  inputs?: GeneratorInput[];
+  hooks?: GeneratorHooks;
+  /** Template files rendered together, relative to the action directory (default: all of them) */
+  templates?: string[];
+}
+
+/**
+ * Variable a template reads from its render context
+ */
+export interface TemplateVariable {
+  name: string;
+  /** False when the template only tests the variable or gives it a default */
+  required: boolean;
+}
+
+export interface GeneratedFile {
+  /** Absolute output path */
+  path: string;
+  content: string;
+  template: string;
+  /** Content of the file being replaced, `null` for new files */
+  existing: string | null;
 }
 
 export interface RenderResult {
@@ -99,6 +178,9 @@ export class CittyOntologyError extends UnjucksError {
   }
 }
 
+// Name imported by the CLI and the ontology loader
+export { CittyOntologyError as OntologyError };
+
 export class ContextError extends UnjucksError {
   constructor(message: string, missingKeys?: string[]) {
     super(message, 'CONTEXT_ERROR', { missingKeys });
@@ -111,26 +193,105 @@ export type Resolvable<T> = T | (() => T | Promise<T>);
 // Argument Types
 export type ArgType = "string" | "boolean" | "number" | "enum" | "positional";
 
+/**
+ * Any schema with a Zod-compatible `safeParse`.
+ */
+export interface ArgSchema<T = any> {
+  safeParse(value: unknown):
+    | { success: true; data: T }
+    | {
+        success: false;
+        error: { issues: { message: string; path: PropertyKey[] }[] };
+      };
+}
+
 export interface Arg {
   name: string;
   type: ArgType;
   description?: string;
   required?: boolean;
-  default?: string | number | boolean;
+  default?: string | number | boolean | (string | number)[];
   alias?: string | string[];
   valueHint?: string;
   options?: (string | number)[];
   negativeDescription?: string;
+  /** Environment variable used when the flag is not given on the command line */
+  env?: string;
+  /**
+   * Convert the value after type coercion. Throwing rejects the value.
+   * Called for each value of `multiple` arguments.
+   */
+  parse?: (value: any) => any;
+  /** Validate (and transform) the value after `parse` */
+  schema?: ArgSchema;
+  /** Arguments that cannot be given together with this one */
+  conflicts?: string | string[];
+  /** Arguments that must be given whenever this one is */
+  requires?: string | string[];
+  /**
+   * Make this argument required when another argument is given, or when
+   * other arguments have the given values (`{ format: "json" }`)
+   */
+  requiredIf?: string | Record<string, string | number | boolean>;
+  /**
+   * Accept the argument more than once (`--include a --include b`) or as a
+   * comma-separated list. Positionals with `multiple` capture the remaining
+   * positional arguments.
+   */
+  multiple?: boolean;
+  /**
+   * Ask for the value in an interactive terminal when it is missing. A string
+   * is used as the prompt message (defaults to the description).
+   */
+  prompt?: boolean | string;
+  /**
+   * Propose values for shell completion. Results are filtered by `partial`
+   * afterwards, so returning every candidate is fine.
+   */
+  complete?: (
+    context: CompleteContext,
+    partial: string,
+  ) => string[] | Promise<string[]>;
 }
 
 export interface ArgsDef {
   [key: string]: Omit<Arg, "name"> | undefined;
 }
 
+export interface ArgGroup {
+  /** Heading of the group in `renderUsage` */
+  title?: string;
+  args: string[];
+  /** At most one of `args` may be given */
+  exclusive?: boolean;
+  /** At least one of `args` must be given */
+  required?: boolean;
+  /** Either all or none of `args` must be given */
+  together?: boolean;
+}
+
+type ParsedArgValue<A> = A extends { parse: (value: any) => infer R }
+  ? R
+  : A extends { type: "string" }
+  ? string
+  : A extends { type: "number" }
+  ? number
+  : A extends { type: "enum" }
+  ? string | number
+  : A extends { type: "positional" }
+  ? string
+  : any;
+
 export type ParsedArgs<T extends ArgsDef = ArgsDef> = {
   _: string[];
 } & {
-  [K in keyof T]: T[K] extends { type: "string" }
+  [K in keyof T]: T[K] extends { schema: ArgSchema<infer R> }
+    ? R
+    : T[K] extends { multiple: true }
+    ? ParsedArgValue<T[K]>[]
+    : T[K] extends { parse: (value: any) => infer R }
+    ? R
+    : T[K] extends { type: "string" }
     ? string
     : T[K] extends { type: "number" }
     ? number
@@ -147,6 +308,26 @@ export interface CommandMeta {
   version?: string;
   description?: string;
   hidden?: boolean;
+  /** Reject unknown flags instead of storing them on `args` */
+  strict?: boolean;
+  /** Shown in the EXAMPLES section of the help */
+  examples?: CommandExample[];
+  /** Other names the command can be invoked with as a sub command */
+  aliases?: string[];
+}
+
+export interface CommandExample {
+  /** Arguments following the command name (`init --force`) */
+  command: string;
+  description?: string;
+}
+
+export interface ArgsConfigSource {
+  /** Name used to find `<name>.config.*` and `.<name>rc` files */
+  name: string;
+  cwd?: string;
+  /** Read argument values from this key of the loaded config */
+  key?: string;
 }
 
 export interface CommandContext<T extends ArgsDef = ArgsDef> {
@@ -154,6 +335,20 @@ export interface CommandContext<T extends ArgsDef = ArgsDef> {
   args: ParsedArgs<T>;
   data?: any;
   cmd: CommandDef<T>;
+  /** Context of the parent command when running as a sub command */
+  parent?: CommandContext<any>;
+  /** Run context, when running through `runMain({ lifecycle: true })` */
+  ctx?: RunCtx;
+  /** Aborted when the run is cancelled, `runMain` does on SIGINT and SIGTERM */
+  signal?: AbortSignal;
+}
+
+export interface CompleteContext {
+  /** Words of the command line given before the word being completed */
+  rawArgs: string[];
+  /** Best-effort parse of `rawArgs`, required arguments are not enforced */
+  args: ParsedArgs;
+  cmd: CommandDef<any>;
 }
 
 export interface CommandDef<T extends ArgsDef = ArgsDef> {
@@ -162,5 +357,14 @@ export interface CommandDef<T extends ArgsDef = ArgsDef> {
   run?: (context: CommandContext<T>) => any | Promise<any>;
   setup?: (context: CommandContext<T>) => any | Promise<any>;
   cleanup?: (context: CommandContext<T>) => any | Promise<any>;
+  /**
+   * Config file that provides argument values. Precedence is
+   * CLI > env > config > default.
+   */
+  config?: Resolvable<ArgsConfigSource>;
+  /** Relations between arguments checked after parsing */
+  argGroups?: Resolvable<ArgGroup[]>;
   subCommands?: Resolvable<Record<string, Resolvable<CommandDef<any>>>>;
+  /** Sub command to run when none is given */
+  defaultSubCommand?: string;
 }
\ No newline at end of file
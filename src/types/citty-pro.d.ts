@@ -0,0 +1,234 @@
+// packages/citty-pro/src/types/citty-pro.d.ts
+import type { ZodType, ZodTypeAny, ZodTypeDef, z } from 'zod';
+import type { ArgsDef, Arg, ArgType, CommandContext, CommandDef, CommandMeta, ParsedArgs } from '../types';
+
+export type { ArgsDef, ArgType, CommandMeta, ParsedArgs };
+export type ArgDef = Arg;
+
+// ---------- Core context ----------
+
+export type Output = { text?: string; json?: unknown; files?: string[] };
+export type Unhook = () => void;
+
+export type ProviderAIModel = {
+  id: string;
+  vendor: 'ollama' | 'openai' | 'anthropic' | 'local';
+  options?: Record<string, unknown>;
+};
+
+/**
+ * Context of one run, given to tasks, workflow steps and plugins, and to
+ * commands as `ctx` when they run through the lifecycle
+ */
+export type RunCtx = {
+  cwd: string;
+  env: Record<string, string | undefined>;
+  now: () => Date;
+  ai?: {
+    model?: ProviderAIModel;
+    generate: (opts: { prompt: string; tools?: Record<string, AITool<any, any>>; system?: string }) => Promise<{
+      text: string;
+      toolCalls?: Array<{ name: string; args: unknown }>;
+    }>;
+  };
+  otel?: {
+    span: <T>(name: string, fn: () => Promise<T> | T) => Promise<T>;
+    counter?: (name: string) => { add: (n: number) => void };
+  };
+  fs?: {
+    read: (p: string) => Promise<string>;
+    write: (p: string, data: string | Uint8Array) => Promise<void>;
+    exists: (p: string) => Promise<boolean>;
+  };
+  memo?: Record<string, unknown>;
+  /** Run id of the checkpointed workflow to resume (`--resume`) */
+  resume?: string;
+  /** Aborted when the run is cancelled or times out, tasks should stop then */
+  signal?: AbortSignal;
+  /** `false` to run cached tasks anyway (`--no-cache`), their results are stored again */
+  cache?: boolean;
+};
+
+// ---------- Hooks ----------
+
+type StepEvent = { workflow: string; step: string };
+
+export type HookPayload = {
+  'cli:boot': { argv: string[] };
+  'config:load': { config: Record<string, unknown> };
+  'ctx:ready': { ctx: RunCtx };
+  'args:parsed': { args: Record<string, unknown> };
+  'command:resolved': { name?: string };
+  'workflow:compile': { id: string };
+  'task:will:call': { id: string; input: unknown };
+  'task:did:call': { id: string; res: unknown; cache?: 'hit' | 'miss' | 'bypass' };
+  /** Instead of `task:did:call` when the task was cancelled or timed out */
+  'task:did:cancel': { id: string; reason: unknown };
+  'step:will:run': StepEvent & { attempt: number; input: unknown };
+  'step:did:run': StepEvent & {
+    attempt: number;
+    output: unknown;
+    duration: number;
+  };
+  'step:did:skip': StepEvent;
+  'step:will:retry': StepEvent & {
+    attempt: number;
+    delay: number;
+    error: unknown;
+  };
+  'step:did:fail': StepEvent & { attempt: number; error: unknown };
+  'output:will:emit': { out: Output };
+  'output:did:emit': { out: Output };
+  'persist:will': { out: Output };
+  'persist:did': { ok: boolean };
+  'report:will': { out: Output };
+  'report:did': { ok: boolean };
+  'cli:done': null;
+};
+
+export type HookName = keyof HookPayload;
+
+export interface Hooks {
+  hook<K extends HookName>(name: K, fn: (p: HookPayload[K]) => any | Promise<any>): Unhook;
+  callHook<K extends HookName>(name: K, payload: HookPayload[K]): Promise<void>;
+}
+
+// ---------- Tasks ----------
+
+export type CachedResult = { value: unknown; createdAt: number; expiresAt?: number };
+
+export interface TaskCacheStore {
+  get(key: string): Promise<CachedResult | undefined>;
+  set(key: string, entry: CachedResult): Promise<void>;
+}
+
+export type TaskCacheOptions<TIn, Ctx = RunCtx> = {
+  /** Part of the key besides the input, e.g. a version */
+  key?: (input: TIn, ctx: Ctx) => unknown;
+  /** Files, relative to `ctx.cwd`, whose content is part of the key */
+  files?: string[] | ((input: TIn, ctx: Ctx) => string[]);
+  /** Milliseconds a result stays valid (default: forever) */
+  ttl?: number;
+  /** Where results are kept (default: `ctx.memo`, so for the run) */
+  store?: TaskCacheStore;
+};
+
+export interface TaskSpec<TIn, TOut, Ctx = RunCtx> {
+  id: string;
+  /** Validates the input, which is typed after it */
+  in?: ZodType<TIn, ZodTypeDef, any>;
+  out?: ZodTypeAny;
+  /** `false` when running the task twice is not safe, see `Task.idempotent` */
+  idempotent?: boolean;
+  /** Milliseconds before the call rejects with a `TaskTimeoutError` and `ctx.signal` aborts */
+  timeout?: number;
+  /** Return the stored result when the input, and the files it declares, did not change */
+  cache?: boolean | TaskCacheOptions<TIn, Ctx>;
+  run: (input: TIn, ctx: Ctx) => Promise<TOut> | TOut;
+}
+
+export interface Task<TIn, TOut, Ctx = RunCtx> {
+  id: string;
+  /** Resumed workflows ask before running again a task that is not */
+  idempotent?: boolean;
+  call: (input: TIn, ctx: Ctx) => Promise<TOut>;
+}
+
+// ---------- Workflows ----------
+
+export type StepFn<I, O, Ctx> = (input: I, ctx: Ctx) => Promise<O> | O;
+
+export type StepSpec<State, K extends string, O, Ctx> = {
+  id: K;
+  use: Task<any, O, Ctx> | StepFn<any, O, Ctx>;
+  select?: (state: State, ctx: Ctx) => any;
+  as?: K;
+};
+
+export type WorkflowSeed<State, Ctx> = State | ((ctx: Ctx) => State);
+
+export interface Workflow<State, Ctx = RunCtx> {
+  id: string;
+  run: (ctx: Ctx) => Promise<State>;
+}
+
+// Accumulated state, with the output of a step under its key
+export type WithKey<S, K extends string, V> = S & Record<K, V>;
+
+type StepKey<T> = T extends { as: infer K extends string } ? K : T extends { id: infer K extends string } ? K : never;
+
+type UseOutput<U> = U extends Task<any, infer O, any> ? O : U extends (...args: any[]) => infer O ? Awaited<O> : unknown;
+
+type StepOutput<T> = T extends { use: infer U } ? UseOutput<U> : unknown;
+
+type Intersect<U> = (U extends unknown ? (value: U) => void : never) extends (value: infer I) => void ? I : never;
+
+// State after every step, with the output of each step under its key
+export type WorkflowState<S, Steps extends readonly unknown[]> = S &
+  Intersect<{ [I in keyof Steps]: Record<StepKey<Steps[I]>, StepOutput<Steps[I]>> }[number]>;
+
+// ---------- AI wrappers ----------
+
+export type AITool<P extends ZodTypeAny = ZodTypeAny, R = any> = {
+  description?: string;
+  schema: P;
+  execute: (input: z.infer<P>, ctx: RunCtx) => Promise<R> | R;
+};
+
+export type AIWrapperOptions = {
+  /** Defaults to the model of `ctx.ai` */
+  model?: ProviderAIModel;
+  tools?: Record<string, AITool<any, any>>;
+  system?: string;
+};
+
+// ---------- Commands ----------
+
+/** A regular command whose `run` also gets the run context */
+export interface Command<T extends ArgsDef = ArgsDef, Ctx = RunCtx> extends Omit<CommandDef<T>, 'meta' | 'run'> {
+  meta?: CommandMeta;
+  run?: (context: CommandContext<T> & { ctx: Ctx }) => any | Promise<any>;
+}
+
+export type AIWrapperCommandSpec<T extends ArgsDef, Ctx> = {
+  meta?: CommandMeta;
+  args?: T;
+  ai: AIWrapperOptions;
+  /** Prompt sent before `run`, to let the model plan */
+  plan?: (args: ParsedArgs<T>, ctx: Ctx) => string;
+  onToolCall?: (name: string, input: unknown, ctx: Ctx) => void | Promise<void>;
+  run: (args: ParsedArgs<T>, ctx: Ctx) => Promise<Output> | Output;
+};
+
+// ---------- Plugins ----------
+
+export type Plugin = (h: Hooks, ctx: RunCtx) => void | Promise<void>;
+
+export interface LifecycleAPI {
+  hooks: Hooks;
+  withCtx: <T>(ctx: RunCtx, fn: () => Promise<T> | T) => Promise<T>;
+}
+
+export type PersistAdapter = {
+  write: (p: string, data: string | Uint8Array) => Promise<void>;
+  read?: (p: string) => Promise<string>;
+};
+
+export type ReportAdapter = {
+  brief: (out: Output, ctx: RunCtx) => Promise<void> | void;
+};
+
+// ---------- Orchestration ----------
+
+export type RunLifecycleOptions<TArgs extends ArgsDef, Ctx> = {
+  cmd: Command<TArgs, Ctx>;
+  args: ParsedArgs<TArgs>;
+  ctx: Ctx;
+  runStep: (ctx: Ctx) => Promise<Output> | Output;
+  /** Arguments of the run, `--resume` and `--no-cache` are read from them (default `process.argv.slice(2)`) */
+  rawArgs?: string[];
+  /** Applied before the first phase, they may extend the context */
+  plugins?: Plugin[];
+  /** Print errors before rethrowing them (default `true`) */
+  reportErrors?: boolean;
+};
@@ -22,6 +22,12 @@ export interface RenderResult {
   path: string;
   content: string;
   mode?: string;
+  /** Inject `content` into the existing file instead of replacing it */
+  inject?: InjectOptions;
+  /** Recorded in the generation manifest */
+  template?: string;
+  contextHash?: string;
+  entity?: string;
 }
 
 export interface GenerationResult {
@@ -40,6 +46,8 @@ export interface UnjucksOptions {
   cache?: boolean;
   parallel?: boolean;
   maxConcurrency?: number;
+  /** Track generated files in `<outputDir>/.unjucks/manifest.json` (default: true) */
+  manifest?: boolean;
 }
 
 export interface UnjucksContext {
@@ -490,6 +498,16 @@ export default UNJUCKS;
 // Re-export memory cache from shared utilities
 export { MemoryCache } from '../cache';
 
+// Generation manifest and three-way merge of regenerated files
+export { mergeThreeWay } from './merge';
+export type { MergeResult } from './merge';
+export type { Manifest, ManifestEntry, CleanResult } from './manifest';
+export type { InjectOptions } from './inject';
+
+// Writing of rendered files, without a context
+export { writeFiles } from './output';
+export type { WriteOptions } from './output';
+
 // =============================================================================
 // INTERNAL IMPLEMENTATION 
 // Current monolithic implementation for backward compatibility
@@ -497,11 +515,10 @@ export { MemoryCache } from '../cache';
 
 import nunjucks from 'nunjucks';
 import { createContext } from 'unctx';
-import { resolve, join, relative } from 'pathe';
-import { readFile, writeFile, mkdir, access } from 'node:fs/promises';
+import { resolve, join } from 'pathe';
+import { readFile, access } from 'node:fs/promises';
 import { glob } from 'fast-glob';
 import matter from 'gray-matter';
-import { diff } from 'jest-diff';
 import { defu } from 'defu';
 import { hash } from 'ohash';
 import chalk from 'chalk';
@@ -509,6 +526,11 @@ import ora from 'ora';
 import { loadGraph, toContext, findEntities, getValue, askGraph, createOntology } from '../untology';
 import { registerExtensions, clearExtensionCaches } from './extensions';
 import { StreamingRenderer, streamTemplates, streamToFile } from './streaming';
+import { resolveInjectOptions } from './inject';
+import type { InjectOptions } from './inject';
+import { cleanManifest } from './manifest';
+import type { CleanResult } from './manifest';
+import { writeFiles } from './output';
 import type { Store } from 'n3';
 
 // Context management
@@ -523,7 +545,8 @@ export async function createUnjucks(options: UnjucksOptions = {}): Promise<Unjuc
     outputDir: './src',
     cache: true,
     parallel: true,
-    maxConcurrency: 10
+    maxConcurrency: 10,
+    manifest: true
   });
 
   const env = nunjucks.configure(resolve(opts.templatesDir), {
@@ -922,6 +945,43 @@ export async function generateFromOntology(
   }
 }
 
+/**
+ * Remove generated files whose ontology entity no longer exists. Files
+ * edited since their generation are kept unless `force` is set.
+ */
+export async function cleanOutputs(
+  ontologySource: string,
+  options: Partial<UnjucksOptions> & { force?: boolean } = {}
+): Promise<CleanResult> {
+  const ctx = unjucksContext.use();
+  if (!ctx) throw new Error('Unjucks not initialized');
+  
+  const opts = defu(options, ctx.options);
+  
+  try {
+    await createOntology();
+    await loadGraph(ontologySource);
+  } catch (error) {
+    throw new Error(`Failed to load ontology graph: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  const entities = new Set(findEntities());
+  
+  const result = await cleanManifest(
+    resolve(opts.outputDir!),
+    entry => entry.entity !== undefined && !entities.has(entry.entity),
+    { dryRun: opts.dryRun, force: opts.force }
+  );
+  
+  for (const path of result.removed) {
+    console.log(opts.dryRun ? chalk.blue(`[DRY RUN] Would remove: ${path}`) : chalk.green(`✓ removed ${path}`));
+  }
+  for (const path of result.kept) {
+    console.warn(chalk.yellow(`Kept ${path} (edited since generation, use --force to remove)`));
+  }
+  
+  return result;
+}
+
 /**
  * Render a template with context and comprehensive error handling
  */
@@ -987,6 +1047,21 @@ export async function renderTemplate(
     throw new Error(`Template ${tpl.id} produced invalid output`);
   }
   
+  const source = {
+    template: tpl.id,
+    contextHash: hash(context),
+    entity: typeof context?.id === 'string' ? context.id : undefined
+  };
+  
+  let inject: InjectOptions | undefined;
+  try {
+    inject = resolveInjectOptions(frontMatter, value =>
+      ctx.nunjucks.renderString(value, sanitizedContext)
+    );
+  } catch (error) {
+    throw new Error(`Failed to resolve injection options for template ${tpl.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  
   // Handle multiple outputs with proper path resolution
   try {
     if (Array.isArray(to)) {
@@ -995,7 +1070,9 @@ export async function renderTemplate(
         results.push({
           path: resolvedPath,
           content: rendered,
-          mode: frontMatter.mode
+          mode: frontMatter.mode,
+          inject,
+          ...source
         });
       }
     } else if (to) {
@@ -1003,7 +1080,9 @@ export async function renderTemplate(
       results.push({
         path: resolvedPath,
         content: rendered,
-        mode: frontMatter.mode
+        mode: frontMatter.mode,
+        inject,
+        ...source
       });
     } else {
       // Generate default output path with fallbacks
@@ -1019,7 +1098,9 @@ export async function renderTemplate(
       results.push({
         path: defaultPath,
         content: rendered,
-        mode: frontMatter.mode
+        mode: frontMatter.mode,
+        inject,
+        ...source
       });
     }
   } catch (error) {
@@ -1047,7 +1128,7 @@ export async function renderTemplate(
 }
 
 /**
- * Write output files with atomic operations and comprehensive error handling
+ * Write output files with the options of the current context
  */
 export async function writeOutput(
   files: RenderResult[],
@@ -1057,118 +1138,7 @@ export async function writeOutput(
   if (!ctx) throw new Error('Unjucks not initialized');
   
   const opts = defu(options, ctx.options);
-  const errors: Error[] = [];
-  
-  if (!files || files.length === 0) {
-    throw new Error('No files to write');
-  }
-  
-  // Validate output directory
-  const outputDir = resolve(opts.outputDir!);
-  
-  try {
-    await mkdir(outputDir, { recursive: true });
-  } catch (error) {
-    throw new Error(`Failed to create output directory ${outputDir}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-  
-  // Process files with conflict detection and atomic writes
-  for (const file of files) {
-    try {
-      const outputPath = resolve(outputDir, file.path);
-      const dir = join(outputPath, '..');
-      
-      // Security: Ensure output path is within output directory
-      const relativePath = relative(outputDir, outputPath);
-      if (relativePath.startsWith('..') || join(outputDir, relativePath) !== outputPath) {
-        throw new Error(`Output path ${file.path} is outside output directory`);
-      }
-      
-      // Create directory structure
-      try {
-        await mkdir(dir, { recursive: true });
-      } catch (error) {
-        throw new Error(`Failed to create directory ${dir}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-      
-      // Handle existing files and conflict resolution
-      let shouldWrite = true;
-      let existingContent: string | null = null;
-      
-      try {
-        existingContent = await readFile(outputPath, 'utf-8');
-        
-        // Check for conflicts
-        if (existingContent === file.content) {
-          console.log(chalk.dim(`Skipped ${file.path} (unchanged)`));
-          shouldWrite = false;
-        } else if (opts.showDiff) {
-          const difference = diff(existingContent, file.content, {
-            aAnnotation: 'existing',
-            bAnnotation: 'generated'
-          });
-          
-          if (difference) {
-            console.log(chalk.yellow(`\nChanges for ${file.path}:`));
-            console.log(difference);
-          }
-        }
-        
-        // Create backup if file exists and content differs
-        if (shouldWrite && !opts.dryRun && existingContent !== file.content) {
-          const backupPath = `${outputPath}.backup.${Date.now()}`;
-          try {
-            await writeFile(backupPath, existingContent);
-            console.log(chalk.dim(`Backup created: ${backupPath}`));
-          } catch {
-            console.warn(`Warning: Could not create backup for ${file.path}`);
-          }
-        }
-      } catch {
-        // File doesn't exist, this is fine
-        if (opts.showDiff) {
-          console.log(chalk.green(`\nNew file: ${file.path}`));
-        }
-      }
-      
-      // Write file atomically
-      if (shouldWrite && !opts.dryRun) {
-        const tempPath = `${outputPath}.tmp.${Date.now()}`;
-        
-        try {
-          // Write to temporary file first
-          await writeFile(tempPath, file.content, { 
-            mode: file.mode ? parseInt(file.mode, 8) : 0o644,
-            encoding: 'utf-8'
-          });
-          
-          // Atomic rename
-          const fs = await import('node:fs/promises');
-          await fs.rename(tempPath, outputPath);
-          
-          console.log(chalk.green(`✓ ${file.path}`));
-        } catch (error) {
-          // Clean up temp file if it exists
-          try {
-            await import('node:fs/promises').then(fs => fs.unlink(tempPath));
-          } catch {}
-          
-          throw new Error(`Failed to write ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-      } else if (opts.dryRun) {
-        console.log(chalk.blue(`[DRY RUN] Would write: ${file.path}`));
-      }
-    } catch (error) {
-      errors.push(new Error(`Failed to process file ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`));
-    }
-  }
-  
-  // Report any errors
-  if (errors.length > 0) {
-    console.error(chalk.red(`\nFailed to write ${errors.length} files:`));
-    errors.forEach(error => console.error(chalk.red(`  - ${error.message}`)));
-    throw new Error(`Failed to write ${errors.length} out of ${files.length} files`);
-  }
+  await writeFiles(files, { ...opts, outputDir: opts.outputDir! });
 }
 
 /**
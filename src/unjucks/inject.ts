@@ -0,0 +1,122 @@
+/**
+ * Injection of rendered templates into existing files
+ *
+ * Templates whose front matter sets `inject: true` (or one of `append`,
+ * `prepend`, `at_line`) add their output to a file instead of replacing it:
+ *
+ * ```yaml
+ * ---
+ * to: src/routes/index.ts
+ * inject: true
+ * after: "^// routes"
+ * skip_if: "{{ name }}Route"
+ * ---
+ * ```
+ */
+
+export interface InjectOptions {
+  /** Insert before the first line matching this pattern */
+  before?: string;
+  /** Insert after the first line matching this pattern */
+  after?: string;
+  /** Insert at the end of the file */
+  append?: boolean;
+  /** Insert at the start of the file */
+  prepend?: boolean;
+  /** Insert at this (zero based) line index */
+  atLine?: number;
+  /** Leave the file untouched when its content matches this pattern */
+  skipIf?: string;
+}
+
+export interface InjectResult {
+  content: string;
+  /** Why nothing was injected */
+  skipped?: string;
+}
+
+/**
+ * Read injection options from template front matter. String values are
+ * passed through `render` so anchors can reference the template context.
+ * Returns `undefined` when the template replaces its target instead.
+ */
+export function resolveInjectOptions(
+  frontMatter: Record<string, any>,
+  render: (value: string) => string = (value) => value,
+): InjectOptions | undefined {
+  const hasAtLine =
+    frontMatter.at_line !== undefined && frontMatter.at_line !== null;
+  if (
+    !frontMatter.inject &&
+    !frontMatter.append &&
+    !frontMatter.prepend &&
+    !hasAtLine
+  ) {
+    return undefined;
+  }
+
+  const text = (value: unknown) =>
+    value === undefined || value === null ? undefined : render(String(value));
+
+  return {
+    before: text(frontMatter.before),
+    after: text(frontMatter.after),
+    append: frontMatter.append === true || undefined,
+    prepend: frontMatter.prepend === true || undefined,
+    atLine: hasAtLine ? Number(frontMatter.at_line) : undefined,
+    skipIf: text(frontMatter.skip_if),
+  };
+}
+
+/**
+ * Insert `content` into `existing` as described by `options`
+ */
+export function injectContent(
+  existing: string,
+  content: string,
+  options: InjectOptions,
+): InjectResult {
+  if (options.skipIf && toRegExp(options.skipIf, "skip_if").test(existing)) {
+    return { content: existing, skipped: "skip_if matched" };
+  }
+
+  const lines = existing.split("\n");
+  const insert = content.replace(/\r?\n$/, "");
+
+  if (options.prepend) {
+    lines.unshift(insert);
+  } else if (options.append) {
+    // Keep the final newline of the file last
+    const end = lines.at(-1) === "" ? lines.length - 1 : lines.length;
+    lines.splice(end, 0, insert);
+  } else if (options.atLine !== undefined) {
+    if (!Number.isInteger(options.atLine) || options.atLine < 0) {
+      throw new Error(`Invalid at_line: ${options.atLine}`);
+    }
+    lines.splice(Math.min(options.atLine, lines.length), 0, insert);
+  } else if (options.before || options.after) {
+    const anchor = (options.before || options.after)!;
+    const pattern = toRegExp(anchor, options.before ? "before" : "after");
+    const index = lines.findIndex((line) => pattern.test(line));
+    if (index === -1) {
+      return { content: existing, skipped: `anchor "${anchor}" not found` };
+    }
+    lines.splice(options.before ? index : index + 1, 0, insert);
+  } else {
+    throw new Error(
+      "Injection requires one of before, after, append, prepend or at_line",
+    );
+  }
+
+  return { content: lines.join("\n") };
+}
+
+function toRegExp(pattern: string, key: string): RegExp {
+  try {
+    return new RegExp(pattern, "m");
+  } catch (error) {
+    throw new Error(
+      `Invalid ${key} pattern "${pattern}": ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Generation manifest
+ *
+ * `<outputDir>/.unjucks/manifest.json` records every generated file with
+ * the template and context it came from and the hash of what was written.
+ * The written content itself is kept under `.unjucks/base/` so that a hand
+ * edited file can be three-way merged on the next generation.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, join, relative, resolve } from "pathe";
+
+export const MANIFEST_DIR = ".unjucks";
+
+export interface ManifestEntry {
+  /** Id of the template the file was rendered from */
+  template?: string;
+  contextHash?: string;
+  /** Hash of the generated content, before any merge */
+  contentHash: string;
+  /** Ontology entity the file was generated for */
+  entity?: string;
+  generatedAt: string;
+}
+
+export interface Manifest {
+  version: 1;
+  files: Record<string, ManifestEntry>;
+}
+
+export type OutputState = "new" | "untracked" | "untouched" | "modified";
+
+export interface CleanResult {
+  removed: string[];
+  /** Orphaned files left in place because they were edited by hand */
+  kept: string[];
+}
+
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+export async function loadManifest(outputDir: string): Promise<Manifest> {
+  try {
+    const manifest = JSON.parse(
+      await readFile(manifestPath(outputDir), "utf8"),
+    );
+    if (manifest?.version === 1 && manifest.files) {
+      return manifest;
+    }
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") {
+      throw new Error(
+        `Failed to read ${manifestPath(outputDir)}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+  return { version: 1, files: {} };
+}
+
+export async function saveManifest(
+  outputDir: string,
+  manifest: Manifest,
+): Promise<void> {
+  const path = manifestPath(outputDir);
+  await mkdir(dirname(path), { recursive: true });
+  const files = Object.fromEntries(
+    Object.entries(manifest.files).sort(([a], [b]) => a.localeCompare(b)),
+  );
+  await writeFile(path, JSON.stringify({ ...manifest, files }, null, 2) + "\n");
+}
+
+/**
+ * Key of `file` in the manifest, its path relative to `outputDir`, so that
+ * `./user.ts` and `user.ts` are the same file
+ */
+export function manifestKey(outputDir: string, file: string): string {
+  const root = resolve(outputDir);
+  return relative(root, resolve(root, file));
+}
+
+/**
+ * Tell apart files that were never generated, files left as generated and
+ * files edited by hand since the last generation.
+ */
+export function getOutputState(
+  entry: ManifestEntry | undefined,
+  current: string | null,
+): OutputState {
+  if (current === null) {
+    return "new";
+  }
+  if (!entry) {
+    return "untracked";
+  }
+  return hashContent(current) === entry.contentHash ? "untouched" : "modified";
+}
+
+/**
+ * Content of `file` as last generated, or `null` when it was not kept
+ */
+export async function readBase(
+  outputDir: string,
+  file: string,
+): Promise<string | null> {
+  try {
+    return await readFile(basePath(outputDir, file), "utf8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record `content` as the latest generation of `file`
+ */
+export async function recordOutput(
+  outputDir: string,
+  manifest: Manifest,
+  file: string,
+  content: string,
+  entry: Omit<ManifestEntry, "contentHash" | "generatedAt">,
+): Promise<void> {
+  const path = basePath(outputDir, file);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, content);
+  manifest.files[manifestKey(outputDir, file)] = {
+    ...entry,
+    contentHash: hashContent(content),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Remove the generated files for which `isOrphan` returns true. Files edited
+ * by hand since their generation are only removed with `force`.
+ */
+export async function cleanManifest(
+  outputDir: string,
+  isOrphan: (entry: ManifestEntry, file: string) => boolean,
+  options: { dryRun?: boolean; force?: boolean } = {},
+): Promise<CleanResult> {
+  const manifest = await loadManifest(outputDir);
+  const result: CleanResult = { removed: [], kept: [] };
+
+  for (const [file, entry] of Object.entries(manifest.files)) {
+    if (!isOrphan(entry, file)) {
+      continue;
+    }
+    const current = await readFile(resolve(outputDir, file), "utf8").catch(
+      () => null,
+    );
+    if (getOutputState(entry, current) === "modified" && !options.force) {
+      result.kept.push(file);
+      continue;
+    }
+    result.removed.push(file);
+    if (!options.dryRun) {
+      await rm(resolve(outputDir, file), { force: true });
+      await rm(basePath(outputDir, file), { force: true });
+      delete manifest.files[file];
+    }
+  }
+
+  if (!options.dryRun && result.removed.length > 0) {
+    await saveManifest(outputDir, manifest);
+  }
+  return result;
+}
+
+function manifestPath(outputDir: string) {
+  return join(resolve(outputDir), MANIFEST_DIR, "manifest.json");
+}
+
+function basePath(outputDir: string, file: string) {
+  return join(
+    resolve(outputDir),
+    MANIFEST_DIR,
+    "base",
+    manifestKey(outputDir, file),
+  );
+}
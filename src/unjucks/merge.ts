@@ -0,0 +1,131 @@
+/**
+ * Line based three-way merge of regenerated files
+ */
+
+export interface MergeResult {
+  content: string;
+  /** Number of conflicting hunks, marked in `content` */
+  conflicts: number;
+}
+
+/**
+ * Merge the changes made to `base` (the previous output) in `current` (the
+ * file on disk) and in `generated` (the new output). Hunks changed on both
+ * sides in different ways are kept with conflict markers.
+ */
+export function mergeThreeWay(
+  base: string,
+  current: string,
+  generated: string,
+): MergeResult {
+  const baseLines = base.split("\n");
+  const currentLines = current.split("\n");
+  const generatedLines = generated.split("\n");
+  const toCurrent = matchLines(baseLines, currentLines);
+  const toGenerated = matchLines(baseLines, generatedLines);
+
+  const lines: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let c = 0;
+  let g = 0;
+
+  while (b <= baseLines.length) {
+    // Next base line kept by both sides, or the end of all files
+    let sync = b;
+    while (
+      sync < baseLines.length &&
+      (toCurrent[sync] === -1 || toGenerated[sync] === -1)
+    ) {
+      sync++;
+    }
+    const end = sync === baseLines.length;
+    const nextC = end ? currentLines.length : toCurrent[sync];
+    const nextG = end ? generatedLines.length : toGenerated[sync];
+
+    const baseHunk = baseLines.slice(b, sync);
+    const currentHunk = currentLines.slice(c, nextC);
+    const generatedHunk = generatedLines.slice(g, nextG);
+    if (sameLines(currentHunk, baseHunk)) {
+      lines.push(...generatedHunk);
+    } else if (
+      sameLines(generatedHunk, baseHunk) ||
+      sameLines(generatedHunk, currentHunk)
+    ) {
+      lines.push(...currentHunk);
+    } else {
+      conflicts++;
+      lines.push(
+        "<<<<<<< current",
+        ...currentHunk,
+        "=======",
+        ...generatedHunk,
+        ">>>>>>> generated",
+      );
+    }
+
+    if (end) {
+      break;
+    }
+    lines.push(baseLines[sync]);
+    b = sync + 1;
+    c = nextC + 1;
+    g = nextG + 1;
+  }
+
+  return { content: lines.join("\n"), conflicts };
+}
+
+/**
+ * For every line of `a`, the index of the line of `b` it is matched with in
+ * a longest common subsequence, or -1.
+ */
+function matchLines(a: string[], b: string[]): number[] {
+  const matches = Array.from<number>({ length: a.length }).fill(-1);
+
+  // Common prefix and suffix need no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches[start] = start;
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    matches[endA] = endB;
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  const table = new Uint32Array((rows + 1) * (cols + 1));
+  const at = (i: number, j: number) => i * (cols + 1) + j;
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      table[at(i, j)] =
+        a[start + i] === b[start + j]
+          ? table[at(i + 1, j + 1)] + 1
+          : Math.max(table[at(i + 1, j)], table[at(i, j + 1)]);
+    }
+  }
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (a[start + i] === b[start + j]) {
+      matches[start + i] = start + j;
+      i++;
+      j++;
+    } else if (table[at(i + 1, j)] >= table[at(i, j + 1)]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]) {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
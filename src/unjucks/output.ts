@@ -0,0 +1,265 @@
+/**
+ * Writing of rendered files into the output directory
+ *
+ * Injects into existing files, merges hand edits into regenerated ones and
+ * records what was generated in the manifest.
+ */
+
+import {
+  readFile,
+  writeFile,
+  mkdir,
+  rename,
+  stat,
+  unlink,
+} from "node:fs/promises";
+import { resolve, join, relative } from "pathe";
+import { diff } from "jest-diff";
+import chalk from "chalk";
+import { injectContent } from "./inject";
+import {
+  loadManifest,
+  saveManifest,
+  getOutputState,
+  manifestKey,
+  readBase,
+  recordOutput,
+} from "./manifest";
+import { mergeThreeWay } from "./merge";
+import type { RenderResult, UnjucksOptions } from "./index";
+
+export type WriteOptions = Pick<
+  UnjucksOptions,
+  "dryRun" | "showDiff" | "manifest"
+> & {
+  outputDir: string;
+};
+
+/**
+ * Write output files with atomic operations and comprehensive error handling.
+ * Options are used as given, `writeOutput` fills them in from the context.
+ */
+export async function writeFiles(
+  files: RenderResult[],
+  opts: WriteOptions,
+): Promise<void> {
+  const errors: Error[] = [];
+  const conflicts: string[] = [];
+
+  if (!files || files.length === 0) {
+    throw new Error("No files to write");
+  }
+
+  // Validate output directory
+  const outputDir = resolve(opts.outputDir);
+
+  try {
+    await mkdir(outputDir, { recursive: true });
+  } catch (error) {
+    throw new Error(
+      `Failed to create output directory ${outputDir}: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+
+  const manifest =
+    opts.manifest === false ? undefined : await loadManifest(outputDir);
+
+  // Process files with conflict detection and atomic writes
+  for (const file of files) {
+    try {
+      const outputPath = resolve(outputDir, file.path);
+      const dir = join(outputPath, "..");
+
+      // Security: Ensure output path is within output directory
+      const relativePath = relative(outputDir, outputPath);
+      if (
+        relativePath.startsWith("..") ||
+        join(outputDir, relativePath) !== outputPath
+      ) {
+        throw new Error(`Output path ${file.path} is outside output directory`);
+      }
+
+      // Create directory structure
+      try {
+        await mkdir(dir, { recursive: true });
+      } catch (error) {
+        throw new Error(
+          `Failed to create directory ${dir}: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+
+      // Handle existing files and conflict resolution
+      let existingContent: string | null = null;
+      let content = file.content;
+
+      try {
+        existingContent = await readFile(outputPath, "utf-8");
+      } catch {
+        // File doesn't exist, this is fine
+      }
+
+      // Injections edit the existing file, which must be there
+      if (file.inject) {
+        if (existingContent === null) {
+          throw new Error(
+            `Cannot inject into ${file.path}: file does not exist`,
+          );
+        }
+
+        const injected = injectContent(
+          existingContent,
+          file.content,
+          file.inject,
+        );
+        if (injected.skipped) {
+          console.log(chalk.dim(`Skipped ${file.path} (${injected.skipped})`));
+          continue;
+        }
+        content = injected.content;
+      }
+
+      // Tell generated files apart from files edited since their generation
+      const state =
+        file.inject || !manifest
+          ? existingContent === null
+            ? "new"
+            : "untracked"
+          : getOutputState(
+              manifest.files[manifestKey(outputDir, file.path)],
+              existingContent,
+            );
+      let merged = false;
+
+      if (state === "modified" && existingContent !== content) {
+        const base = await readBase(outputDir, file.path);
+        if (base !== null) {
+          const result = mergeThreeWay(base, existingContent!, file.content);
+          content = result.content;
+          merged = true;
+          if (result.conflicts > 0) {
+            conflicts.push(file.path);
+          }
+        }
+      }
+
+      const shouldWrite = existingContent !== content;
+
+      if (existingContent === null) {
+        if (opts.showDiff) {
+          console.log(chalk.green(`\nNew file: ${file.path}`));
+        }
+      } else if (!shouldWrite) {
+        console.log(chalk.dim(`Skipped ${file.path} (unchanged)`));
+      } else {
+        if (opts.showDiff) {
+          const difference = diff(existingContent, content, {
+            aAnnotation: "existing",
+            bAnnotation: merged ? "merged" : "generated",
+          });
+
+          if (difference) {
+            console.log(chalk.yellow(`\nChanges for ${file.path}:`));
+            console.log(difference);
+          }
+        }
+
+        // Files left as generated are replaced, anything else is backed up.
+        // Injections keep what the file had and need no backup
+        if (!opts.dryRun && !file.inject && state !== "untouched" && !merged) {
+          const backupPath = `${outputPath}.backup.${Date.now()}`;
+          try {
+            await writeFile(backupPath, existingContent);
+            console.log(chalk.dim(`Backup created: ${backupPath}`));
+          } catch {
+            console.warn(`Warning: Could not create backup for ${file.path}`);
+          }
+        }
+      }
+
+      const verb = file.inject ? "inject into" : merged ? "merge" : "write";
+
+      // Write file atomically
+      if (shouldWrite && !opts.dryRun) {
+        const tempPath = `${outputPath}.tmp.${Date.now()}`;
+
+        try {
+          // Existing files, injected into or regenerated, keep their mode
+          const mode = file.mode
+            ? parseInt(file.mode, 8)
+            : existingContent === null
+              ? 0o644
+              : (await stat(outputPath)).mode & 0o777;
+
+          // Write to temporary file first
+          await writeFile(tempPath, content, {
+            mode,
+            encoding: "utf-8",
+          });
+
+          // Atomic rename
+          await rename(tempPath, outputPath);
+
+          if (conflicts.includes(file.path)) {
+            console.log(chalk.red(`✗ conflict ${file.path}`));
+          } else {
+            console.log(
+              chalk.green(
+                `${file.inject ? "✓ injected" : merged ? "✓ merged" : "✓"} ${file.path}`,
+              ),
+            );
+          }
+        } catch (error) {
+          // Clean up temp file if it exists
+          try {
+            await unlink(tempPath);
+          } catch {}
+
+          throw new Error(
+            `Failed to write ${file.path}: ${error instanceof Error ? error.message : "Unknown error"}`,
+          );
+        }
+      } else if (opts.dryRun) {
+        console.log(chalk.blue(`[DRY RUN] Would ${verb}: ${file.path}`));
+      }
+
+      // The manifest keeps what was generated, not the merge result
+      if (manifest && !file.inject && !opts.dryRun) {
+        await recordOutput(outputDir, manifest, file.path, file.content, {
+          template: file.template,
+          contextHash: file.contextHash,
+          entity: file.entity,
+        });
+      }
+    } catch (error) {
+      errors.push(
+        new Error(
+          `Failed to process file ${file.path}: ${error instanceof Error ? error.message : "Unknown error"}`,
+        ),
+      );
+    }
+  }
+
+  if (manifest && !opts.dryRun) {
+    await saveManifest(outputDir, manifest);
+  }
+
+  // Report any errors
+  if (errors.length > 0) {
+    console.error(chalk.red(`\nFailed to write ${errors.length} files:`));
+    errors.forEach((error) => console.error(chalk.red(`  - ${error.message}`)));
+    throw new Error(
+      `Failed to write ${errors.length} out of ${files.length} files`,
+    );
+  }
+
+  if (conflicts.length > 0) {
+    console.error(chalk.red(`\nMerge conflicts in ${conflicts.length} files:`));
+    conflicts.forEach((path) => console.error(chalk.red(`  - ${path}`)));
+    if (opts.dryRun) {
+      return;
+    }
+    throw new Error(
+      `Resolve the conflict markers in ${conflicts.join(", ")} and generate again`,
+    );
+  }
+}
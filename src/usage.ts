@@ -1,8 +1,13 @@
 import consola from "consola";
 import { colors } from "consola/utils";
-import { formatLineColumns, resolveValue } from "./_utils";
-import type { ArgsDef, CommandDef } from "./types";
-import { resolveArgs } from "./args";
+import { CLIError, formatLineColumns, resolveValue } from "./_utils";
+import type { Arg, ArgGroup, ArgsDef, CommandDef } from "./types";
+import { resolveArgRelations, resolveArgs } from "./args";
+import {
+  describeCommand,
+  type ArgDescription,
+  type CommandDescription,
+} from "./describe";
 
 export async function showUsage<T extends ArgsDef = ArgsDef>(
   cmd: CommandDef<T>,
@@ -15,6 +20,22 @@ export async function showUsage<T extends ArgsDef = ArgsDef>(
   }
 }
 
+function renderArgDescription(arg: Arg, argGroups: ArgGroup[] = []) {
+  const { conflicts, requires } = resolveArgRelations(arg, argGroups);
+  const toFlags = (names: string[]) =>
+    names.map((name) => `--${name}`).join(", ");
+
+  return [
+    arg.description,
+    conflicts.length > 0 &&
+      colors.gray(`(conflicts with ${toFlags(conflicts)})`),
+    requires.length > 0 && colors.gray(`(requires ${toFlags(requires)})`),
+    arg.env && colors.gray(`(env: ${arg.env})`),
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
 // `no` prefix matcher (kebab-case or camelCase)
 const negativePrefixRe = /^no[-A-Z]/;
 
@@ -24,6 +45,7 @@ export async function renderUsage<T extends ArgsDef = ArgsDef>(
 ) {
   const cmdMeta = await resolveValue(cmd.meta || {});
   const cmdArgs = resolveArgs(await resolveValue(cmd.args || {}));
+  const argGroups = await resolveValue(cmd.argGroups || []);
   const parentMeta = await resolveValue(parent?.meta || {});
 
   const commandName =
@@ -31,6 +53,7 @@ export async function renderUsage<T extends ArgsDef = ArgsDef>(
     (cmdMeta.name || process.argv[1]);
 
   const argLines: string[][] = [];
+  const groupLines = new Map<string, string[][]>();
   const posLines: string[][] = [];
   const commandsLines: string[][] = [];
   const exampleLines: string[][] = [];
@@ -38,31 +61,44 @@ export async function renderUsage<T extends ArgsDef = ArgsDef>(
 
   for (const arg of cmdArgs) {
     if (arg.type === "positional") {
-      const name = arg.name.toUpperCase();
+      const name = arg.name.toUpperCase() + (arg.multiple ? "..." : "");
       const isRequired = arg.required !== false && arg.default === undefined;
       // (isRequired ? " (required)" : " (optional)"
       const defaultHint = arg.default ? `="${arg.default}"` : "";
       posLines.push([
         "`" + name + defaultHint + "`",
-        arg.description || "",
+        renderArgDescription(arg, argGroups),
         arg.valueHint ? `<${arg.valueHint}>` : "",
       ]);
       usageLine.push(isRequired ? `<${name}>` : `[${name}]`);
     } else {
+      // Options of titled groups are rendered under their own heading
+      const groupTitle = argGroups.find(
+        (group) => group.title && group.args.includes(arg.name),
+      )?.title;
+      if (groupTitle && !groupLines.has(groupTitle)) {
+        groupLines.set(groupTitle, []);
+      }
+      const lines = groupTitle ? groupLines.get(groupTitle)! : argLines;
       const isRequired = arg.required === true && arg.default === undefined;
       const argStr =
         [...(arg.alias || []).map((a) => `-${a}`), `--${arg.name}`].join(", ") +
-        (arg.type === "string" && (arg.valueHint || arg.default)
+        (arg.multiple && (arg.type === "string" || arg.type === "number")
+          ? `=<${arg.valueHint || "value"}>...`
+          : "") +
+        (!arg.multiple &&
+        arg.type === "string" &&
+        (arg.valueHint || arg.default)
           ? `=${
               arg.valueHint ? `<${arg.valueHint}>` : `"${arg.default || ""}"`
             }`
           : "") +
         (arg.type === "enum" && arg.options
-          ? `=<${arg.options.join("|")}>`
+          ? `=<${arg.options.join("|")}>${arg.multiple ? "..." : ""}`
           : "");
-      argLines.push([
+      lines.push([
         "`" + argStr + (isRequired ? " (required)" : "") + "`",
-        arg.description || "",
+        renderArgDescription(arg, argGroups),
       ]);
 
       /**
@@ -79,7 +115,7 @@ export async function renderUsage<T extends ArgsDef = ArgsDef>(
           ...(arg.alias || []).map((a) => `--no-${a}`),
           `--no-${arg.name}`,
         ].join(", ");
-        argLines.push([
+        lines.push([
           "`" + negativeArgStr + (isRequired ? " (required)" : "") + "`",
           arg.negativeDescription || "",
         ]);
@@ -100,7 +136,15 @@ export async function renderUsage<T extends ArgsDef = ArgsDef>(
       if (meta?.hidden) {
         continue;
       }
-      commandsLines.push([`\`${name}\``, meta?.description || ""]);
+      commandsLines.push([
+        `\`${[name, ...(meta?.aliases || [])].join(", ")}\``,
+        [
+          meta?.description,
+          name === cmd.defaultSubCommand && colors.gray("(default)"),
+        ]
+          .filter(Boolean)
+          .join(" "),
+      ]);
       commandNames.push(name);
     }
     usageLine.push(commandNames.join("|"));
@@ -132,7 +176,8 @@ export async function renderUsage<T extends ArgsDef = ArgsDef>(
     usageLines.push(colors.dim(`Version: ${version}`), "");
   }
 
-  const hasOptions = argLines.length > 0 || posLines.length > 0;
+  const hasOptions =
+    argLines.length > 0 || groupLines.size > 0 || posLines.length > 0;
   usageLines.push(
     `${colors.underline(colors.bold("USAGE"))} \`${commandName}${
       hasOptions ? " [OPTIONS]" : ""
@@ -152,6 +197,12 @@ export async function renderUsage<T extends ArgsDef = ArgsDef>(
     usageLines.push("");
   }
 
+  for (const [title, lines] of groupLines) {
+    usageLines.push(colors.underline(colors.bold(title.toUpperCase())), "");
+    usageLines.push(formatLineColumns(lines, "  "));
+    usageLines.push("");
+  }
+
   if (commandsLines.length > 0) {
     usageLines.push(colors.underline(colors.bold("COMMANDS")), "");
     usageLines.push(formatLineColumns(commandsLines, "  "));
@@ -161,34 +212,253 @@ export async function renderUsage<T extends ArgsDef = ArgsDef>(
     );
   }
   
-  // Add examples section if this is the main command
-  if (cmdMeta.name === 'unjucks' || !parent) {
+  if (cmdMeta.examples && cmdMeta.examples.length > 0) {
+    if (commandsLines.length > 0) {
+      usageLines.push("");
+    }
     usageLines.push(colors.underline(colors.bold("EXAMPLES")), "");
-    
-    const examples = [
-      [`\`${commandName} init\``, "Initialize with sample templates"],
-      [`\`${commandName} --list\``, "List all available generators"],
-      [`\`${commandName} component create --interactive\``, "Create component interactively"],
-      [`\`${commandName} --examples\``, "Show detailed usage examples"],
-      [`\`${commandName} --tips\``, "Show helpful tips and tricks"]
-    ];
-    
-    usageLines.push(formatLineColumns(examples, "  "));
-    usageLines.push("");
-    
-    // Add ecosystem integration hints
-    usageLines.push(colors.underline(colors.bold("ECOSYSTEM INTEGRATION")), "");
-    usageLines.push(colors.dim("  Integrates with: Nuxt, Nitro, Vite, TypeScript, and more UnJS tools"));
-    usageLines.push(colors.dim("  Run with --tips to see project-specific suggestions"));
-    usageLines.push("");
-    
-    // Add quick help
-    usageLines.push(colors.underline(colors.bold("GETTING HELP")), "");
-    usageLines.push(colors.dim("  • Documentation: https://unjucks.unjs.io"));
-    usageLines.push(colors.dim("  • Examples: " + commandName + " --examples"));
-    usageLines.push(colors.dim("  • Community: https://discord.unjs.io"));
+    usageLines.push(
+      formatLineColumns(
+        cmdMeta.examples.map((example) => [
+          `\`${commandName} ${example.command}\``,
+          example.description || "",
+        ]),
+        "  ",
+      ),
+    );
     usageLines.push("");
   }
 
   return usageLines.filter((l) => typeof l === "string").join("\n");
 }
+
+export type HelpFormat = "json" | "markdown" | "man";
+
+/**
+ * Render the help of `cmd` (and its sub commands) for documentation
+ * tooling, as used by `--help=<format>`.
+ */
+export async function renderHelp<T extends ArgsDef = ArgsDef>(
+  cmd: CommandDef<T>,
+  parent: CommandDef<T> | undefined,
+  format: string,
+) {
+  const description = await describeCommand(cmd, parent);
+  switch (format) {
+    case "json": {
+      return JSON.stringify(description, null, 2) + "\n";
+    }
+    case "md":
+    case "markdown": {
+      return renderMarkdownUsage(description);
+    }
+    case "man": {
+      return renderManPage(description);
+    }
+    default: {
+      throw new CLIError(
+        `Unknown help format \`${format}\`. Expected one of: \`json\`, \`markdown\`, \`man\`.`,
+        "E_HELP_FORMAT",
+      );
+    }
+  }
+}
+
+function formatArgFlags(arg: ArgDescription) {
+  if (arg.type === "positional") {
+    return arg.name.toUpperCase() + (arg.multiple ? "..." : "");
+  }
+  const value =
+    arg.type === "enum" && arg.options
+      ? `<${arg.options.join("|")}>`
+      : arg.type === "string" || arg.type === "number"
+        ? `<${arg.valueHint || "value"}>`
+        : "";
+  return (
+    [...arg.alias.map((a) => `-${a}`), `--${arg.name}`].join(", ") +
+    (value ? `=${value}${arg.multiple ? "..." : ""}` : "")
+  );
+}
+
+function formatArgNotes(arg: ArgDescription) {
+  return [
+    arg.required && "required",
+    arg.default !== undefined && `default: ${JSON.stringify(arg.default)}`,
+    arg.env && `env: ${arg.env}`,
+    arg.conflicts.length > 0 &&
+      `conflicts with ${arg.conflicts.map((n) => `--${n}`).join(", ")}`,
+    arg.requires.length > 0 &&
+      `requires ${arg.requires.map((n) => `--${n}`).join(", ")}`,
+  ].filter(Boolean) as string[];
+}
+
+/**
+ * Markdown reference page, one section per visible command.
+ */
+export function renderMarkdownUsage(description: CommandDescription): string {
+  const cell = (text = "") => text.replace(/\|/g, "\\|").replace(/\n/g, "<br>");
+  const table = (header: string[], rows: string[][]) =>
+    [
+      `| ${header.join(" | ")} |`,
+      `| ${header.map(() => "---").join(" | ")} |`,
+      ...rows.map((row) => `| ${row.map((c) => cell(c)).join(" | ")} |`),
+    ].join("\n");
+
+  const lines: string[] = [];
+  const renderCommand = (command: CommandDescription, depth: number) => {
+    const heading = "#".repeat(Math.min(depth, 5));
+    lines.push(`${heading} \`${command.path.join(" ")}\``, "");
+    if (command.description) {
+      lines.push(command.description, "");
+    }
+    lines.push(`${heading}# Usage`, "", "```sh", command.usage, "```", "");
+
+    const sections: [string, ArgDescription[]][] = [
+      ["Arguments", command.args.filter((a) => a.type === "positional")],
+      [
+        "Options",
+        command.args.filter((a) => a.type !== "positional" && !a.group),
+      ],
+    ];
+    for (const arg of command.args) {
+      if (arg.group && !sections.some(([title]) => title === arg.group)) {
+        sections.push([
+          arg.group,
+          command.args.filter((a) => a.group === arg.group),
+        ]);
+      }
+    }
+    for (const [title, args] of sections) {
+      if (args.length === 0) {
+        continue;
+      }
+      lines.push(`${heading}# ${title}`, "");
+      lines.push(
+        table(
+          [title === "Arguments" ? "Argument" : "Option", "Description"],
+          args.map((arg) => [
+            `\`${formatArgFlags(arg)}\``,
+            [arg.description, ...formatArgNotes(arg).map((n) => `_(${n})_`)]
+              .filter(Boolean)
+              .join(" "),
+          ]),
+        ),
+        "",
+      );
+    }
+
+    const subCommands = command.subCommands.filter((sub) => !sub.hidden);
+    if (subCommands.length > 0) {
+      lines.push(`${heading}# Commands`, "");
+      lines.push(
+        table(
+          ["Command", "Description"],
+          subCommands.map((sub) => [
+            `\`${[sub.name, ...sub.aliases].join("`, `")}\``,
+            sub.description?.split("\n")[0] || "",
+          ]),
+        ),
+        "",
+      );
+    }
+
+    if (command.examples.length > 0) {
+      lines.push(`${heading}# Examples`, "", "```sh");
+      for (const example of command.examples) {
+        if (example.description) {
+          lines.push(`# ${example.description}`);
+        }
+        lines.push(`${command.path.join(" ")} ${example.command}`);
+      }
+      lines.push("```", "");
+    }
+
+    for (const sub of subCommands) {
+      renderCommand(sub, depth + 1);
+    }
+  };
+  renderCommand(description, 1);
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+/**
+ * roff man page (section 1). Sub commands are listed, not expanded.
+ */
+export function renderManPage(description: CommandDescription): string {
+  const escape = (text = "") =>
+    text
+      .replace(/\\/g, "\\e")
+      .replace(/-/g, "\\-")
+      .replace(/^([.'])/gm, "\\&$1");
+  const [summary, ...details] = (description.description || "").split("\n");
+  const title = description.path.join("-").toUpperCase();
+
+  const lines = [
+    `.TH ${escape(title)} 1 "" "${escape(
+      [description.path[0], description.version].filter(Boolean).join(" "),
+    )}"`,
+    ".SH NAME",
+    `${escape(description.path.join("-"))} \\- ${escape(summary)}`,
+    ".SH SYNOPSIS",
+    `.B ${escape(description.path.join(" "))}`,
+    escape(description.usage.slice(description.path.join(" ").length + 1)),
+  ];
+
+  if (details.some((line) => line.trim())) {
+    lines.push(".SH DESCRIPTION", escape(details.join("\n").trim()));
+  }
+
+  const renderArgs = (section: string, args: ArgDescription[]) => {
+    if (args.length === 0) {
+      return;
+    }
+    lines.push(`.SH ${section}`);
+    for (const arg of args) {
+      const notes = formatArgNotes(arg);
+      lines.push(
+        ".TP",
+        `.B ${escape(formatArgFlags(arg))}`,
+        escape(
+          [arg.description, notes.length > 0 && `(${notes.join("; ")})`]
+            .filter(Boolean)
+            .join(" "),
+        ),
+      );
+    }
+  };
+  renderArgs(
+    "ARGUMENTS",
+    description.args.filter((arg) => arg.type === "positional"),
+  );
+  renderArgs(
+    "OPTIONS",
+    description.args.filter((arg) => arg.type !== "positional"),
+  );
+
+  const subCommands = description.subCommands.filter((sub) => !sub.hidden);
+  if (subCommands.length > 0) {
+    lines.push(".SH COMMANDS");
+    for (const sub of subCommands) {
+      lines.push(
+        ".TP",
+        `.B ${escape(sub.name)}`,
+        escape(sub.description?.split("\n")[0]),
+      );
+    }
+  }
+
+  if (description.examples.length > 0) {
+    lines.push(".SH EXAMPLES");
+    for (const example of description.examples) {
+      lines.push(
+        ".TP",
+        `.B ${escape(`${description.path.join(" ")} ${example.command}`)}`,
+        escape(example.description),
+      );
+    }
+  }
+
+  // Blank lines are significant in roff
+  return lines.filter((line) => line !== "").join("\n") + "\n";
+}
@@ -119,4 +119,3 @@ export class CommandSuggester {
     return [...new Set(allSuggestions)].slice(0, 5);
   }
 }
-export { CommandSuggester };
@@ -216,4 +216,3 @@ export class EnhancedErrorHandler {
     return missing;
   }
 }
-export { EnhancedErrorHandler };
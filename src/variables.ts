@@ -0,0 +1,238 @@
+import nunjucks from "nunjucks";
+import matter from "gray-matter";
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, resolve } from "pathe";
+import type { TemplateVariable } from "./types.js";
+import { UnjucksError } from "./types.js";
+
+/** Globals of every Nunjucks environment */
+const NUNJUCKS_GLOBALS = ["range", "cycler", "joiner"];
+
+/** Filters that make a missing input optional: `{{ title | default("") }}` */
+const DEFAULT_FILTERS = new Set(["default", "d"]);
+
+export interface FindVariablesOptions {
+  /** Names provided by the environment (globals, helpers) */
+  globals?: string[];
+  /**
+   * Source of an included, imported or extended template, to follow it.
+   * Templates it does not resolve are ignored.
+   */
+  load?: (name: string) => string | undefined;
+}
+
+interface Node {
+  typename: string;
+  fields: string[];
+  [key: string]: any;
+}
+
+type Scope = Set<string>;
+
+/**
+ * Find the free variables of a Nunjucks template, that is the names that must
+ * come from the render context. Names bound by `{% for %}`, `{% set %}`,
+ * macros and imports are left out, included templates are followed.
+ */
+export function findTemplateVariables(
+  source: string,
+  options: FindVariablesOptions = {},
+): TemplateVariable[] {
+  const variables = new Map<string, TemplateVariable>();
+  const loading = new Set<string>();
+  const globals = new Set([...NUNJUCKS_GLOBALS, ...(options.globals || [])]);
+
+  const use = (name: string, scope: Scope, optional: boolean) => {
+    if (scope.has(name) || globals.has(name)) {
+      return;
+    }
+    const variable = variables.get(name);
+    if (variable) {
+      variable.required ||= !optional;
+    } else {
+      variables.set(name, { name, required: !optional });
+    }
+  };
+
+  const follow = (template: Node | undefined, scope: Scope) => {
+    const name = template?.typename === "Literal" ? template.value : undefined;
+    if (typeof name !== "string" || !options.load || loading.has(name)) {
+      return;
+    }
+    const included = options.load(name);
+    if (included !== undefined) {
+      loading.add(name);
+      visit(parse(included, name), new Set(scope), false);
+      loading.delete(name);
+    }
+  };
+
+  const bind = (target: Node | undefined, scope: Scope) => {
+    if (target?.typename === "Symbol") {
+      scope.add(target.value);
+    } else if (target?.typename === "Array") {
+      for (const child of target.children) {
+        bind(child, scope);
+      }
+    }
+  };
+
+  const visitAll = (nodes: Node[] | undefined, scope: Scope) => {
+    for (const node of nodes || []) {
+      visit(node, scope, false);
+    }
+  };
+
+  function visit(node: Node | undefined, scope: Scope, optional: boolean) {
+    if (!node || typeof node !== "object" || !node.typename) {
+      return;
+    }
+    switch (node.typename) {
+      case "Symbol": {
+        use(node.value, scope, optional);
+        return;
+      }
+      case "Set": {
+        visit(node.value, scope, false);
+        if (node.body) {
+          visit(node.body, new Set(scope), false);
+        }
+        for (const target of node.targets) {
+          bind(target, scope);
+        }
+        return;
+      }
+      case "For":
+      case "AsyncEach":
+      case "AsyncAll": {
+        visit(node.arr, scope, false);
+        const inner = new Set([...scope, "loop"]);
+        bind(node.name, inner);
+        visit(node.body, inner, false);
+        visit(node.else_, scope, false);
+        return;
+      }
+      case "Macro":
+      case "Caller": {
+        // The macro is callable after its definition and from its own body
+        if (node.typename === "Macro") {
+          bind(node.name, scope);
+        }
+        const inner = new Set([...scope, "caller"]);
+        for (const arg of node.args.children) {
+          if (arg.typename === "KeywordArgs") {
+            for (const pair of arg.children) {
+              visit(pair.value, scope, false);
+              bind(pair.key, inner);
+            }
+          } else {
+            bind(arg, inner);
+          }
+        }
+        visit(node.body, inner, false);
+        return;
+      }
+      case "If":
+      case "IfAsync":
+      case "InlineIf": {
+        // A missing value only makes the condition false
+        visit(node.cond, scope, true);
+        visit(node.body, scope, optional);
+        visit(node.else_, scope, optional);
+        return;
+      }
+      case "Is": {
+        visit(node.left, scope, true);
+        return;
+      }
+      case "Filter":
+      case "FilterAsync": {
+        const [input, ...args] = node.args.children;
+        visit(input, scope, optional || DEFAULT_FILTERS.has(node.name.value));
+        visitAll(args, scope);
+        return;
+      }
+      case "KeywordArgs":
+      case "Dict": {
+        // Keys are names, not variables
+        for (const pair of node.children) {
+          visit(pair.value, scope, false);
+        }
+        return;
+      }
+      case "Include":
+      case "Extends": {
+        visit(node.template, scope, false);
+        follow(node.template, scope);
+        return;
+      }
+      case "Import": {
+        visit(node.template, scope, false);
+        bind(node.target, scope);
+        return;
+      }
+      case "FromImport": {
+        visit(node.template, scope, false);
+        for (const name of node.names.children) {
+          bind(name.typename === "Pair" ? name.value : name, scope);
+        }
+        return;
+      }
+      case "Block": {
+        visit(node.body, new Set(scope), false);
+        return;
+      }
+      case "Super": {
+        return;
+      }
+    }
+    for (const field of node.fields) {
+      const child = node[field];
+      if (Array.isArray(child)) {
+        for (const item of child) {
+          visit(item, scope, optional);
+        }
+      } else {
+        visit(child, scope, optional);
+      }
+    }
+  }
+
+  visit(parse(source), new Set(), false);
+  return [...variables.values()];
+}
+
+/**
+ * Find the free variables of a template file. Front matter is skipped and
+ * includes are resolved next to the template, then in `searchPaths`.
+ */
+export function findTemplateFileVariables(
+  templatePath: string,
+  options: Omit<FindVariablesOptions, "load"> & { searchPaths?: string[] } = {},
+): TemplateVariable[] {
+  const dirs = [dirname(templatePath), ...(options.searchPaths || [])];
+  return findTemplateVariables(
+    matter(readFileSync(templatePath, "utf8")).content,
+    {
+      globals: options.globals,
+      load: (name) => {
+        const path = dirs
+          .map((dir) => resolve(dir, name))
+          .find((path) => existsSync(path));
+        return path && matter(readFileSync(path, "utf8")).content;
+      },
+    },
+  );
+}
+
+function parse(source: string, name?: string): Node {
+  try {
+    return (nunjucks as any).parser.parse(source);
+  } catch (error) {
+    throw new UnjucksError(
+      `Failed to parse template${name ? ` ${name}` : ""}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "PARSE_ERROR",
+      { name, error },
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
+import { z } from "zod";
 import { parseArgs } from "../src/args";
-import { ArgsDef, ParsedArgs } from "../src";
+import { ArgGroup, ArgsDef, ParsedArgs } from "../src";
 
 describe("args", () => {
   it.each<[string[], ArgsDef, ParsedArgs]>([
@@ -136,4 +137,352 @@ describe("args", () => {
     expect(parsed.userName).toBe("Jane");
     expect(parsed._).toEqual([]);
   });
+
+  describe("multiple", () => {
+    it.each<[string[], ArgsDef, Record<string, unknown>]>([
+      [
+        ["--include", "a", "--include", "b"],
+        { include: { type: "string", multiple: true } },
+        { include: ["a", "b"] },
+      ],
+      [
+        ["--include", "a,b", "-i", "c"],
+        { include: { type: "string", alias: "i", multiple: true } },
+        { include: ["a", "b", "c"] },
+      ],
+      [
+        ["--include", "a", "-i", "b", "--include=c,d"],
+        { include: { type: "string", alias: "i", multiple: true } },
+        { include: ["a", "b", "c", "d"] },
+      ],
+      [[], { include: { type: "string", multiple: true } }, { include: [] }],
+      [
+        [],
+        { include: { type: "string", multiple: true, default: ["a"] } },
+        { include: ["a"] },
+      ],
+      [
+        ["--port", "80,443"],
+        { port: { type: "number", multiple: true } },
+        { port: [80, 443] },
+      ],
+      [
+        ["--level", "1", "--level", "two"],
+        { level: { type: "enum", options: [1, "two"], multiple: true } },
+        { level: [1, "two"] },
+      ],
+      [
+        ["build", "a.ts", "b.ts"],
+        {
+          command: { type: "positional" },
+          files: { type: "positional", multiple: true },
+        },
+        { command: "build", files: ["a.ts", "b.ts"] },
+      ],
+      [
+        ["a,b.txt", "c"],
+        { files: { type: "positional", multiple: true } },
+        { files: ["a,b.txt", "c"] },
+      ],
+      [
+        [],
+        { files: { type: "positional", multiple: true, required: false } },
+        { files: [] },
+      ],
+    ])("should parse %o (%o)", (rawArgs, definition, result) => {
+      const parsed = parseArgs(rawArgs, definition);
+
+      expect(parsed).toMatchObject(result);
+    });
+
+    it.each<[string[], ArgsDef, string]>([
+      [
+        ["--port", "80,http"],
+        { port: { type: "number", multiple: true } },
+        "Invalid value for argument: `--port` (`http`). Expected a number.",
+      ],
+      [
+        ["--level", "one,three"],
+        { level: { type: "enum", options: ["one", "two"], multiple: true } },
+        "Invalid value for argument: `--level` (`three`). Expected one of: `one`, `two`.",
+      ],
+      [
+        [],
+        { include: { type: "string", multiple: true, required: true } },
+        "Missing required argument: --include",
+      ],
+      [
+        [],
+        { files: { type: "positional", multiple: true } },
+        "Missing required positional argument: FILES...",
+      ],
+    ])("should throw error with %o (%o)", (rawArgs, definition, result) => {
+      expect(() => parseArgs(rawArgs, definition)).toThrowError(result);
+    });
+  });
+
+  describe("fallbacks", () => {
+    const definition: ArgsDef = {
+      "template-dir": {
+        type: "string",
+        env: "UNJUCKS_TEMPLATE_DIR",
+        default: "templates",
+      },
+      force: { type: "boolean", env: "UNJUCKS_FORCE" },
+      port: { type: "number", env: "UNJUCKS_PORT" },
+    };
+
+    it.each<[string[], Record<string, string>, Record<string, any>, string]>([
+      [["--template-dir", "cli"], { UNJUCKS_TEMPLATE_DIR: "env" }, {}, "cli"],
+      [[], { UNJUCKS_TEMPLATE_DIR: "env" }, { templateDir: "config" }, "env"],
+      [[], {}, { templateDir: "config" }, "config"],
+      [[], { UNJUCKS_TEMPLATE_DIR: "" }, {}, "templates"],
+    ])(
+      "should resolve %o with env %o and config %o",
+      (rawArgs, env, config, result) => {
+        const parsed = parseArgs(rawArgs, definition, { env, config });
+
+        expect(parsed["template-dir"]).toBe(result);
+      },
+    );
+
+    it("should coerce env values to the argument type", () => {
+      const parsed = parseArgs([], definition, {
+        env: { UNJUCKS_FORCE: "false", UNJUCKS_PORT: "8080" },
+      });
+
+      expect(parsed.force).toBe(false);
+      expect(parsed.port).toBe(8080);
+    });
+
+    it("should let CLI flags override boolean env values", () => {
+      const parsed = parseArgs(["--no-force"], definition, {
+        env: { UNJUCKS_FORCE: "1" },
+      });
+
+      expect(parsed.force).toBe(false);
+    });
+  });
+
+  describe("parse and schema", () => {
+    it("should convert values with `parse`", () => {
+      const parsed = parseArgs(["--url", "https://unjs.io", "--tag", "a,b"], {
+        url: { type: "string", parse: (value: string) => new URL(value) },
+        tag: {
+          type: "string",
+          multiple: true,
+          parse: (value: string) => value.toUpperCase(),
+        },
+      });
+
+      expect(parsed.url).toBeInstanceOf(URL);
+      expect(parsed.url.hostname).toBe("unjs.io");
+      expect(parsed.tag).toEqual(["A", "B"]);
+    });
+
+    it("should apply `parse` to default values", () => {
+      const parsed = parseArgs([], {
+        timeout: {
+          type: "string",
+          default: "5m",
+          parse: (value: string) => Number.parseInt(value) * 60_000,
+        },
+      });
+
+      expect(parsed.timeout).toBe(300_000);
+    });
+
+    it("should report errors thrown by `parse`", () => {
+      expect(() =>
+        parseArgs(["--data", "{oops"], {
+          data: { type: "string", parse: (value: string) => JSON.parse(value) },
+        }),
+      ).toThrow(
+        expect.objectContaining({
+          code: "EARG",
+          message: expect.stringContaining(
+            "Invalid value for argument: `--data` (`{oops`).",
+          ),
+        }),
+      );
+    });
+
+    it("should validate values with a Zod schema", () => {
+      const definition: ArgsDef = {
+        port: { type: "number", schema: z.number().int().max(65_535) },
+        config: {
+          type: "string",
+          parse: (value: string) => JSON.parse(value),
+          schema: z.object({ name: z.string() }),
+        },
+      };
+
+      expect(
+        parseArgs(["--port", "80", "--config", '{"name":"a"}'], definition),
+      ).toMatchObject({ port: 80, config: { name: "a" } });
+      expect(() => parseArgs(["--port", "70000"], definition)).toThrowError(
+        "Invalid value for argument: `--port` (`70000`). Number must be less than or equal to 65535",
+      );
+      expect(() =>
+        parseArgs(["--config", '{"name":1}'], definition),
+      ).toThrowError(
+        'Invalid value for argument: `--config` (`{"name":1}`). name: Expected string, received number',
+      );
+    });
+
+    it("should skip validation of missing optional values", () => {
+      const parsed = parseArgs([], {
+        name: { type: "string", schema: z.string().min(3) },
+      });
+
+      expect(parsed.name).toBeUndefined();
+    });
+  });
+
+  describe("relations", () => {
+    const definition: ArgsDef = {
+      prompt: { type: "string" },
+      schema: { type: "string", conflicts: "prompt" },
+      user: { type: "string", requires: "password" },
+      password: { type: "string" },
+      format: { type: "enum", options: ["text", "json"], default: "text" },
+      output: { type: "string", requiredIf: { format: "json" } },
+      verbose: { type: "boolean", default: false },
+      "log-file": { type: "string", requiredIf: "verbose" },
+    };
+
+    it.each<[string[], string]>([
+      [
+        ["--prompt", "a", "--schema", "b"],
+        "Arguments `--schema` and `--prompt` cannot be used together.",
+      ],
+      [["--user", "me"], "Argument `--user` requires `--password`."],
+      [
+        ["--format", "json"],
+        "Missing required argument: --output (required when `--format` is `json`).",
+      ],
+      [
+        ["--verbose"],
+        "Missing required argument: --log-file (required when `--verbose` is given).",
+      ],
+    ])("should reject %o", (rawArgs, message) => {
+      expect(() => parseArgs(rawArgs, definition)).toThrowError(message);
+    });
+
+    it("should check values equal to their default once given", () => {
+      const withDefault: ArgsDef = {
+        format: { type: "string", default: "json", conflicts: "pretty" },
+        pretty: { type: "boolean" },
+        color: { type: "boolean", default: false, requires: "format" },
+      };
+
+      expect(() =>
+        parseArgs(["--format", "json", "--pretty"], withDefault),
+      ).toThrowError(
+        "Arguments `--format` and `--pretty` cannot be used together.",
+      );
+      expect(() => parseArgs(["--pretty"], withDefault)).not.toThrow();
+      expect(() =>
+        parseArgs(["--no-color"], {
+          ...withDefault,
+          color: { type: "boolean", default: false, requires: "other" },
+          other: { type: "string" },
+        }),
+      ).toThrowError("Argument `--color` requires `--other`.");
+    });
+
+    it("should accept valid combinations", () => {
+      expect(() =>
+        parseArgs(
+          ["--schema", "b", "--user", "me", "--password", "secret"],
+          definition,
+        ),
+      ).not.toThrow();
+      expect(() =>
+        parseArgs(["--format", "json", "--output", "out.json"], definition),
+      ).not.toThrow();
+    });
+
+    it.each<[string[], ArgGroup, string | undefined]>([
+      [["--a", "1"], { args: ["a", "b"], exclusive: true }, undefined],
+      [
+        ["--a", "1", "--b", "2"],
+        { args: ["a", "b"], exclusive: true },
+        "Arguments `--a` and `--b` cannot be used together.",
+      ],
+      [
+        [],
+        { args: ["a", "b"], required: true },
+        "One of `--a`, `--b` is required.",
+      ],
+      [
+        ["--b", "2"],
+        { args: ["a", "b"], together: true },
+        "Argument `--b` requires `--a`.",
+      ],
+      [
+        ["--a", "1", "--b", "2"],
+        { args: ["a", "b"], together: true },
+        undefined,
+      ],
+    ])("should check %o against group %o", (rawArgs, group, message) => {
+      const parse = () =>
+        parseArgs(
+          rawArgs,
+          { a: { type: "string" }, b: { type: "string" } },
+          { groups: [group] },
+        );
+      if (message) {
+        expect(parse).toThrowError(message);
+      } else {
+        expect(parse).not.toThrow();
+      }
+    });
+  });
+
+  describe("strict", () => {
+    const definition: ArgsDef = {
+      "dry-run": { type: "boolean" },
+      output: { type: "string", alias: "o" },
+      outDir: { type: "string" },
+      _dir: { type: "positional", required: false },
+    };
+
+    it("should accept declared flags, aliases and case variants", () => {
+      const parsed = parseArgs(["--dryRun", "-o", "out", "src"], definition, {
+        strict: true,
+      });
+
+      expect(parsed["dry-run"]).toBe(true);
+      expect(parsed.output).toBe("out");
+      expect(parsed._dir).toBe("src");
+    });
+
+    it.each<[string[], string]>([
+      [["--dryrun"], "Unknown argument: `--dryrun`. Did you mean `--dry-run`?"],
+      [
+        ["--outptu", "x"],
+        "Unknown argument: `--outptu`. Did you mean `--output`?",
+      ],
+      [
+        ["--outdir", "x"],
+        "Unknown argument: `--outdir`. Did you mean `--out-dir`?",
+      ],
+      [["--no-dryrun"], "Unknown argument: `--no-dryrun`."],
+      [
+        ["--completely-unrelated"],
+        "Unknown argument: `--completely-unrelated`.",
+      ],
+    ])("should reject %o", (rawArgs, message) => {
+      expect(() => parseArgs(rawArgs, definition, { strict: true })).toThrow(
+        expect.objectContaining({ code: "E_UNKNOWN_ARG", message }),
+      );
+    });
+
+    it("should keep unknown flags when not strict", () => {
+      const parsed = parseArgs(["--dryrun"], definition);
+
+      expect(parsed.dryrun).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { runCommand } from "../src/command";
+
+// The JavaScript build of the utilities shadows their sources and does not
+// load here, the commands run below do not use them
+vi.mock("../src/utils/index.js", () => ({}));
+
+describe("unjucks cli", () => {
+  let root: string;
+  let main: typeof import("../src/cli").main;
+
+  beforeEach(async () => {
+    // Each run sets up the template context of a fresh process
+    vi.resetModules();
+    ({ main } = await import("../src/cli"));
+    root = join(tmpdir(), `unjucks-cli-test-${Date.now()}`);
+    mkdirSync(join(root, "templates"), { recursive: true });
+    writeFileSync(
+      join(root, "people.ttl"),
+      `@prefix ex: <http://example.org/> .
+ex:ann a ex:Person .
+ex:bob a ex:Person .
+`,
+    );
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  const template = (path: string, content: string) => {
+    const file = join(root, "templates", path);
+    mkdirSync(join(file, ".."), { recursive: true });
+    writeFileSync(file, content);
+  };
+
+  const generate = (...rawArgs: string[]) =>
+    runCommand(main, {
+      rawArgs: [
+        ...rawArgs,
+        "--templateDir",
+        join(root, "templates"),
+        "--ontology",
+        join(root, "people.ttl"),
+      ],
+    });
+
+  it("does not ask for globals such as entities()", async () => {
+    template(
+      "person/list/index.njk",
+      '{% for person in entities("http://example.org/Person") %}{{ loop.index }};{% endfor %}',
+    );
+    const output = join(root, "people.txt");
+
+    await generate("person", "list", "--output", output);
+
+    expect(readFileSync(output, "utf8")).toBe("1;2;");
+  });
+
+  it("does not ask generator packs for globals", async () => {
+    for (const name of ["ann", "bob"]) {
+      template(
+        `person/pack/${name}.njk`,
+        `---\nto: ${name}.txt\n---\n{{ entities("http://example.org/Person") | length }}`,
+      );
+    }
+
+    await generate("person", "pack", "--output", root);
+
+    expect(readFileSync(join(root, "ann.txt"), "utf8")).toBe("2");
+  });
+});
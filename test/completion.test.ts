@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { defineCommand } from "../src/command";
+import { complete, renderCompletionScript } from "../src/completion";
+
+describe("complete", () => {
+  const command = defineCommand({
+    args: {
+      verbose: { type: "boolean", alias: "v", description: "Verbose logs" },
+    },
+    subCommands: {
+      generate: {
+        meta: { description: "Generate files\nfrom templates" },
+        args: {
+          generator: {
+            type: "positional",
+            complete: () => ["component", "api"],
+          },
+          action: {
+            type: "positional",
+            complete: ({ args }) =>
+              args.generator === "api" ? ["create", "delete"] : ["new"],
+          },
+          format: { type: "enum", options: ["ts", "js"] },
+          "template-dir": { type: "string", alias: "t" },
+        },
+      },
+      secret: { meta: { hidden: true } },
+    },
+  });
+
+  const values = async (words: string[]) =>
+    (await complete(command, words)).map((c) => c.value);
+
+  it("proposes visible sub commands with descriptions", async () => {
+    expect(await complete(command, [""])).toEqual([
+      { value: "generate", description: "Generate files" },
+    ]);
+  });
+
+  it("proposes flags and aliases", async () => {
+    expect(await values(["-"])).toEqual(["--verbose", "-v", "--help"]);
+    expect(await values(["generate", "--f"])).toEqual(["--format"]);
+  });
+
+  it("proposes enum options after the flag", async () => {
+    expect(await values(["generate", "--format", ""])).toEqual(["ts", "js"]);
+    expect(await values(["generate", "--format=j"])).toEqual(["--format=js"]);
+  });
+
+  it("calls the `complete` hook of the next positional", async () => {
+    expect(await values(["generate", "c"])).toEqual(["component"]);
+    expect(await values(["generate", "-t", "tpl", "api", ""])).toEqual([
+      "create",
+      "delete",
+    ]);
+  });
+
+  it("proposes nothing for values without candidates", async () => {
+    expect(await values(["generate", "--template-dir", ""])).toEqual([]);
+  });
+});
+
+describe("renderCompletionScript", () => {
+  it.each(["bash", "zsh", "fish"] as const)(
+    "calls back into the binary from %s",
+    (shell) => {
+      expect(renderCompletionScript(shell, "unjucks")).toContain(
+        "unjucks __complete",
+      );
+    },
+  );
+});
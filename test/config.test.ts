@@ -0,0 +1,68 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "pathe";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadArgsConfig } from "../src/config";
+import { runCommand } from "../src/command";
+import { defineCommand } from "../src";
+
+describe("loadArgsConfig", () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(join(tmpdir(), "unjucks-config-"));
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it("loads values from `<name>.config.*`", async () => {
+    await writeFile(
+      join(cwd, "unjucks.config.ts"),
+      `export default { templateDir: "from-config" };`,
+    );
+
+    const config = await loadArgsConfig({ name: "unjucks", cwd });
+
+    expect(config.templateDir).toBe("from-config");
+  });
+
+  it("loads values from `.<name>rc`", async () => {
+    await writeFile(join(cwd, ".unjucksrc"), "templateDir=from-rc\n");
+
+    const config = await loadArgsConfig({ name: "unjucks", cwd });
+
+    expect(config.templateDir).toBe("from-rc");
+  });
+
+  it("reads values from a nested key", async () => {
+    await writeFile(
+      join(cwd, "unjucks.config.json"),
+      JSON.stringify({ cli: { dryRun: true } }),
+    );
+
+    const config = await loadArgsConfig({ name: "unjucks", cwd, key: "cli" });
+
+    expect(config).toEqual({ dryRun: true });
+  });
+
+  it("passes config values to the command arguments", async () => {
+    await writeFile(join(cwd, ".unjucksrc"), "templateDir=from-rc\n");
+
+    const command = defineCommand({
+      config: { name: "unjucks", cwd },
+      args: {
+        "template-dir": { type: "string", default: "templates" },
+      },
+      run: ({ args }) => args["template-dir"],
+    });
+
+    await expect(runCommand(command, { rawArgs: [] })).resolves.toEqual({
+      result: "from-rc",
+    });
+    await expect(
+      runCommand(command, { rawArgs: ["--template-dir", "cli"] }),
+    ).resolves.toEqual({ result: "cli" });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { CLIError } from "../src/_utils";
+import { ExitCode, describeError } from "../src/errors";
+import { TemplateNotFoundError, UnjucksError } from "../src/types";
+
+describe("describeError", () => {
+  it("maps usage errors", () => {
+    expect(
+      describeError(new CLIError("Unknown argument: `--x`.", "E_UNKNOWN_ARG")),
+    ).toMatchObject({ code: "E_UNKNOWN_ARG", exitCode: ExitCode.Usage });
+    expect(
+      describeError(
+        new CLIError("Missing required argument: --name", "EARG", {
+          arg: "name",
+          missing: true,
+        }),
+      ),
+    ).toMatchObject({ exitCode: ExitCode.Usage });
+  });
+
+  it("maps rejected values to validation errors", () => {
+    expect(
+      describeError(
+        new CLIError("Invalid value for argument: `--port`", "EARG", {
+          arg: "port",
+        }),
+      ),
+    ).toMatchObject({
+      exitCode: ExitCode.Validation,
+      details: { arg: "port" },
+    });
+  });
+
+  it("maps unjucks errors", () => {
+    expect(describeError(new TemplateNotFoundError("a", "b"))).toMatchObject({
+      code: "TEMPLATE_NOT_FOUND",
+      exitCode: ExitCode.NotFound,
+      details: { generator: "a", action: "b" },
+    });
+    expect(describeError(new UnjucksError("Nope", "OTHER"))).toMatchObject({
+      code: "OTHER",
+      exitCode: ExitCode.Failure,
+      hints: [],
+    });
+  });
+
+  it("maps cancelled prompts to interrupted", () => {
+    const error = new Error("Prompt cancelled.");
+    error.name = "ConsolaPromptCancelledError";
+    expect(describeError(error).exitCode).toBe(130);
+  });
+
+  it("uses hints given on CLI errors", () => {
+    const report = describeError(
+      new CLIError("No templates.", "E_EMPTY", { hints: ["Run `init`"] }),
+    );
+    expect(report.hints).toEqual(["Run `init`"]);
+    expect(report.details).toEqual({});
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+  existsSync,
+} from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  collectInputs,
+  inferGeneratorInputs,
+  renderGeneratorPack,
+  resolveGeneratorPack,
+  writeGeneratedFiles,
+} from "../src/generator";
+import { ContextError } from "../src/types";
+
+describe("generator packs", () => {
+  let root: string;
+  let templates: string;
+
+  beforeEach(() => {
+    root = join(tmpdir(), `unjucks-generator-test-${Date.now()}`);
+    templates = join(root, "templates");
+    const action = join(templates, "component", "create");
+    mkdirSync(action, { recursive: true });
+    writeFileSync(
+      join(action, "component.njk"),
+      "---\nto: src/{{ fileName }}.tsx\n---\nexport const {{ name }} = () => '{{ label }}';\n",
+    );
+    writeFileSync(
+      join(action, "test.njk"),
+      "---\nto: src/{{ fileName }}.test.tsx\n---\nimport { {{ name }} } from './{{ fileName }}';\n",
+    );
+    writeFileSync(
+      join(templates, "component", "generator.config.ts"),
+      `export default {
+  inputs: [
+    { name: "name", validate: (v) => /^[A-Z]/.test(v) || "Use PascalCase" },
+    { name: "label", default: (ctx) => ctx.name.toLowerCase() },
+    { name: "story", type: "boolean", default: false },
+    { name: "title", when: (ctx) => ctx.story },
+  ],
+  hooks: {
+    beforeRender: (ctx) => ({ fileName: ctx.name.toLowerCase() }),
+  },
+};
+`,
+    );
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("resolves the templates and the config of the generator", async () => {
+    const pack = await resolveGeneratorPack("component", "create", [templates]);
+
+    expect(pack.templates.map((t) => t.relativePath).sort()).toEqual([
+      "component/create/component.njk",
+      "component/create/test.njk",
+    ]);
+    expect(pack.config?.inputs?.map((input) => input.name)).toEqual([
+      "name",
+      "label",
+      "story",
+      "title",
+    ]);
+  });
+
+  it("infers the inputs of packs without a config", async () => {
+    rmSync(join(templates, "component", "generator.config.ts"));
+    const pack = await resolveGeneratorPack("component", "create", [templates]);
+
+    expect(inferGeneratorInputs(pack)).toEqual([
+      { name: "fileName", required: true },
+      { name: "name", required: true },
+      { name: "label", required: true },
+    ]);
+  });
+
+  it("reports every missing input at once", async () => {
+    await expect(
+      collectInputs([{ name: "name" }, { name: "label" }], {}),
+    ).rejects.toThrow("Missing values for `name`, `label`");
+  });
+
+  it("collects inputs from the context, defaults and conditions", async () => {
+    const pack = await resolveGeneratorPack("component", "create", [templates]);
+
+    expect(
+      await collectInputs(pack.config!.inputs!, { name: "Button" }),
+    ).toEqual({ name: "Button", label: "button", story: false });
+    await expect(collectInputs(pack.config!.inputs!, {})).rejects.toThrow(
+      ContextError,
+    );
+    await expect(
+      collectInputs(pack.config!.inputs!, { name: "button" }),
+    ).rejects.toThrow("Use PascalCase");
+  });
+
+  it("renders every template before writing them together", async () => {
+    const pack = await resolveGeneratorPack("component", "create", [templates]);
+    const out = join(root, "out");
+
+    const files = await renderGeneratorPack(
+      pack,
+      { name: "Button", label: "Click" },
+      out,
+    );
+    expect(files.map((file) => file.path).sort()).toEqual([
+      join(out, "src/button.test.tsx"),
+      join(out, "src/button.tsx"),
+    ]);
+    expect(existsSync(out)).toBe(false);
+
+    await writeGeneratedFiles(files);
+    expect(readFileSync(join(out, "src/button.tsx"), "utf8")).toBe(
+      "export const Button = () => 'Click';\n",
+    );
+  });
+
+  it("refuses to write outside of the output directory", async () => {
+    writeFileSync(
+      join(templates, "component", "create", "test.njk"),
+      "---\nto: ../../etc/{{ fileName }}\n---\n",
+    );
+    const pack = await resolveGeneratorPack("component", "create", [templates]);
+
+    await expect(
+      renderGeneratorPack(
+        pack,
+        { name: "Button", label: "Click" },
+        join(root, "out"),
+      ),
+    ).rejects.toMatchObject({
+      code: "UNSAFE_OUTPUT_PATH",
+      details: { path: "../../etc/button" },
+    });
+  });
+
+  it("leaves every file untouched when one of them cannot be written", async () => {
+    const existing = join(root, "existing.ts");
+    const blocked = join(root, "blocked");
+    writeFileSync(existing, "before");
+    mkdirSync(blocked);
+
+    await expect(
+      writeGeneratedFiles([
+        { path: existing, content: "after", template: "a", existing: "before" },
+        { path: blocked, content: "x", template: "b", existing: null },
+      ]),
+    ).rejects.toThrow("no file was changed");
+    expect(readFileSync(existing, "utf8")).toBe("before");
+  });
+});
@@ -1,4 +1,12 @@
-import { describe, it, expect, vi, afterAll } from "vitest";
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  afterAll,
+  afterEach,
+  beforeEach,
+} from "vitest";
 import consola from "consola";
 import {
   createMain,
@@ -8,6 +16,10 @@ import {
   showUsage,
 } from "../src";
 import * as commandModule from "../src/command";
+import * as mainModule from "../src/main";
+import { ContextError, TemplateNotFoundError } from "../src/types";
+import { hooks } from "../src/pro/hooks";
+import { useContext } from "../src/pro/context";
 
 describe("runMain", () => {
   vi.spyOn(process, "exit").mockImplementation(() => 0 as never);
@@ -103,7 +115,10 @@ describe("runMain", () => {
 
     await runMain(command);
 
-    expect(mockRunCommand).toHaveBeenCalledWith(command, { rawArgs: [] });
+    expect(mockRunCommand).toHaveBeenCalledWith(command, {
+      rawArgs: [],
+      signal: expect.any(AbortSignal),
+    });
   });
 
   it("runs the command with raw arguments", async () => {
@@ -115,7 +130,10 @@ describe("runMain", () => {
 
     await runMain(command, { rawArgs });
 
-    expect(mockRunCommand).toHaveBeenCalledWith(command, { rawArgs });
+    expect(mockRunCommand).toHaveBeenCalledWith(command, {
+      rawArgs,
+      signal: expect.any(AbortSignal),
+    });
   });
 });
 
@@ -157,6 +175,362 @@ describe("sub command", () => {
   });
 });
 
+describe("strict command", () => {
+  const command = defineCommand({
+    meta: { strict: true },
+    args: {
+      verbose: { type: "boolean" },
+    },
+    subCommands: {
+      generate: {
+        meta: { strict: true },
+        args: {
+          "dry-run": { type: "boolean" },
+        },
+        run: () => "generated",
+      },
+    },
+  });
+
+  it("leaves sub command flags to the sub command", async () => {
+    await expect(
+      commandModule.runCommand(command, {
+        rawArgs: ["--verbose", "generate", "--dry-run"],
+      }),
+    ).resolves.toBeDefined();
+  });
+
+  it("rejects unknown flags of the sub command", async () => {
+    await expect(
+      commandModule.runCommand(command, {
+        rawArgs: ["generate", "--dryrun"],
+      }),
+    ).rejects.toThrow(
+      "Unknown argument: `--dryrun`. Did you mean `--dry-run`?",
+    );
+  });
+
+  it("suggests the closest sub command", async () => {
+    await expect(
+      commandModule.runCommand(command, { rawArgs: ["generat"] }),
+    ).rejects.toThrow("Unknown command `generat`. Did you mean `generate`?");
+  });
+
+  it("leaves flags to the default sub command", async () => {
+    const withDefault = defineCommand({
+      ...command,
+      subCommands: {
+        dev: {
+          meta: { strict: true },
+          args: { watch: { type: "boolean" } },
+          run: () => "dev",
+        },
+      },
+      defaultSubCommand: "dev",
+    });
+
+    await expect(
+      commandModule.runCommand(withDefault, { rawArgs: ["--watch"] }),
+    ).resolves.toBeDefined();
+    await expect(
+      commandModule.runCommand(withDefault, { rawArgs: ["--wach"] }),
+    ).rejects.toThrow("Unknown argument: `--wach`. Did you mean `--watch`?");
+  });
+});
+
+describe("interactive prompts", () => {
+  const setTTY = (value: boolean) => {
+    process.stdin.isTTY = value;
+    process.stdout.isTTY = value;
+  };
+
+  const command = defineCommand({
+    args: {
+      name: { type: "positional", prompt: "Project name?" },
+      port: { type: "number", required: true, prompt: true },
+      mode: { type: "enum", options: ["dev", "prod"], required: true },
+    },
+    run: ({ args }) => args,
+  });
+
+  afterEach(() => {
+    setTTY(false);
+    vi.restoreAllMocks();
+  });
+
+  it("asks for missing arguments with `prompt`", async () => {
+    setTTY(true);
+    const promptMock = vi
+      .spyOn(consola, "prompt")
+      .mockResolvedValueOnce("my-app")
+      .mockResolvedValueOnce("3000");
+
+    const { result } = await commandModule.runCommand(command, {
+      rawArgs: ["--mode", "dev"],
+    });
+
+    expect(result).toMatchObject({ name: "my-app", port: 3000, mode: "dev" });
+    expect(promptMock).toHaveBeenNthCalledWith(
+      1,
+      "Project name?",
+      expect.objectContaining({ type: "text" }),
+    );
+  });
+
+  it("re-asks until a number is entered", async () => {
+    setTTY(true);
+    vi.spyOn(consola, "warn").mockImplementation(() => undefined);
+    const promptMock = vi
+      .spyOn(consola, "prompt")
+      .mockResolvedValueOnce("abc")
+      .mockResolvedValueOnce("8080");
+
+    const { result } = await commandModule.runCommand(command, {
+      rawArgs: ["my-app", "--mode", "prod"],
+    });
+
+    expect(result).toMatchObject({ port: 8080 });
+    expect(promptMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("uses a select for enums in interactive mode", async () => {
+    setTTY(true);
+    const promptMock = vi.spyOn(consola, "prompt").mockResolvedValue("prod");
+
+    const { result } = await commandModule.runCommand(command, {
+      rawArgs: ["my-app", "--port", "80"],
+      interactive: true,
+    });
+
+    expect(result).toMatchObject({ mode: "prod" });
+    expect(promptMock).toHaveBeenCalledWith(
+      "mode",
+      expect.objectContaining({ type: "select", options: ["dev", "prod"] }),
+    );
+  });
+
+  it("does not prompt without `prompt` or interactive mode", async () => {
+    setTTY(true);
+    const promptMock = vi.spyOn(consola, "prompt");
+
+    await expect(
+      commandModule.runCommand(command, {
+        rawArgs: ["my-app", "--port", "80"],
+      }),
+    ).rejects.toThrow("Missing required argument: --mode");
+    expect(promptMock).not.toHaveBeenCalled();
+  });
+
+  it("fails fast when not attached to a terminal", async () => {
+    setTTY(false);
+    const promptMock = vi.spyOn(consola, "prompt");
+
+    await expect(
+      commandModule.runCommand(command, {
+        rawArgs: ["--mode", "dev"],
+        interactive: true,
+      }),
+    ).rejects.toThrow("Missing required positional argument: NAME");
+    expect(promptMock).not.toHaveBeenCalled();
+  });
+
+  it("does not replace invalid values given on the command line", async () => {
+    setTTY(true);
+    const promptMock = vi.spyOn(consola, "prompt");
+
+    await expect(
+      commandModule.runCommand(command, {
+        rawArgs: ["my-app", "--port", "abc", "--mode", "dev"],
+      }),
+    ).rejects.toThrow("Expected a number.");
+    expect(promptMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("sub command routing", () => {
+  const generate = defineCommand({
+    meta: { name: "generate", aliases: ["gen", "g"] },
+    args: { name: { type: "positional", required: false } },
+    run: ({ args, data, parent }) => ({
+      name: args.name,
+      data,
+      output: parent?.args.output,
+    }),
+  });
+  const runMock = vi.fn();
+  const command = defineCommand({
+    args: {
+      output: { type: "string", alias: "o" },
+      verbose: { type: "boolean" },
+    },
+    subCommands: {
+      generate: defineCommand({
+        ...generate,
+        run: (ctx) => runMock(generate.run!(ctx)),
+      }),
+      list: { run: () => runMock("list") },
+    },
+    defaultSubCommand: "list",
+  });
+
+  afterEach(() => {
+    runMock.mockReset();
+  });
+
+  it("skips the values of flags", async () => {
+    await commandModule.runCommand(command, {
+      rawArgs: ["--output", "dist", "generate", "button"],
+      data: { foo: "bar" },
+    });
+
+    expect(runMock).toHaveBeenCalledWith({
+      name: "button",
+      data: { foo: "bar" },
+      output: "dist",
+    });
+  });
+
+  it("matches aliases", async () => {
+    await commandModule.runCommand(command, {
+      rawArgs: ["--verbose", "-o", "dist", "gen"],
+    });
+
+    expect(runMock).toHaveBeenCalledWith(
+      expect.objectContaining({ output: "dist" }),
+    );
+  });
+
+  it("runs the default sub command", async () => {
+    await commandModule.runCommand(command, { rawArgs: ["-o", "dist"] });
+
+    expect(runMock).toHaveBeenCalledWith("list");
+  });
+
+  it("resolves aliases after flag values for help", async () => {
+    const [subCommand] = await commandModule.resolveSubCommand(command, [
+      "--output=dist",
+      "-o",
+      "list",
+      "g",
+      "--help",
+    ]);
+
+    expect(subCommand.meta).toEqual(generate.meta);
+  });
+
+  it("shows the parent help when no sub command is given", async () => {
+    const [subCommand] = await commandModule.resolveSubCommand(command, [
+      "--help",
+    ]);
+
+    expect(subCommand).toBe(command);
+  });
+
+  it("passes other words as positionals of a command that runs", async () => {
+    await commandModule.runCommand(
+      defineCommand({
+        args: { generator: { type: "positional" } },
+        subCommands: { list: { run: () => runMock("list") } },
+        run: ({ args }) => runMock(args.generator),
+      }),
+      { rawArgs: ["component"] },
+    );
+
+    expect(runMock).toHaveBeenCalledWith("component");
+  });
+});
+
+describe("cancellation", () => {
+  it("stops waiting for `run` and runs `cleanup` when the signal aborts", async () => {
+    const controller = new AbortController();
+    const cleanup = vi.fn();
+    const command = defineCommand({
+      run: ({ signal }) => {
+        controller.abort(new DOMException("Interrupted", "AbortError"));
+        expect(signal?.aborted).toBe(true);
+        return new Promise(() => {});
+      },
+      cleanup,
+    });
+
+    await expect(
+      commandModule.runCommand(command, {
+        rawArgs: [],
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow("Interrupted");
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("error handling", () => {
+  let exitMock: ReturnType<typeof vi.spyOn>;
+  const command = defineCommand({
+    args: { port: { type: "number" } },
+    subCommands: {
+      render: {
+        run: () => Promise.reject(new TemplateNotFoundError("a", "b")),
+      },
+      context: { run: () => Promise.reject(new ContextError("Bad context")) },
+    },
+    run: () => {},
+  });
+
+  beforeEach(() => {
+    exitMock = vi
+      .spyOn(process, "exit")
+      .mockImplementation(() => undefined as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    [["--unknown", "sub"], 2],
+    [["--port", "abc"], 4],
+    [["render"], 3],
+    [["context"], 4],
+  ])("exits %j with %i", async (rawArgs, code) => {
+    vi.spyOn(consola, "error").mockImplementation(() => undefined);
+    vi.spyOn(consola, "info").mockImplementation(() => undefined);
+    await mainModule.runMain(command, { rawArgs, showUsage: async () => {} });
+    expect(exitMock).toHaveBeenCalledWith(code);
+  });
+
+  it("prints errors as json with `--json`", async () => {
+    const stderrMock = vi
+      .spyOn(process.stderr, "write")
+      .mockImplementation(() => true);
+
+    await mainModule.runMain(command, { rawArgs: ["render", "--json"] });
+
+    expect(JSON.parse(stderrMock.mock.calls[0][0] as string)).toEqual({
+      error: {
+        code: "TEMPLATE_NOT_FOUND",
+        message: 'Template not found for generator "a" and action "b"',
+        details: { generator: "a", action: "b" },
+        hints: expect.arrayContaining([
+          "Run `unjucks --list` to see available templates",
+        ]),
+      },
+    });
+    expect(exitMock).toHaveBeenCalledWith(3);
+  });
+
+  it("lets `onError` handle errors and choose the exit code", async () => {
+    const onError = vi.fn(() => 42);
+
+    await mainModule.runMain(command, { rawArgs: ["context"], onError });
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.any(ContextError),
+      expect.objectContaining({ code: "CONTEXT_ERROR", exitCode: 4 }),
+    );
+    expect(exitMock).toHaveBeenCalledWith(42);
+  });
+});
+
 describe("resolveSubCommand", () => {
   it("resolves the sub command", async () => {
     const command = defineCommand({
@@ -183,6 +557,143 @@ describe("resolveSubCommand", () => {
   });
 });
 
+describe("lifecycle mode", () => {
+  afterEach(() => {
+    hooks.removeAllHooks();
+    vi.restoreAllMocks();
+  });
+
+  it("runs the command inside the lifecycle with a run context", async () => {
+    const logMock = vi.spyOn(console, "log").mockImplementation(() => {});
+    const phases: string[] = [];
+    const command = defineCommand({
+      meta: { name: "deploy" },
+      args: { target: { type: "string" } },
+      run: ({ args, ctx }) => ({
+        text: `${args.target} ${ctx?.memo?.region} ${useContext() === ctx}`,
+      }),
+    });
+
+    await mainModule.runMain(command, {
+      rawArgs: ["--target", "prod"],
+      lifecycle: true,
+      plugins: [
+        (h, ctx) => {
+          ctx.memo = { region: "eu" };
+          h.hook("command:resolved", ({ name }) => {
+            phases.push(`command:resolved ${name}`);
+          });
+          h.hook("cli:done", () => {
+            phases.push("cli:done");
+          });
+        },
+      ],
+    });
+
+    expect(logMock).toHaveBeenCalledWith("prod eu true");
+    expect(phases).toEqual(["command:resolved deploy", "cli:done"]);
+  });
+
+  it("provides useContext() without a global AsyncLocalStorage", async () => {
+    const { AsyncLocalStorage } = globalThis as any;
+    delete (globalThis as any).AsyncLocalStorage;
+    vi.resetModules();
+    try {
+      const { runMain } = await import("../src/main");
+      const { useContext } = await import("../src/pro/context");
+      const logMock = vi.spyOn(console, "log").mockImplementation(() => {});
+      const command = defineCommand({
+        run: async ({ ctx }) => {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          return { text: String(useContext() === ctx) };
+        },
+      });
+
+      await runMain(command, { rawArgs: [], lifecycle: true });
+
+      expect(logMock).toHaveBeenCalledWith("true");
+    } finally {
+      (globalThis as any).AsyncLocalStorage = AsyncLocalStorage;
+    }
+  });
+
+  it("reads --resume and --no-cache before a strict command parses its arguments", async () => {
+    const command = defineCommand({
+      meta: { strict: true },
+      args: { target: { type: "string" } },
+      run: ({ args, ctx }) => ({
+        json: [args.target, ctx?.resume, ctx?.cache],
+      }),
+    });
+    const logMock = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await mainModule.runMain(command, {
+      rawArgs: ["--resume", "run-1", "--no-cache", "--target", "prod"],
+      lifecycle: true,
+    });
+
+    expect(logMock).toHaveBeenCalledWith(
+      JSON.stringify(["prod", "run-1", false], null, 2),
+    );
+  });
+
+  it("leaves --resume to commands that declare it", async () => {
+    const command = defineCommand({
+      meta: { strict: true },
+      args: { resume: { type: "string" }, target: { type: "string" } },
+      run: ({ args, ctx }) => ({
+        json: [args.resume, args.target, ctx?.resume ?? null],
+      }),
+    });
+    const logMock = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await mainModule.runMain(command, {
+      rawArgs: ["--resume", "draft", "--target", "prod"],
+      lifecycle: true,
+    });
+
+    expect(logMock).toHaveBeenCalledWith(
+      JSON.stringify(["draft", "prod", null], null, 2),
+    );
+  });
+
+  it("leaves --cache to commands that declare it", async () => {
+    const command = defineCommand({
+      args: { cache: { type: "string" } },
+      run: ({ args, ctx }) => ({ json: [args.cache, ctx?.cache] }),
+    });
+    const logMock = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await mainModule.runMain(command, {
+      rawArgs: ["--cache", "/tmp/x"],
+      lifecycle: true,
+    });
+
+    expect(logMock).toHaveBeenCalledWith(
+      JSON.stringify(["/tmp/x", true], null, 2),
+    );
+  });
+
+  it("reports errors once, with the regular exit codes", async () => {
+    const exitMock = vi
+      .spyOn(process, "exit")
+      .mockImplementation(() => undefined as never);
+    const consoleErrorMock = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    vi.spyOn(consola, "error").mockImplementation(() => undefined);
+    vi.spyOn(consola, "info").mockImplementation(() => undefined);
+    const command = defineCommand({
+      run: () => Promise.reject(new TemplateNotFoundError("a", "b")),
+    });
+
+    await mainModule.runMain(command, { rawArgs: [], lifecycle: true });
+
+    expect(exitMock).toHaveBeenCalledWith(3);
+    expect(consoleErrorMock).not.toHaveBeenCalled();
+  });
+});
+
 describe("createMain", () => {
   it("creates and returns a function", () => {
     const main = createMain(defineCommand({}));
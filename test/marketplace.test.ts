@@ -0,0 +1,317 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { generateKeyPairSync, type KeyObject } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  addPackage,
+  computeIntegrity,
+  createTarball,
+  keyFingerprint,
+  loadKeyring,
+  loadLockfile,
+  parsePackageSpec,
+  removePackage,
+  signIntegrity,
+  updatePackages,
+  type PackageFile,
+  type PackageVersion,
+} from "../src/marketplace";
+import { maxSatisfying, satisfies } from "../src/marketplace/semver";
+import { PluginManager } from "../src/plugins/plugin-system";
+
+const author = generateKeyPairSync("ed25519");
+
+const version = (
+  name: string,
+  number: string,
+  files: PackageFile[],
+  type: PackageVersion["type"] = "template",
+  key: { publicKey: KeyObject; privateKey: KeyObject } | null = author,
+): PackageVersion => {
+  const integrity = computeIntegrity(files);
+  if (!key) {
+    return { name, version: number, type, files, integrity };
+  }
+  const publicKey = key.publicKey
+    .export({ type: "spki", format: "pem" })
+    .toString();
+  return {
+    name,
+    version: number,
+    type,
+    files,
+    integrity,
+    signature: {
+      keyId: keyFingerprint(publicKey),
+      publicKey,
+      value: signIntegrity(integrity, key.privateKey),
+    },
+  };
+};
+
+const file = (path: string, content: string): PackageFile => ({
+  path,
+  content,
+  type: "file",
+});
+
+describe("marketplace packages", () => {
+  let root: string;
+  let server: Server;
+  let registry: string;
+  let packages: Record<string, Record<string, PackageVersion>>;
+
+  beforeEach(async () => {
+    root = join(tmpdir(), `unjucks-marketplace-test-${Date.now()}`);
+    mkdirSync(root, { recursive: true });
+    packages = {
+      "vue-starter": {
+        "1.0.0": version("vue-starter", "1.0.0", [
+          file("component/new/index.njk", "v1"),
+          file("component/new/old.njk", "old"),
+        ]),
+        "1.2.0": version("vue-starter", "1.2.0", [
+          file("component/new/index.njk", "v1.2"),
+        ]),
+        "2.0.0": version("vue-starter", "2.0.0", [
+          file("component/new/index.njk", "v2"),
+        ]),
+      },
+    };
+    server = createServer((request, response) => {
+      const name = decodeURIComponent(request.url!.split("/").pop()!);
+      const versions = packages[name];
+      response.writeHead(versions ? 200 : 404, {
+        "content-type": "application/json",
+      });
+      response.end(
+        JSON.stringify(
+          versions ? { success: true, data: { name, versions } } : {},
+        ),
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    registry = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("resolves version ranges", () => {
+    expect(parsePackageSpec("@acme/vue@^1.2")).toEqual({
+      name: "@acme/vue",
+      range: "^1.2",
+    });
+    expect(parsePackageSpec("vue")).toEqual({ name: "vue", range: "*" });
+    expect(satisfies("1.4.0", ">=1.2 <2")).toBe(true);
+    expect(satisfies("2.0.0-beta.1", "^1 || ^2")).toBe(false);
+    expect(maxSatisfying(["1.0.0", "1.2.0", "2.0.0"], "~1.0")).toBe("1.0.0");
+  });
+
+  it("installs the highest matching version and locks it", async () => {
+    const result = await addPackage("vue-starter@^1", { cwd: root, registry });
+
+    expect(result.version).toBe("1.2.0");
+    expect(
+      readFileSync(
+        join(root, "templates/vue-starter/component/new/index.njk"),
+        "utf8",
+      ),
+    ).toBe("v1.2");
+    const { packages: locked } = await loadLockfile(root);
+    expect(locked["vue-starter"]).toMatchObject({
+      version: "1.2.0",
+      range: "^1",
+      registry,
+      integrity: packages["vue-starter"]["1.2.0"].integrity,
+    });
+  });
+
+  it("refuses files that do not match their digest", async () => {
+    packages["vue-starter"]["2.0.0"].files[0].content = "tampered";
+
+    await expect(
+      addPackage("vue-starter", { cwd: root, registry }),
+    ).rejects.toMatchObject({ code: "INTEGRITY_MISMATCH" });
+    expect(existsSync(join(root, "templates"))).toBe(false);
+  });
+
+  it("builds the same tarball whatever the order of the files", () => {
+    const files = [
+      file("b.njk", "b"),
+      { path: "a/", content: "", type: "directory" as const },
+      file("a/long/".repeat(20) + "c.njk", "c".repeat(600)),
+    ];
+    const tarball = createTarball(files);
+
+    expect(tarball.equals(createTarball([...files].reverse()))).toBe(true);
+    expect(tarball.length % 512).toBe(0);
+    expect(tarball.subarray(0, 10).toString()).toBe("package/a/");
+    expect(tarball.subarray(257, 262).toString()).toBe("ustar");
+    expect(computeIntegrity(files)).not.toBe(
+      computeIntegrity([...files.slice(1), file("b.njk", "B")]),
+    );
+  });
+
+  it("refuses unsigned items unless allowed", async () => {
+    packages["vue-starter"]["2.0.0"] = version(
+      "vue-starter",
+      "2.0.0",
+      [file("component/new/index.njk", "v2")],
+      "template",
+      null,
+    );
+
+    await expect(
+      addPackage("vue-starter", { cwd: root, registry }),
+    ).rejects.toMatchObject({ code: "UNSIGNED_PACKAGE" });
+
+    await addPackage("vue-starter", {
+      cwd: root,
+      registry,
+      allowUnsigned: true,
+    });
+    expect((await loadKeyring(root)).keys).toEqual({});
+  });
+
+  it("refuses signatures that do not match the files", async () => {
+    const signed = packages["vue-starter"]["2.0.0"];
+    signed.files = [file("component/new/index.njk", "tampered")];
+    signed.integrity = computeIntegrity(signed.files);
+
+    await expect(
+      addPackage("vue-starter", { cwd: root, registry }),
+    ).rejects.toMatchObject({ code: "SIGNATURE_INVALID" });
+  });
+
+  it("pins the signing key on first install", async () => {
+    await addPackage("vue-starter@^1", { cwd: root, registry });
+    const { keys } = await loadKeyring(root);
+    expect(keys["vue-starter"].keyId).toBe(
+      packages["vue-starter"]["1.2.0"].signature!.keyId,
+    );
+
+    packages["vue-starter"]["1.3.0"] = version(
+      "vue-starter",
+      "1.3.0",
+      [file("component/new/index.njk", "v1.3")],
+      "template",
+      generateKeyPairSync("ed25519"),
+    );
+    await expect(
+      updatePackages([], { cwd: root, registry }),
+    ).rejects.toMatchObject({ code: "SIGNING_KEY_CHANGED" });
+
+    const [result] = await updatePackages([], {
+      cwd: root,
+      trustKey: true,
+    });
+    expect(result.version).toBe("1.3.0");
+    expect((await loadKeyring(root)).keys["vue-starter"].keyId).toBe(
+      packages["vue-starter"]["1.3.0"].signature!.keyId,
+    );
+  });
+
+  it("refuses unsigned versions once a key is pinned", async () => {
+    await addPackage("vue-starter@^1", { cwd: root, registry });
+    const pinned = (await loadKeyring(root)).keys["vue-starter"];
+
+    packages["vue-starter"]["1.3.0"] = version(
+      "vue-starter",
+      "1.3.0",
+      [file("component/new/index.njk", "v1.3")],
+      "template",
+      null,
+    );
+    await expect(
+      updatePackages([], { cwd: root, allowUnsigned: true }),
+    ).rejects.toMatchObject({
+      code: "UNSIGNED_PACKAGE",
+      details: { expected: pinned.keyId },
+    });
+
+    const [result] = await updatePackages([], {
+      cwd: root,
+      allowUnsigned: true,
+      trustKey: true,
+    });
+    expect(result.version).toBe("1.3.0");
+  });
+
+  it("updates within the locked range and drops files of the old version", async () => {
+    delete packages["vue-starter"]["1.2.0"];
+    await addPackage("vue-starter@~1.0", { cwd: root, registry });
+    packages["vue-starter"]["1.0.1"] = version("vue-starter", "1.0.1", [
+      file("component/new/index.njk", "v1.0.1"),
+    ]);
+
+    const results = await updatePackages([], { cwd: root, registry });
+
+    expect(results.map((r) => [r.previous, r.version])).toEqual([
+      ["1.0.0", "1.0.1"],
+    ]);
+    const dir = join(root, "templates/vue-starter/component/new");
+    expect(readFileSync(join(dir, "index.njk"), "utf8")).toBe("v1.0.1");
+    expect(existsSync(join(dir, "old.njk"))).toBe(false);
+    expect(await updatePackages([], { cwd: root })).toEqual([]);
+  });
+
+  it("keeps hand edits unless forced", async () => {
+    const dir = join(root, "templates/vue-starter/component/new");
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "index.njk"), "mine");
+
+    await expect(
+      addPackage("vue-starter", { cwd: root, registry }),
+    ).rejects.toMatchObject({ code: "INSTALL_CONFLICT" });
+
+    await addPackage("vue-starter", { cwd: root, registry, force: true });
+    writeFileSync(join(dir, "index.njk"), "edited");
+    const result = await removePackage("vue-starter", { cwd: root });
+
+    expect(result.kept).toEqual([
+      "templates/vue-starter/component/new/index.njk",
+    ]);
+    expect((await loadLockfile(root)).packages).toEqual({});
+  });
+
+  it("registers plugins and unregisters them on removal", async () => {
+    packages["hello-plugin"] = {
+      "1.0.0": version(
+        "hello-plugin",
+        "1.0.0",
+        [
+          file(
+            "hello.plugin.mjs",
+            'export default { name: "hello", version: "1.0.0", description: "Says hello" };\n',
+          ),
+        ],
+        "plugin",
+      ),
+    };
+    const plugins = new PluginManager({ logger: { log() {}, error() {} } });
+
+    const result = await addPackage("hello-plugin", {
+      cwd: root,
+      registry,
+      plugins,
+    });
+    expect(result.plugin).toBe("plugins/hello-plugin/hello.plugin.mjs");
+    expect(plugins.get("hello")?.version).toBe("1.0.0");
+
+    await removePackage("hello-plugin", { cwd: root, plugins });
+    expect(plugins.get("hello")).toBeUndefined();
+    expect(existsSync(join(root, "plugins/hello-plugin"))).toBe(false);
+  });
+});
@@ -1,6 +1,9 @@
 import { expect, it, describe } from "vitest";
 // Skip for now - need to check if functions exist in new structure
 import { toOntology, toSimpleOntology, defineCommand } from "../src";
+import { fromOntology } from "../src/ontology";
+import { ontologyToArgs } from "../src/ontology-to-zod";
+import { parseArgs } from "../src/args";
 
 describe("ontology", () => {
   it("should generate ontology for a simple command", async () => {
@@ -161,4 +164,36 @@ describe("ontology", () => {
       String.raw`citty:hasDescription "Path with \\backslashes\\"`,
     );
   });
+
+  it("should validate arguments generated from an ontology", async () => {
+    const command = defineCommand({
+      meta: { name: "deploy" },
+      args: {
+        target: {
+          type: "enum",
+          options: ["staging", "production"],
+          required: true,
+        },
+        replicas: { type: "number", default: 1 },
+      },
+    });
+
+    const ontology = await toOntology(command);
+    const args = ontologyToArgs(ontology)!;
+
+    expect(args.target?.schema).toBeDefined();
+    expect(parseArgs(["--target", "staging"], args)).toMatchObject({
+      target: "staging",
+      replicas: 1,
+    });
+    expect(() => parseArgs(["--target", "qa"], args)).toThrowError(
+      "Invalid value for argument: `--target` (`qa`).",
+    );
+
+    const code = await fromOntology(ontology);
+    expect(code).toContain("import { z } from 'zod';");
+    expect(code).toContain(
+      'target: { type: "enum", required: true, options: ["staging","production"], schema: z.enum(["staging","production"]) },',
+    );
+  });
 });
@@ -88,4 +88,16 @@ describe("parseRawArgs", () => {
       _: [],
     });
   });
+
+  it("collects repeated values across aliases in order", () => {
+    const args = ["--include", "a", "-i", "b", "--include", "c"];
+    const opts = { alias: { include: "i" }, multiple: ["include"] };
+    const result = parseRawArgs(args, opts);
+
+    expect(result).toEqual({
+      _: [],
+      include: ["a", "b", "c"],
+      i: ["a", "b", "c"],
+    });
+  });
 });
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  mkdirSync,
+  rmSync,
+  symlinkSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { TemplateRenderer } from "../src/renderer";
+
+const PEOPLE_QUERY =
+  "PREFIX ex: <http://example.org/> PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#> " +
+  "SELECT ?label WHERE { ?person a ex:Person . ?person rdfs:label ?label }";
+
+describe("template data", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = join(tmpdir(), `unjucks-data-test-${Date.now()}`);
+    mkdirSync(root, { recursive: true });
+    writeFileSync(
+      join(root, "people.ttl"),
+      `@prefix ex: <http://example.org/> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+ex:ann a ex:Person ; rdfs:label "Ann" .
+ex:bob a ex:Person ; rdfs:label "Bob" .
+`,
+    );
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("reads files until they change", async () => {
+    const renderer = new TemplateRenderer({ searchPaths: [root] });
+    const note = join(root, "note.txt");
+    writeFileSync(note, "first");
+
+    const render = async () =>
+      (
+        await renderer.renderString("{{ path | readFile }}", {
+          path: "note.txt",
+        })
+      ).output;
+    expect(await render()).toBe("first");
+
+    writeFileSync(note, "second");
+    utimesSync(note, new Date(), new Date(Date.now() + 1000));
+    expect(await render()).toBe("second");
+  });
+
+  it("refuses files outside of the templates and the working directory", async () => {
+    const templates = join(root, "templates");
+    mkdirSync(templates);
+    writeFileSync(join(root, "secret.txt"), "secret");
+    symlinkSync(join(root, "secret.txt"), join(templates, "link.txt"));
+    const renderer = new TemplateRenderer({ searchPaths: [templates] });
+
+    for (const path of [
+      "../secret.txt",
+      join(root, "secret.txt"),
+      "link.txt",
+    ]) {
+      await expect(
+        renderer.renderString("{{ path | readFile }}", { path }),
+      ).rejects.toThrow(
+        "is outside of the templates and the working directory",
+      );
+    }
+  });
+
+  it("queries the ontology with sparql and entities()", async () => {
+    const renderer = new TemplateRenderer({
+      ontology: join(root, "people.ttl"),
+    });
+    const template =
+      "{% for row in query | sparql %}{{ row.label }};{% endfor %}" +
+      '{{ entities("ex:Person") | length }}';
+
+    const first = await renderer.renderString(template, {
+      query: PEOPLE_QUERY,
+    });
+    const second = await renderer.renderString(template, {
+      query: PEOPLE_QUERY,
+    });
+    expect(first.output).toBe("Ann;Bob;2");
+    expect(second.output).toBe(first.output);
+  });
+
+  it("gives up on renders that take too long", async () => {
+    const renderer = new TemplateRenderer({
+      timeout: 20,
+      asyncFilters: { wait: () => new Promise(() => {}) },
+    });
+
+    await expect(
+      renderer.renderString("{{ value | wait }}", { value: 1 }),
+    ).rejects.toMatchObject({ code: "RENDER_TIMEOUT" });
+  });
+});
@@ -1,5 +1,11 @@
 import { expect, it, describe, vi } from "vitest";
-import { renderUsage } from "../src/usage";
+import {
+  renderHelp,
+  renderManPage,
+  renderMarkdownUsage,
+  renderUsage,
+} from "../src/usage";
+import { describeCommand } from "../src/describe";
 import { defineCommand } from "../src";
 
 vi.mock("consola/utils", async () => {
@@ -318,4 +324,195 @@ describe("usage", () => {
       Use \`parent-command child-command <command> --help\` for more information about a command."
     `);
   });
+
+  it("renders repeatable arguments", async () => {
+    const command = defineCommand({
+      meta: {
+        name: "Commander",
+        description: "A command",
+      },
+      args: {
+        include: {
+          type: "string",
+          multiple: true,
+          description: "Globs to include",
+        },
+        format: {
+          type: "enum",
+          options: ["esm", "cjs"],
+          multiple: true,
+        },
+        files: {
+          type: "positional",
+          multiple: true,
+          description: "Files",
+        },
+      },
+    });
+
+    const usage = await renderUsage(command);
+
+    expect(usage).toContain("`--include=<value>...`");
+    expect(usage).toContain("`--format=<esm|cjs>...`");
+    expect(usage).toContain("`FILES...`");
+    expect(usage).toContain("USAGE `Commander [OPTIONS] <FILES...>`");
+  });
+
+  it("renders the environment variable of arguments", async () => {
+    const command = defineCommand({
+      meta: {
+        name: "Commander",
+        description: "A command",
+      },
+      args: {
+        dir: {
+          type: "string",
+          env: "COMMANDER_DIR",
+          description: "A dir",
+        },
+      },
+    });
+
+    const usage = await renderUsage(command);
+
+    expect(usage).toContain("A dir (env: COMMANDER_DIR)");
+  });
+
+  it("renders argument groups and relation hints", async () => {
+    const command = defineCommand({
+      meta: {
+        name: "Commander",
+        description: "A command",
+      },
+      args: {
+        prompt: { type: "string", description: "A prompt" },
+        schema: { type: "string", description: "A schema" },
+        user: { type: "string", requires: "password" },
+        password: { type: "string" },
+      },
+      argGroups: [
+        { title: "Source", args: ["prompt", "schema"], exclusive: true },
+      ],
+    });
+
+    const usage = await renderUsage(command);
+
+    expect(usage).toContain("SOURCE");
+    expect(usage).toContain("A prompt (conflicts with --schema)");
+    expect(usage).toContain("A schema (conflicts with --prompt)");
+    expect(usage).toContain("(requires --password)");
+    expect(usage.indexOf("`--user`")).toBeLessThan(usage.indexOf("SOURCE"));
+  });
+
+  it("renders sub command aliases and the default", async () => {
+    const command = defineCommand({
+      meta: { name: "Commander" },
+      subCommands: {
+        generate: { meta: { aliases: ["gen"], description: "Generate" } },
+        list: { meta: { description: "List" } },
+      },
+      defaultSubCommand: "list",
+    });
+
+    const usage = await renderUsage(command);
+
+    expect(usage).toMatch(/`generate, gen` +Generate/);
+    expect(usage).toMatch(/`list` +List \(default\)/);
+  });
+
+  it("renders examples from the command meta", async () => {
+    const command = defineCommand({
+      meta: {
+        name: "Commander",
+        examples: [{ command: "init --force", description: "Start over" }],
+      },
+    });
+
+    const usage = await renderUsage(command);
+
+    expect(usage).toContain("EXAMPLES");
+    expect(usage).toMatch(/`Commander init --force` +Start over/);
+  });
+});
+
+describe("machine-readable help", () => {
+  const command = defineCommand({
+    meta: {
+      name: "commander",
+      version: "1.0.0",
+      description: "A command\nwith details",
+      examples: [{ command: "build src", description: "Build src" }],
+    },
+    args: {
+      dir: { type: "positional", description: "A dir" },
+      mode: {
+        type: "enum",
+        options: ["dev", "prod"],
+        alias: "m",
+        default: "dev",
+        description: "A mode",
+      },
+    },
+    subCommands: {
+      build: { meta: { description: "Build it" } },
+      internal: { meta: { hidden: true } },
+    },
+  });
+
+  it("describes the resolved command tree", async () => {
+    const description = await describeCommand(command);
+
+    expect(description).toMatchObject({
+      name: "commander",
+      path: ["commander"],
+      usage: "commander [OPTIONS] <DIR> build",
+      version: "1.0.0",
+      examples: [{ command: "build src", description: "Build src" }],
+    });
+    expect(description.args[1]).toMatchObject({
+      name: "mode",
+      alias: ["m"],
+      default: "dev",
+      required: false,
+      options: ["dev", "prod"],
+    });
+    expect(
+      description.subCommands.map((sub) => [sub.path, sub.hidden]),
+    ).toEqual([
+      [["commander", "build"], false],
+      [["commander", "internal"], true],
+    ]);
+  });
+
+  it("renders json", async () => {
+    const json = JSON.parse(await renderHelp(command, undefined, "json"));
+    expect(json.subCommands[0].name).toBe("build");
+  });
+
+  it("renders markdown", async () => {
+    const markdown = renderMarkdownUsage(await describeCommand(command));
+
+    expect(markdown).toContain("# `commander`");
+    expect(markdown).toContain(
+      '| `-m, --mode=<dev\\|prod>` | A mode _(default: "dev")_ |',
+    );
+    expect(markdown).toContain("## `commander build`");
+    expect(markdown).not.toContain("internal");
+    expect(markdown).toContain("# Build src\ncommander build src");
+  });
+
+  it("renders a man page", async () => {
+    const man = renderManPage(await describeCommand(command));
+
+    expect(man).toContain('.TH COMMANDER 1 "" "commander 1.0.0"');
+    expect(man).toContain("commander \\- A command");
+    expect(man).toContain(".B \\-m, \\-\\-mode=<dev|prod>");
+    expect(man).toContain(".SH COMMANDS\n.TP\n.B build\nBuild it");
+  });
+
+  it("rejects unknown formats", async () => {
+    await expect(renderHelp(command, undefined, "html")).rejects.toThrow(
+      "Unknown help format `html`.",
+    );
+  });
 });
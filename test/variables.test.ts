@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { findTemplateVariables } from "../src/variables";
+
+const names = (source: string, load?: (name: string) => string | undefined) =>
+  findTemplateVariables(source, { load }).map((variable) => variable.name);
+
+describe("findTemplateVariables", () => {
+  it("finds the roots of lookups and calls", () => {
+    expect(
+      names("{{ user.name }} {{ items[index] }} {{ format(date) }}"),
+    ).toEqual(["user", "items", "index", "format", "date"]);
+  });
+
+  it("leaves out names bound by for loops and set", () => {
+    expect(
+      names(
+        "{% set title = name | upper %}{{ title }}" +
+          "{% for key, value in entries %}{{ loop.index }}{{ key }}{{ value }}{% endfor %}" +
+          "{{ value }}",
+      ),
+    ).toEqual(["name", "entries", "value"]);
+  });
+
+  it("binds macro arguments and imports", () => {
+    expect(
+      names(
+        '{% from "forms.njk" import field as f %}' +
+          "{% macro row(label, width=defaultWidth) %}{{ label }}{{ caller() }}{% endmacro %}" +
+          "{{ f(kind=type) }}{{ row(heading) }}",
+      ),
+    ).toEqual(["defaultWidth", "type", "heading"]);
+  });
+
+  it("follows includes", () => {
+    expect(
+      names('{% include "header.njk" %}{{ body }}', (name) =>
+        name === "header.njk" ? "{{ title }}" : undefined,
+      ),
+    ).toEqual(["title", "body"]);
+  });
+
+  it("tells optional variables apart", () => {
+    expect(
+      findTemplateVariables(
+        "{% if draft %}{{ note | default('') }}{% endif %}{{ name }}",
+      ),
+    ).toEqual([
+      { name: "draft", required: false },
+      { name: "note", required: false },
+      { name: "name", required: true },
+    ]);
+  });
+
+  it("ignores filters and Nunjucks globals", () => {
+    expect(names("{% for i in range(3) %}{{ i | upper }}{% endfor %}")).toEqual(
+      [],
+    );
+  });
+});
@@ -345,7 +345,7 @@ describe('Fortune 500 Disaster Recovery - BDD Scenarios', () => {
       
       const enterpriseBackupTask = cittyPro.defineTask({
         id: 'enterprise-backup-system',
-        run: async (backupRequest, ctx) => {
+        run: async (backupRequest: z.infer<typeof BackupPolicySchema>, ctx) => {
           const { policy, dataSets, complianceRequirements } = backupRequest;
           
           // Step 1: Validate backup policy
@@ -641,7 +641,7 @@ describe('Fortune 500 Disaster Recovery - BDD Scenarios', () => {
       
       const failoverManagementTask = cittyPro.defineTask({
         id: 'failover-management-system',
-        run: async (failoverRequest, ctx) => {
+        run: async (failoverRequest: z.infer<typeof FailoverPlanSchema>, ctx) => {
           const { failoverPlan, triggerConditions, services } = failoverRequest;
           
           // Step 1: Initialize sites
@@ -1038,7 +1038,7 @@ describe('Fortune 500 Disaster Recovery - BDD Scenarios', () => {
       
       const businessContinuityTask = cittyPro.defineTask({
         id: 'business-continuity-manager',
-        run: async (continuityRequest, ctx) => {
+        run: async (continuityRequest: z.infer<typeof BusinessContinuitySchema>, ctx) => {
           const { continuityPlan, criticalBusinessFunctions, recoveryStrategies } = continuityRequest;
           
           // Step 1: Validate business continuity plan
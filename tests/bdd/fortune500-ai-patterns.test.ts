@@ -247,7 +247,7 @@ describe('Fortune 500 AI Patterns - Enterprise BDD Scenarios', () => {
               fileSize: 500000 + (i * 1000),
               uploadedAt: new Date(),
               department: 'LEGAL' as const,
-              classification: i % 10 === 0 ? 'RESTRICTED' : 'CONFIDENTIAL' as const,
+              classification: i % 10 === 0 ? 'RESTRICTED' as const : 'CONFIDENTIAL' as const,
               language: 'en'
             },
             content: {
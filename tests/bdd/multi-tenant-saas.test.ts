@@ -280,7 +280,7 @@ describe('Fortune 500 Multi-Tenant SaaS - BDD Scenarios', () => {
       
       const tenantProvisioningTask = cittyPro.defineTask({
         id: 'tenant-provisioning-system',
-        run: async (provisioningRequest, ctx) => {
+        run: async (provisioningRequest: z.infer<typeof TenantProvisioningSchema>, ctx) => {
           const { tenant, isolationConfig, resourceQuotas, slaRequirements } = provisioningRequest;
           
           // Step 1: Validate tenant requirements
@@ -376,19 +376,19 @@ describe('Fortune 500 Multi-Tenant SaaS - BDD Scenarios', () => {
 
       describe('When provisioning a new enterprise tenant', () => {
         it('Then should create isolated environment with strict data separation', async () => {
-          const enterpriseTenantRequest = {
+          const enterpriseTenantRequest: z.input<typeof TenantProvisioningSchema> = {
             tenant: {
               organizationId: crypto.randomUUID(),
               organizationName: 'Acme Fortune 500 Corp',
-              tier: 'ENTERPRISE_PLUS' as const,
-              region: 'US_EAST' as const,
-              complianceRequirements: ['SOX', 'GDPR', 'ISO_27001'] as const
+              tier: 'ENTERPRISE_PLUS',
+              region: 'US_EAST',
+              complianceRequirements: ['SOX', 'GDPR', 'ISO_27001']
             },
             isolationConfig: {
-              databaseIsolation: 'DB_PER_TENANT' as const,
+              databaseIsolation: 'DB_PER_TENANT',
               networkIsolation: true,
-              dataEncryption: 'AES_256' as const,
-              keyManagement: 'TENANT_SPECIFIC' as const,
+              dataEncryption: 'AES_256',
+              keyManagement: 'TENANT_SPECIFIC',
               auditLogging: true
             },
             resourceQuotas: {
@@ -403,7 +403,7 @@ describe('Fortune 500 Multi-Tenant SaaS - BDD Scenarios', () => {
               uptime: 0.9999, // 99.99%
               responseTime: 100, // 100ms
               throughput: 1000, // 1000 RPS
-              supportLevel: 'ENTERPRISE' as const
+              supportLevel: 'ENTERPRISE'
             }
           };
           
@@ -444,19 +444,19 @@ describe('Fortune 500 Multi-Tenant SaaS - BDD Scenarios', () => {
         });
         
         it('Then should enforce resource quotas and prevent tenant resource leakage', async () => {
-          const quotaTestTenant = {
+          const quotaTestTenant: z.input<typeof TenantProvisioningSchema> = {
             tenant: {
               organizationId: crypto.randomUUID(),
               organizationName: 'Small Business Corp',
-              tier: 'STARTER' as const,
-              region: 'US_WEST' as const,
-              complianceRequirements: [] as const
+              tier: 'STARTER',
+              region: 'US_WEST',
+              complianceRequirements: []
             },
             isolationConfig: {
-              databaseIsolation: 'SCHEMA_PER_TENANT' as const,
+              databaseIsolation: 'SCHEMA_PER_TENANT',
               networkIsolation: false,
-              dataEncryption: 'AES_128' as const,
-              keyManagement: 'SHARED' as const,
+              dataEncryption: 'AES_128',
+              keyManagement: 'SHARED',
               auditLogging: true
             },
             resourceQuotas: {
@@ -471,7 +471,7 @@ describe('Fortune 500 Multi-Tenant SaaS - BDD Scenarios', () => {
               uptime: 0.99,      // 99%
               responseTime: 500, // 500ms
               throughput: 100,   // 100 RPS
-              supportLevel: 'BASIC' as const
+              supportLevel: 'BASIC'
             }
           };
           
@@ -540,7 +540,7 @@ describe('Fortune 500 Multi-Tenant SaaS - BDD Scenarios', () => {
       
       const usageBillingTask = cittyPro.defineTask({
         id: 'usage-based-billing-system',
-        run: async (billingRequest, ctx) => {
+        run: async (billingRequest: z.infer<typeof BillingSchema>, ctx) => {
           const { billingPeriod, pricingPlan, usageData } = billingRequest;
           
           // Step 1: Validate billing period
@@ -854,7 +854,7 @@ describe('Fortune 500 Multi-Tenant SaaS - BDD Scenarios', () => {
       
       const tenantAnalyticsTask = cittyPro.defineTask({
         id: 'tenant-analytics-engine',
-        run: async (analyticsRequest, ctx) => {
+        run: async (analyticsRequest: z.infer<typeof TenantAnalyticsSchema>, ctx) => {
           const { analyticsRequest: request, comparisonGroup } = analyticsRequest;
           
           // Get tenant information
@@ -867,7 +867,7 @@ describe('Fortune 500 Multi-Tenant SaaS - BDD Scenarios', () => {
           const billing = tenantMetrics.billingData.get(request.tenantId);
           
           // Generate time-series data based on granularity
-          const timeSeries = generateTimeSeriesData(request.timeRange, request.granularity);
+          const timeSeries = generateTimeSeriesData(request.timeRange, request.timeRange.granularity);
           
           const analytics = {
             tenantId: request.tenantId,
@@ -1111,15 +1111,15 @@ describe('Fortune 500 Multi-Tenant SaaS - BDD Scenarios', () => {
           
           saasContext.memo!.currentTenantId = analyticsTenantId;
           
-          const analyticsRequest = {
+          const analyticsRequest: z.input<typeof TenantAnalyticsSchema> = {
             analyticsRequest: {
               tenantId: analyticsTenantId,
               timeRange: {
                 startDate: new Date('2024-01-01'),
                 endDate: new Date('2024-01-31'),
-                granularity: 'DAILY' as const
+                granularity: 'DAILY'
               },
-              metrics: ['USER_ACTIVITY', 'API_USAGE', 'PERFORMANCE', 'BILLING'] as const,
+              metrics: ['USER_ACTIVITY', 'API_USAGE', 'PERFORMANCE', 'BILLING'],
               benchmarking: true,
               predictiveAnalytics: true
             },
@@ -1198,15 +1198,15 @@ describe('Fortune 500 Multi-Tenant SaaS - BDD Scenarios', () => {
           
           saasContext.memo!.currentTenantId = optimizationTenantId;
           
-          const optimizationRequest = {
+          const optimizationRequest: z.input<typeof TenantAnalyticsSchema> = {
             analyticsRequest: {
               tenantId: optimizationTenantId,
               timeRange: {
                 startDate: new Date('2024-01-01'),
                 endDate: new Date('2024-01-31'),
-                granularity: 'WEEKLY' as const
+                granularity: 'WEEKLY'
               },
-              metrics: ['API_USAGE', 'BILLING'] as const,
+              metrics: ['API_USAGE', 'BILLING'],
               benchmarking: false,
               predictiveAnalytics: true
             }
@@ -266,7 +266,7 @@ describe('Fortune 500 Performance & Scale - BDD Scenarios', () => {
       
       const highThroughputProcessor = cittyPro.defineTask({
         id: 'high-throughput-processor',
-        run: async (batchRequest, ctx) => {
+        run: async (batchRequest: z.infer<typeof HighThroughputSchema>, ctx) => {
           const { requestBatch, performanceRequirements, resourceLimits } = batchRequest;
           
           // Simulate high-throughput processing
@@ -514,7 +514,7 @@ describe('Fortune 500 Performance & Scale - BDD Scenarios', () => {
       
       const realTimeMonitor = cittyPro.defineTask({
         id: 'real-time-performance-monitor',
-        run: async (monitoringRequest, ctx) => {
+        run: async (monitoringRequest: z.infer<typeof MonitoringSchema>, ctx) => {
           const { monitoringConfig, businessMetrics } = monitoringRequest;
           
           // Simulate real-time monitoring session
@@ -801,7 +801,7 @@ describe('Fortune 500 Performance & Scale - BDD Scenarios', () => {
       
       const loadBalancingTask = cittyPro.defineTask({
         id: 'intelligent-load-balancer',
-        run: async (loadBalanceRequest, ctx) => {
+        run: async (loadBalanceRequest: z.infer<typeof LoadBalancingSchema>, ctx) => {
           const { infrastructure, failoverConfig, trafficPatterns } = loadBalanceRequest;
           
           // Initialize infrastructure
@@ -84,7 +84,7 @@ describe('Validation Patterns - Advanced BDD Tests', () => {
       
       describe('When all nested fields are valid', () => {
         it('Then should pass deep validation', async () => {
-          const validEmployee = {
+          const validEmployee: z.input<typeof EmployeeSchema> = {
             id: '550e8400-e29b-41d4-a716-446655440000',
             personalInfo: {
               firstName: 'John',
@@ -336,7 +336,7 @@ describe('Citty Pro Performance Benchmarks', () => {
     });
 
     const validSimpleData = { name: 'John', age: 30 };
-    const validComplexData = {
+    const validComplexData: z.input<typeof complexSchema> = {
       user: {
         id: '123e4567-e89b-12d3-a456-426614174000',
         name: 'John Doe',
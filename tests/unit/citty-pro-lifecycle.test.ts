@@ -9,7 +9,8 @@ import type {
   RunCtx, 
   Command, 
   ArgsDef, 
-  Output 
+  Output,
+  Plugin
 } from '../../src/types/citty-pro.d.ts';
 
 describe('Citty Pro Lifecycle Execution', () => {
@@ -203,6 +204,74 @@ describe('Citty Pro Lifecycle Execution', () => {
       expect(capturedCtx.env).toEqual({ EXPECTED_ENV: 'expected_value' }); // ctx.env wins over process.env
       expect(typeof capturedCtx.now).toBe('function');
     });
+
+    it('should apply plugins before the first phase with the context steps get', async () => {
+      // Arrange
+      const calls: string[] = [];
+      const plugin: Plugin = (h, ctx) => {
+        calls.push('plugin');
+        ctx.memo = { tracer: 'on' };
+        h.hook('cli:boot', () => {
+          calls.push('cli:boot');
+        });
+      };
+      const mockRunStep = vi.fn().mockReturnValue({ text: 'success' });
+
+      // Act
+      await runLifecycle({
+        cmd: { run: vi.fn() },
+        args: { _: [] },
+        ctx: { cwd: '/initial/path', env: {}, now: () => new Date() },
+        runStep: mockRunStep,
+        plugins: [plugin]
+      });
+
+      // Assert
+      expect(calls).toEqual(['plugin', 'cli:boot']);
+      expect(mockRunStep).toHaveBeenCalledWith(expect.objectContaining({ memo: { tracer: 'on' } }));
+    });
+
+    it('should turn --no-cache and --resume into context fields', async () => {
+      // Arrange
+      const argv = process.argv;
+      process.argv = ['node', 'cli', '--no-cache', '--resume', 'release-1'];
+      const mockRunStep = vi.fn().mockReturnValue({});
+
+      try {
+        // Act
+        await runLifecycle({
+          cmd: { run: vi.fn() },
+          args: { _: [] },
+          ctx: { cwd: '/initial/path', env: {}, now: () => new Date() },
+          runStep: mockRunStep
+        });
+      } finally {
+        process.argv = argv;
+      }
+
+      // Assert
+      expect(mockRunStep).toHaveBeenCalledWith(expect.objectContaining({ cache: false, resume: 'release-1' }));
+    });
+
+    it('should read --resume and --no-cache from the raw arguments it is given', async () => {
+      // Arrange
+      const mockRunStep = vi.fn().mockReturnValue({});
+      const bootHook = vi.fn();
+      hooks.hook('cli:boot', bootHook);
+
+      // Act
+      await runLifecycle({
+        cmd: { run: vi.fn() },
+        args: { _: [] },
+        ctx: { cwd: '/initial/path', env: {}, now: () => new Date() },
+        runStep: mockRunStep,
+        rawArgs: ['deploy', '--resume=release-2', '--no-cache']
+      });
+
+      // Assert
+      expect(bootHook).toHaveBeenCalledWith({ argv: ['deploy', '--resume=release-2', '--no-cache'] });
+      expect(mockRunStep).toHaveBeenCalledWith(expect.objectContaining({ cache: false, resume: 'release-2' }));
+    });
   });
 
   describe('Hook Integration', () => {
@@ -3,8 +3,13 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { faker } from '@faker-js/faker';
 import fc from 'fast-check';
 import { z } from 'zod';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { defineTask } from '../../src/pro/task';
 import { hooks } from '../../src/pro/hooks';
+import { TaskTimeoutError } from '../../src/pro/cancellation';
+import { createFileCacheStore } from '../../src/pro/task-cache';
 import type { TaskSpec, Task, RunCtx } from '../../src/types/citty-pro.d.ts';
 
 describe('Citty Pro Task System', () => {
@@ -524,6 +529,180 @@ describe('Citty Pro Task System', () => {
     });
   });
 
+  describe('Timeouts and Cancellation', () => {
+    const mockCtx: RunCtx = {
+      cwd: '/tmp',
+      env: {},
+      now: () => new Date()
+    };
+
+    afterEach(() => {
+      hooks.removeAllHooks();
+    });
+
+    it('should reject with TaskTimeoutError and abort ctx.signal after the timeout', async () => {
+      // Arrange
+      let taskSignal: AbortSignal | undefined;
+      const cancelled = vi.fn();
+      const called = vi.fn();
+      hooks.hook('task:did:cancel', cancelled);
+      hooks.hook('task:did:call', called);
+      const task = defineTask({
+        id: 'slow',
+        timeout: 20,
+        run: (_input, ctx) => {
+          taskSignal = ctx.signal;
+          return new Promise(() => {});
+        }
+      });
+
+      // Act
+      const error = await task.call({}, mockCtx).catch(error => error);
+
+      // Assert
+      expect(error).toBeInstanceOf(TaskTimeoutError);
+      expect(error).toMatchObject({ id: 'slow', timeout: 20, code: 'TASK_TIMEOUT' });
+      expect(taskSignal?.aborted).toBe(true);
+      expect(cancelled).toHaveBeenCalledWith({ id: 'slow', reason: error });
+      expect(called).not.toHaveBeenCalled();
+    });
+
+    it('should stop when the signal of the context aborts', async () => {
+      // Arrange
+      const controller = new AbortController();
+      const run = vi.fn(() => {
+        controller.abort(new Error('stopped'));
+        return new Promise(() => {});
+      });
+      const task = defineTask({ id: 'waiting', run });
+      const ctx = { ...mockCtx, signal: controller.signal };
+
+      // Act & Assert
+      await expect(task.call({}, ctx)).rejects.toThrow('stopped');
+      expect(run).toHaveBeenCalledWith({}, ctx);
+      await expect(task.call({}, ctx)).rejects.toThrow('stopped');
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not time out tasks that finish in time', async () => {
+      vi.useFakeTimers();
+      try {
+        const task = defineTask({ id: 'fast', timeout: 1000, run: async () => 'done' });
+
+        await expect(task.call({}, mockCtx)).resolves.toBe('done');
+        expect(vi.getTimerCount()).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('Caching', () => {
+    const createCtx = (overrides: Partial<RunCtx> = {}): RunCtx => ({
+      cwd: '/tmp',
+      env: {},
+      now: () => new Date(),
+      memo: {},
+      ...overrides
+    });
+
+    afterEach(() => {
+      hooks.removeAllHooks();
+      vi.useRealTimers();
+    });
+
+    it('should return cached results for the same input and report hits and misses', async () => {
+      // Arrange
+      const statuses: unknown[] = [];
+      hooks.hook('task:did:call', ({ cache }) => {
+        statuses.push(cache);
+      });
+      const run = vi.fn(async ({ n }: { n: number }) => ({ square: n * n }));
+      const task = defineTask({ id: 'square', in: z.object({ n: z.number() }), cache: true, run });
+      const ctx = createCtx();
+
+      // Act
+      const first = await task.call({ n: 3 }, ctx);
+      const second = await task.call({ n: 3 }, ctx);
+      await task.call({ n: 4 }, ctx);
+
+      // Assert
+      expect(second).toEqual(first);
+      expect(run).toHaveBeenCalledTimes(2);
+      expect(statuses).toEqual(['miss', 'hit', 'miss']);
+    });
+
+    it('should run again with --no-cache and store the new result', async () => {
+      // Arrange
+      const run = vi.fn().mockResolvedValueOnce({ v: 1 }).mockResolvedValueOnce({ v: 2 });
+      const task = defineTask({ id: 'versioned', cache: true, run });
+      const memo = {};
+      const statuses: unknown[] = [];
+      hooks.hook('task:did:call', ({ cache }) => {
+        statuses.push(cache);
+      });
+
+      // Act
+      await task.call({}, createCtx({ memo }));
+      const bypassed = await task.call({}, createCtx({ memo, cache: false }));
+      const cached = await task.call({}, createCtx({ memo }));
+
+      // Assert
+      expect(bypassed).toEqual({ v: 2 });
+      expect(cached).toEqual({ v: 2 });
+      expect(statuses).toEqual(['miss', 'bypass', 'hit']);
+    });
+
+    it('should expire results after their ttl', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      const run = vi.fn(async () => ({ at: Date.now() }));
+      const task = defineTask({ id: 'clock', cache: { ttl: 1000 }, run });
+      const ctx = createCtx();
+
+      // Act
+      await task.call({}, ctx);
+      vi.advanceTimersByTime(999);
+      await task.call({}, ctx);
+      vi.advanceTimersByTime(1);
+      await task.call({}, ctx);
+
+      // Assert
+      expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it('should key results on declared files and keep them on disk', async () => {
+      // Arrange
+      const cwd = await mkdtemp(join(tmpdir(), 'citty-pro-cache-'));
+      const run = vi.fn(async (_input: unknown, ctx: RunCtx) => ({
+        source: await readFile(join(ctx.cwd, 'input.txt'), 'utf-8')
+      }));
+      const spec = {
+        id: 'compile',
+        cache: { files: ['input.txt'], store: createFileCacheStore(join(cwd, '.cache')) },
+        run
+      };
+      const ctx = createCtx({ cwd });
+
+      try {
+        // Act
+        await writeFile(join(cwd, 'input.txt'), 'one');
+        await defineTask(spec).call({}, ctx);
+        // A new task, as in another process, reads the same store
+        const cached = await defineTask(spec).call({}, ctx);
+        await writeFile(join(cwd, 'input.txt'), 'two');
+        const changed = await defineTask(spec).call({}, ctx);
+
+        // Assert
+        expect(cached).toEqual({ source: 'one' });
+        expect(changed).toEqual({ source: 'two' });
+        expect(run).toHaveBeenCalledTimes(2);
+      } finally {
+        await rm(cwd, { recursive: true, force: true });
+      }
+    });
+  });
+
   describe('BDD-style Scenarios', () => {
     describe('Given a task with input validation', () => {
       describe('When valid input is provided', () => {
@@ -1,8 +1,14 @@
 // tests/unit/citty-pro-workflows.test.ts
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { faker } from '@faker-js/faker';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import fc from 'fast-check';
-import { defineWorkflow } from '../../src/pro/workflow';
+import { defineWorkflow, retryDelay, type WorkflowStep } from '../../src/pro/workflow';
+import { compileExpression } from '../../src/pro/expression';
+import { TaskTimeoutError } from '../../src/pro/cancellation';
+import { createFileCheckpointStore, createMemoryCheckpointStore } from '../../src/pro/checkpoint';
 import { defineTask } from '../../src/pro/task';
 import { hooks } from '../../src/pro/hooks';
 import type { 
@@ -726,6 +732,165 @@ describe('Citty Pro Workflow System', () => {
     });
   });
 
+  describe('DAG Execution', () => {
+    const mockCtx: RunCtx = {
+      cwd: '/tmp',
+      env: { CI: 'true' },
+      now: () => new Date()
+    };
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    it('should run independent steps concurrently within the limit', async () => {
+      // Arrange
+      let active = 0;
+      let maxActive = 0;
+      const fetch = (id: string): WorkflowStep => ({
+        id,
+        dependsOn: [],
+        use: async () => {
+          maxActive = Math.max(maxActive, ++active);
+          await sleep(10);
+          active--;
+          return id.toUpperCase();
+        }
+      });
+
+      const workflow = defineWorkflow({
+        id: 'fan-in',
+        concurrency: 2,
+        steps: [
+          fetch('a'),
+          fetch('b'),
+          fetch('c'),
+          {
+            id: 'join',
+            dependsOn: ['a', 'b', 'c'],
+            use: (state: any) => [state.a, state.b, state.c].join('')
+          }
+        ]
+      });
+
+      // Act
+      const result = await workflow.run(mockCtx);
+
+      // Assert
+      expect(maxActive).toBe(2);
+      expect(result.join).toBe('ABC');
+    });
+
+    it('should skip steps whose condition is false', async () => {
+      // Arrange
+      const skipped: string[] = [];
+      const unhook = hooks.hook('step:did:skip', ({ step }: any) => { skipped.push(step); });
+
+      const workflow = defineWorkflow({
+        id: 'conditions',
+        seed: { tests: { failed: 0 } },
+        steps: [
+          { id: 'deploy', when: 'tests.failed == 0 && !env.CI', use: () => 'deployed' },
+          { id: 'report', when: "env.CI === 'true' && tests['failed'] < 1", use: () => 'reported' },
+          { id: 'notify', when: (state: any) => !state.deploy, use: () => 'notified' }
+        ]
+      });
+
+      // Act
+      const result = await workflow.run(mockCtx);
+      unhook();
+
+      // Assert
+      expect(result).not.toHaveProperty('deploy');
+      expect(result.report).toBe('reported');
+      expect(result.notify).toBe('notified');
+      expect(skipped).toEqual(['deploy']);
+    });
+
+    it('should retry failed steps with backoff', async () => {
+      // Arrange
+      const retries: Array<[number, number]> = [];
+      const unhook = hooks.hook('step:will:retry', ({ attempt, delay }: any) => { retries.push([attempt, delay]); });
+      let calls = 0;
+
+      const workflow = defineWorkflow({
+        id: 'flaky',
+        steps: [{
+          id: 'fetch',
+          retry: { maxAttempts: 3, backoff: 'exponential', delay: 5 },
+          use: () => {
+            if (++calls < 3) {
+              throw new Error('Temporary failure');
+            }
+            return 'ok';
+          }
+        }]
+      });
+
+      // Act
+      const result = await workflow.run(mockCtx);
+      unhook();
+
+      // Assert
+      expect(result.fetch).toBe('ok');
+      expect(retries).toEqual([[1, 5], [2, 10]]);
+      expect([1, 2, 3, 4, 5].map(attempt => retryDelay({ maxAttempts: 6, backoff: 'fibonacci', delay: 10 }, attempt)))
+        .toEqual([10, 10, 20, 30, 50]);
+      expect(retryDelay({ maxAttempts: 6, delay: 10, maxDelay: 25 }, 3)).toBe(25);
+    });
+
+    it('should stop scheduling steps after a failure', async () => {
+      // Arrange
+      const failed: Array<[string, number]> = [];
+      const unhook = hooks.hook('step:did:fail', ({ step, attempt }: any) => { failed.push([step, attempt]); });
+      const after = vi.fn();
+
+      const workflow = defineWorkflow({
+        id: 'failing',
+        steps: [
+          { id: 'slow', dependsOn: [], use: () => sleep(10).then(() => 'slow') },
+          { id: 'broken', dependsOn: [], retry: { maxAttempts: 2, delay: 0 }, use: () => { throw new Error('Broken'); } },
+          { id: 'after', dependsOn: ['broken'], use: after }
+        ]
+      });
+
+      // Act & Assert
+      await expect(workflow.run(mockCtx)).rejects.toThrow('Broken');
+      unhook();
+      expect(failed).toEqual([['broken', 2]]);
+      expect(after).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown dependencies and cycles when defined', () => {
+      expect(() => defineWorkflow({
+        id: 'unknown',
+        steps: [{ id: 'a', dependsOn: ['missing'], use: () => 1 }]
+      })).toThrow(/depends on unknown step missing/);
+
+      expect(() => defineWorkflow({
+        id: 'cycle',
+        steps: [
+          { id: 'a', dependsOn: ['b'], use: () => 1 },
+          { id: 'b', dependsOn: ['a'], use: () => 2 },
+          { id: 'c', dependsOn: [], use: () => 3 }
+        ]
+      })).toThrow(/dependency cycle between steps a, b/);
+
+      expect(() => defineWorkflow({
+        id: 'syntax',
+        steps: [{ id: 'a', when: 'count >', use: () => 1 }]
+      })).toThrow(/Invalid expression/);
+    });
+
+    it('should evaluate condition expressions without running code', () => {
+      const scope = { count: 3, user: { name: 'ada', roles: ['admin'] } };
+
+      expect(compileExpression('count >= 3 && (user.name == "ada" || false)')(scope)).toBe(true);
+      expect(compileExpression('user.roles[0] === \'admin\' && -count < 0')(scope)).toBe(true);
+      expect(compileExpression('missing.deep.value')(scope)).toBeUndefined();
+      expect(compileExpression('user.constructor')(scope)).toBeUndefined();
+      expect(() => compileExpression('user.name()')).toThrow(/Invalid expression/);
+      expect(() => compileExpression('count = 1')).toThrow(/Invalid expression/);
+    });
+  });
+
   describe('BDD-style Scenarios', () => {
     describe('Given a workflow with multiple data processing steps', () => {
       describe('When the workflow is executed', () => {
@@ -810,4 +975,167 @@ describe('Citty Pro Workflow System', () => {
       });
     });
   });
+  describe('Timeouts and Cancellation', () => {
+    const mockCtx: RunCtx = {
+      cwd: '/tmp',
+      env: {},
+      now: () => new Date()
+    };
+
+    it('should reject with TaskTimeoutError when the workflow times out', async () => {
+      // Arrange
+      const after = vi.fn();
+      const workflow = defineWorkflow({
+        id: 'nightly',
+        timeout: 20,
+        steps: [
+          { id: 'hang', use: () => new Promise(() => {}) },
+          { id: 'after', use: after }
+        ]
+      });
+
+      // Act
+      const error = await workflow.run(mockCtx).catch(error => error);
+
+      // Assert
+      expect(error).toBeInstanceOf(TaskTimeoutError);
+      expect(error.message).toBe('Workflow nightly timed out after 20ms');
+      expect(after).not.toHaveBeenCalled();
+    });
+
+    it('should not retry steps once the run is aborted', async () => {
+      // Arrange
+      const controller = new AbortController();
+      const deploy = vi.fn(async () => {
+        controller.abort(new Error('interrupted'));
+        throw new Error('deploy failed');
+      });
+      const workflow = defineWorkflow({
+        id: 'release',
+        steps: [{ id: 'deploy', use: deploy, retry: { maxAttempts: 3 } }]
+      });
+
+      // Act & Assert
+      await expect(workflow.run({ ...mockCtx, signal: controller.signal })).rejects.toThrow('interrupted');
+      expect(deploy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Checkpoints', () => {
+    const mockCtx: RunCtx = {
+      cwd: '/tmp',
+      env: {},
+      now: () => new Date()
+    };
+
+    const flaky = (failures: number, result = 'deployed') => {
+      const run = vi.fn(async () => {
+        if (run.mock.calls.length <= failures) {
+          throw new Error('flaky failure');
+        }
+        return result;
+      });
+      return run;
+    };
+
+    it('should resume a failed run without repeating completed steps', async () => {
+      // Arrange
+      const store = createMemoryCheckpointStore();
+      const build = vi.fn(async () => 'built');
+      const deploy = flaky(1);
+      const workflow = defineWorkflow({
+        id: 'release',
+        checkpoints: store,
+        steps: [
+          { id: 'build', use: build },
+          { id: 'deploy', use: deploy }
+        ]
+      });
+
+      // Act
+      const error = await workflow.run(mockCtx).catch(error => error);
+      const result = await workflow.resume(error.runId, mockCtx);
+
+      // Assert
+      expect(error.message).toBe('flaky failure');
+      expect(build).toHaveBeenCalledTimes(1);
+      expect(deploy).toHaveBeenCalledTimes(2);
+      expect(result).toEqual({ build: 'built', deploy: 'deployed' });
+      expect(await store.load(error.runId)).toMatchObject({
+        status: 'completed',
+        completed: ['build', 'deploy'],
+        started: []
+      });
+    });
+
+    it('should resume from ctx.resume and save runs as JSON files', async () => {
+      // Arrange
+      const cwd = await mkdtemp(join(tmpdir(), 'citty-pro-'));
+      const build = vi.fn(async () => 'built');
+      const workflow = defineWorkflow({
+        id: 'release',
+        checkpoints: true,
+        steps: [
+          { id: 'build', use: build },
+          { id: 'deploy', use: flaky(1) }
+        ]
+      });
+
+      try {
+        // Act
+        const { runId } = await workflow.run({ ...mockCtx, cwd }).catch(error => error);
+        const saved = JSON.parse(await readFile(join(cwd, '.citty-pro/runs', `${runId}.json`), 'utf-8'));
+        const result = await workflow.run({ ...mockCtx, cwd, resume: runId } as RunCtx);
+
+        // Assert
+        expect(saved).toMatchObject({
+          workflowId: 'release',
+          status: 'failed',
+          error: 'flaky failure',
+          state: { build: 'built' },
+          completed: ['build'],
+          started: ['deploy']
+        });
+        expect(build).toHaveBeenCalledTimes(1);
+        expect(result).toEqual({ build: 'built', deploy: 'deployed' });
+        await expect(createFileCheckpointStore(join(cwd, '.citty-pro/runs')).load('unknown')).resolves.toBeUndefined();
+      } finally {
+        await rm(cwd, { recursive: true, force: true });
+      }
+    });
+
+    it('should ask before replaying a step that is not idempotent', async () => {
+      // Arrange
+      const store = createMemoryCheckpointStore();
+      const charge = defineTask({ id: 'charge', idempotent: false, run: flaky(1, 'charged') });
+      const confirm = vi.fn(async () => false);
+      const workflow = defineWorkflow({
+        id: 'checkout',
+        checkpoints: store,
+        confirm,
+        steps: [{ id: 'charge', use: charge }]
+      });
+      const { runId } = await workflow.run(mockCtx).catch(error => error);
+
+      // Act & Assert
+      await expect(workflow.resume(runId, mockCtx)).rejects.toThrow('step charge is not idempotent');
+      expect(confirm).toHaveBeenCalledWith({ workflow: 'checkout', runId, step: 'charge' });
+
+      confirm.mockResolvedValue(true);
+      await expect(workflow.resume(runId, mockCtx)).resolves.toEqual({ charge: 'charged' });
+    });
+
+    it('should reject run ids it has no checkpoint for', async () => {
+      const workflow = defineWorkflow({
+        id: 'release',
+        checkpoints: createMemoryCheckpointStore(),
+        steps: [{ id: 'build', use: async () => 'built' }]
+      });
+
+      await expect(workflow.resume('missing', mockCtx)).rejects.toThrow('No checkpoint of workflow release');
+      await expect(
+        defineWorkflow({ id: 'plain', steps: [] }).resume('missing', mockCtx)
+      ).rejects.toThrow('does not keep checkpoints');
+    });
+  });
 });
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
+import { writeFileSync, mkdirSync, rmSync, utimesSync } from 'node:fs';
 import { join } from 'pathe';
 import { 
   renderTemplate, 
@@ -10,6 +10,7 @@ import {
   getAvailableFilters
 } from '../../src/renderer.js';
 import { createTemplateContext } from '../../src/context.js';
+import { templateCache } from '../../src/cache.js';
 
 const testDir = './test-templates';
 
@@ -172,6 +173,67 @@ describe('Template Renderer', () => {
       const result = await renderer.renderString('{{ name }}', { name: 'Test' });
       expect(result.output).toBe('Test');
     });
+
+    it('should honor its options for file and string renders', async () => {
+      const renderer = new TemplateRenderer({
+        autoescape: false,
+        tags: { variableStart: '<%=', variableEnd: '%>' }
+      });
+      writeFileSync(join(testDir, 'tags.njk'), '<%= html %>');
+
+      const file = await renderer.renderTemplate(join(testDir, 'tags.njk'), { html: '<b>' });
+      const string = await renderer.renderString('<%= html %>', { html: '<b>' });
+      expect(file.output).toBe('<b>');
+      expect(string.output).toBe('<b>');
+    });
+
+    it('should resolve includes next to the template, then in the search path', async () => {
+      mkdirSync(join(testDir, '_partials'), { recursive: true });
+      mkdirSync(join(testDir, 'page'), { recursive: true });
+      writeFileSync(join(testDir, '_partials', 'header.njk'), '# {{ title }}');
+      writeFileSync(join(testDir, 'page', 'footer.njk'), '-- {{ author }}');
+      writeFileSync(
+        join(testDir, 'page', 'index.njk'),
+        '{% include "header.njk" %} {% include "footer.njk" %}'
+      );
+      const renderer = new TemplateRenderer({ searchPaths: [testDir] });
+
+      const result = await renderer.renderTemplate(join(testDir, 'page', 'index.njk'), {
+        title: 'Docs',
+        author: 'Ada'
+      });
+      expect(result.output).toBe('# Docs -- Ada');
+    });
+
+    it('should recompile a template only when its file changes', async () => {
+      const renderer = new TemplateRenderer();
+      const templatePath = join(testDir, 'basic.njk');
+      const hits = templateCache.getStats().hits;
+
+      await renderer.renderTemplate(templatePath, { name: 'A' });
+      const result = await renderer.renderTemplate(templatePath, { name: 'B' });
+      expect(result.output).toBe('Hello B!');
+      expect(templateCache.getStats().hits).toBeGreaterThan(hits);
+
+      writeFileSync(templatePath, 'Bye {{ name }}!');
+      utimesSync(templatePath, new Date(), new Date(Date.now() + 1000));
+      const changed = await renderer.renderTemplate(templatePath, { name: 'C' });
+      expect(changed.output).toBe('Bye C!');
+    });
+
+    it('should register globals and async filters', async () => {
+      const renderer = new TemplateRenderer({
+        globals: { year: 2024 },
+        asyncFilters: { lookup: async (id: string) => `entity:${id}` }
+      });
+      renderer.registerGlobal('greet', (name: string) => `Hi ${name}`);
+
+      const result = await renderer.renderString(
+        '{{ greet("Bo") }} {{ year }} {{ "42" | lookup }}',
+        {}
+      );
+      expect(result.output).toBe('Hi Bo 2024 entity:42');
+    });
   });
 
   describe('getAvailableFilters', () => {
@@ -0,0 +1,94 @@
+/**
+ * Injection of rendered templates into existing files
+ */
+
+import { describe, it, expect } from "vitest";
+import { injectContent, resolveInjectOptions } from "../../src/unjucks/inject";
+
+const routes = `import { home } from './home';
+// routes
+export default [home];
+`;
+
+describe("injectContent", () => {
+  it("inserts after the first line matching the anchor", () => {
+    const result = injectContent(routes, "import { about } from './about';\n", {
+      after: "^import",
+    });
+
+    expect(result.content).toBe(`import { home } from './home';
+import { about } from './about';
+// routes
+export default [home];
+`);
+  });
+
+  it("inserts before the anchor", () => {
+    const result = injectContent(routes, "const extra = [];", {
+      before: "^// routes",
+    });
+
+    expect(result.content.split("\n")[1]).toBe("const extra = [];");
+  });
+
+  it("appends before the final newline and prepends", () => {
+    expect(injectContent("a\n", "b\n", { append: true }).content).toBe(
+      "a\nb\n",
+    );
+    expect(injectContent("a\n", "b\n", { prepend: true }).content).toBe(
+      "b\na\n",
+    );
+  });
+
+  it("inserts at a zero based line index", () => {
+    expect(injectContent("a\nc\n", "b", { atLine: 1 }).content).toBe(
+      "a\nb\nc\n",
+    );
+    expect(() => injectContent("a", "b", { atLine: -1 })).toThrow(
+      "Invalid at_line",
+    );
+  });
+
+  it("skips when skip_if matches or the anchor is missing", () => {
+    expect(
+      injectContent(routes, "x", { after: "^import", skipIf: "home" }),
+    ).toEqual({
+      content: routes,
+      skipped: "skip_if matched",
+    });
+    expect(injectContent(routes, "x", { after: "^// missing" }).skipped).toBe(
+      'anchor "^// missing" not found',
+    );
+  });
+
+  it("requires a position", () => {
+    expect(() => injectContent(routes, "x", {})).toThrow("Injection requires");
+  });
+});
+
+describe("resolveInjectOptions", () => {
+  it("ignores templates that replace their target", () => {
+    expect(resolveInjectOptions({ to: "index.ts" })).toBeUndefined();
+  });
+
+  it("renders anchors and reads hygen style keys", () => {
+    const options = resolveInjectOptions(
+      {
+        inject: true,
+        after: "// {{ section }}",
+        skip_if: "Route",
+        at_line: "3",
+      },
+      (value) => value.replace("{{ section }}", "routes"),
+    );
+
+    expect(options).toEqual({
+      before: undefined,
+      after: "// routes",
+      append: undefined,
+      prepend: undefined,
+      atLine: 3,
+      skipIf: "Route",
+    });
+  });
+});
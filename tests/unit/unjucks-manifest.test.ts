@@ -0,0 +1,192 @@
+/**
+ * Generation manifest and three-way merge of regenerated files
+ */
+
+import { describe, it, expect, beforeEach, afterAll, afterEach } from "vitest";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { mergeThreeWay } from "../../src/unjucks/merge";
+import { writeFiles } from "../../src/unjucks/output";
+import {
+  cleanManifest,
+  getOutputState,
+  loadManifest,
+  readBase,
+  recordOutput,
+  saveManifest,
+} from "../../src/unjucks/manifest";
+
+describe("mergeThreeWay", () => {
+  const base = "a\nb\nc\nd\n";
+
+  it("keeps hand edits and takes generated changes elsewhere", () => {
+    const current = "a\nb (edited)\nc\nd\n";
+    const generated = "a\nb\nc\nd\ne\n";
+
+    expect(mergeThreeWay(base, current, generated)).toEqual({
+      content: "a\nb (edited)\nc\nd\ne\n",
+      conflicts: 0,
+    });
+  });
+
+  it("accepts the same change made on both sides", () => {
+    const changed = "a\nB\nc\nd\n";
+
+    expect(mergeThreeWay(base, changed, changed).conflicts).toBe(0);
+  });
+
+  it("marks conflicting hunks", () => {
+    const result = mergeThreeWay(base, "a\nmine\nc\nd\n", "a\ntheirs\nc\nd\n");
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe(
+      "a\n<<<<<<< current\nmine\n=======\ntheirs\n>>>>>>> generated\nc\nd\n",
+    );
+  });
+});
+
+describe("manifest", () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = join(tmpdir(), `unjucks-manifest-test-${Date.now()}`);
+    await mkdir(outputDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  it("tells untouched files apart from hand edited ones", async () => {
+    const manifest = await loadManifest(outputDir);
+    await recordOutput(outputDir, manifest, "user.ts", "generated", {
+      template: "model/new",
+    });
+    await saveManifest(outputDir, manifest);
+
+    const entry = (await loadManifest(outputDir)).files["user.ts"];
+    expect(entry.template).toBe("model/new");
+    expect(await readBase(outputDir, "user.ts")).toBe("generated");
+    expect(getOutputState(entry, "generated")).toBe("untouched");
+    expect(getOutputState(entry, "edited")).toBe("modified");
+    expect(getOutputState(undefined, "edited")).toBe("untracked");
+    expect(getOutputState(entry, null)).toBe("new");
+  });
+
+  it("keys files by their path relative to the output directory", async () => {
+    const manifest = await loadManifest(outputDir);
+    await recordOutput(outputDir, manifest, "./src/user.ts", "generated", {});
+    await recordOutput(outputDir, manifest, "src//user.ts", "regenerated", {});
+
+    expect(Object.keys(manifest.files)).toEqual(["src/user.ts"]);
+    expect(await readBase(outputDir, "src/user.ts")).toBe("regenerated");
+  });
+
+  it("removes orphaned outputs but keeps hand edited ones", async () => {
+    const manifest = await loadManifest(outputDir);
+    for (const name of ["kept.ts", "orphan.ts", "edited.ts"]) {
+      await writeFile(join(outputDir, name), name);
+      await recordOutput(outputDir, manifest, name, name, {
+        entity: `ex:${name}`,
+      });
+    }
+    await saveManifest(outputDir, manifest);
+    await writeFile(join(outputDir, "edited.ts"), "edited by hand");
+
+    const result = await cleanManifest(
+      outputDir,
+      (entry) => entry.entity !== "ex:kept.ts",
+    );
+
+    expect(result).toEqual({ removed: ["orphan.ts"], kept: ["edited.ts"] });
+    expect(existsSync(join(outputDir, "orphan.ts"))).toBe(false);
+    expect(await readFile(join(outputDir, "edited.ts"), "utf8")).toBe(
+      "edited by hand",
+    );
+    expect(Object.keys((await loadManifest(outputDir)).files)).toEqual([
+      "edited.ts",
+      "kept.ts",
+    ]);
+  });
+});
+
+describe("regeneration", () => {
+  const outputDir = join(tmpdir(), `unjucks-regeneration-test-${Date.now()}`);
+
+  const generate = (content: string) =>
+    writeFiles([{ path: "user.ts", content }], { outputDir });
+  const read = () => readFile(join(outputDir, "user.ts"), "utf8");
+  const backups = async () =>
+    (await readdir(outputDir)).filter((name) => name.includes(".backup."));
+
+  // Starts over with a fresh manifest
+  beforeEach(async () => {
+    await rm(outputDir, { recursive: true, force: true });
+    await mkdir(outputDir, { recursive: true });
+    await generate("a\nb\nc\nd\n");
+  });
+
+  afterAll(async () => {
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  it("overwrites untouched files without a backup", async () => {
+    await generate("a\nb\nc\nd\ne\n");
+
+    expect(await read()).toBe("a\nb\nc\nd\ne\n");
+    expect(await backups()).toEqual([]);
+  });
+
+  it("merges generated changes into hand edited files", async () => {
+    await writeFile(join(outputDir, "user.ts"), "a\nb (edited)\nc\nd\n");
+
+    await generate("a\nb\nc\nd\ne\n");
+
+    expect(await read()).toBe("a\nb (edited)\nc\nd\ne\n");
+    expect(await backups()).toEqual([]);
+  });
+
+  it("injects into hand written files without a backup", async () => {
+    await writeFile(join(outputDir, "routes.ts"), "// routes\nexport {};\n");
+
+    await writeFiles(
+      [
+        {
+          path: "routes.ts",
+          content: "import user from './user';",
+          inject: { after: "^// routes" },
+        },
+      ],
+      { outputDir },
+    );
+
+    expect(await readFile(join(outputDir, "routes.ts"), "utf8")).toBe(
+      "// routes\nimport user from './user';\nexport {};\n",
+    );
+    expect(await backups()).toEqual([]);
+  });
+
+  it("tracks files given with a leading `./` under their plain path", async () => {
+    await writeFiles([{ path: "./user.ts", content: "a\nb\nc\nd\ne\n" }], {
+      outputDir,
+    });
+
+    expect(Object.keys((await loadManifest(outputDir)).files)).toEqual([
+      "user.ts",
+    ]);
+    expect(await backups()).toEqual([]);
+  });
+
+  it("writes conflict markers and fails on conflicting edits", async () => {
+    await writeFile(join(outputDir, "user.ts"), "a\nmine\nc\nd\n");
+
+    await expect(generate("a\ntheirs\nc\nd\n")).rejects.toThrow(
+      "Resolve the conflict markers in user.ts",
+    );
+    expect(await read()).toBe(
+      "a\n<<<<<<< current\nmine\n=======\ntheirs\n>>>>>>> generated\nc\nd\n",
+    );
+  });
+});